@@ -0,0 +1,260 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import type { Duplex } from "stream";
+
+// ----------------------------
+// Local POS API
+// ----------------------------
+// Optional HTTP server inside the tray app so a web POS on the same machine
+// can open the drawer. It only listens on 127.0.0.1 and every request must
+// carry the per-install token (Authorization: Bearer …, or ?token= for the
+// WebSocket only, since browsers can't add headers to it).
+//
+//   GET  /health        liveness
+//   GET  /status        drawers and their last known state
+//   POST /drawer/open   { profileId?, reason?, cashierId?, amount? }
+//                       (with cash shifts on, reason is sale | change |
+//                       payout | no_sale and a shift must be open)
+//   GET  /events        WebSocket; pushes JSON { event, data, ts }
+export type ApiOpenRequest = { profileId?: string; reason?: string; cashierId?: string; amount?: string };
+
+export type ApiHandlers = {
+  openDrawer(req: ApiOpenRequest): Promise<{ ok: boolean; status: number; body: unknown }>;
+  status(): unknown;
+};
+
+export type ApiServer = {
+  port: number;
+  broadcast(event: string, data: unknown): void;
+  close(): Promise<void>;
+};
+
+const MAX_BODY = 4096;
+const MAX_WS_FRAME = 4096;   // clients only send pings and closes; RFC caps those at 125 bytes
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// ----------------------------
+// Tokens
+// ----------------------------
+// Only the hash is stored; the token itself is shown to the admin once.
+export function newApiToken() {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function hashApiToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function tokenOk(presented: string | undefined, tokenHash: string) {
+  if (!presented || !tokenHash) return false;
+  const a = Buffer.from(hashApiToken(presented), "hex");
+  const b = Buffer.from(tokenHash, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// The query string is only looked at for the WebSocket upgrade: on plain
+// requests it would end up in proxy logs and browser history for nothing.
+function presentedToken(req: http.IncomingMessage, query?: URLSearchParams) {
+  const auth = req.headers.authorization ?? "";
+  const m = /^Bearer\s+(.+)$/i.exec(auth);
+  return m ? m[1].trim() : query?.get("token") ?? undefined;
+}
+
+// ----------------------------
+// HTTP helpers
+// ----------------------------
+function send(res: http.ServerResponse, status: number, body: unknown, origin?: string) {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Content-Length": Buffer.byteLength(json),
+    "Cache-Control": "no-store",
+    ...corsHeaders(origin),
+  });
+  res.end(json);
+}
+
+// The token is what protects us, so any origin may call once it has one.
+function corsHeaders(origin?: string): Record<string, string> {
+  if (!origin) return {};
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Vary": "Origin",
+  };
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => {
+      size += c.length;
+      if (size > MAX_BODY) { reject(new Error("Body too large")); req.destroy(); return; }
+      chunks.push(c);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8").trim();
+      if (!text) return resolve({});
+      try { resolve(JSON.parse(text)); } catch { reject(new Error("Body is not valid JSON")); }
+    });
+    req.on("error", reject);
+  });
+}
+
+function jsonObject(v: unknown): Record<string, unknown> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) throw new Error("Body must be a JSON object.");
+  return v as Record<string, unknown>;
+}
+
+function optionalString(v: unknown, max: number): string | undefined {
+  if (v === undefined || v === null || v === "") return undefined;
+  return String(v).slice(0, max);
+}
+
+// ----------------------------
+// WebSocket (server → client push only)
+// ----------------------------
+function wsFrame(opcode: number, payload: Buffer) {
+  const len = payload.length;
+  let head: Buffer;
+  if (len < 126) {
+    head = Buffer.from([0x80 | opcode, len]);
+  } else if (len < 65536) {
+    head = Buffer.alloc(4);
+    head[0] = 0x80 | opcode; head[1] = 126; head.writeUInt16BE(len, 2);
+  } else {
+    head = Buffer.alloc(10);
+    head[0] = 0x80 | opcode; head[1] = 127; head.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([head, payload]);
+}
+
+// Closes with 1009 (message too big).
+function closeTooBig(socket: Duplex) {
+  socket.end(wsFrame(0x8, Buffer.from([0x03, 0xf1])));
+}
+
+// Clients only ever send control frames to us (ping/close); answer those and
+// drop anything else. A frame over MAX_WS_FRAME closes the connection as
+// soon as its header arrives, so no more than one frame is ever buffered.
+function handleClientFrames(socket: Duplex, buf: Buffer): Buffer {
+  while (buf.length >= 2) {
+    const opcode = buf[0] & 0x0f;
+    const masked = (buf[1] & 0x80) !== 0;
+    let len = buf[1] & 0x7f;
+    let off = 2;
+    if (len === 126) { if (buf.length < 4) break; len = buf.readUInt16BE(2); off = 4; }
+    else if (len === 127) { if (buf.length < 10) break; len = Number(buf.readBigUInt64BE(2)); off = 10; }
+    if (len > MAX_WS_FRAME) { closeTooBig(socket); return Buffer.alloc(0); }
+    const maskOff = off;
+    if (masked) off += 4;
+    if (buf.length < off + len) break;
+
+    const payload = Buffer.from(buf.subarray(off, off + len));
+    if (masked) for (let i = 0; i < len; i++) payload[i] ^= buf[maskOff + (i % 4)];
+    buf = buf.subarray(off + len);
+
+    if (opcode === 0x8) { socket.end(wsFrame(0x8, payload.subarray(0, 2))); return Buffer.alloc(0); }
+    if (opcode === 0x9) socket.write(wsFrame(0xA, payload));
+  }
+  return buf;
+}
+
+// ----------------------------
+// Server
+// ----------------------------
+export function startApiServer(opts: {
+  port: number;
+  tokenHash: string;
+  handlers: ApiHandlers;
+}): Promise<ApiServer> {
+  const clients = new Set<Duplex>();
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    const origin = req.headers.origin;
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, corsHeaders(origin));
+      res.end();
+      return;
+    }
+    if (!tokenOk(presentedToken(req), opts.tokenHash)) {
+      send(res, 401, { ok: false, error: "Missing or invalid API token." }, origin);
+      return;
+    }
+
+    try {
+      if (req.method === "GET" && url.pathname === "/health") {
+        send(res, 200, { ok: true, uptimeSecs: Math.round(process.uptime()) }, origin);
+      } else if (req.method === "GET" && url.pathname === "/status") {
+        send(res, 200, { ok: true, ...(opts.handlers.status() as object) }, origin);
+      } else if (req.method === "POST" && url.pathname === "/drawer/open") {
+        const body = jsonObject(await readJson(req));
+        const result = await opts.handlers.openDrawer({
+          profileId: optionalString(body.profileId, 64),
+          reason: optionalString(body.reason, 200),
+          cashierId: optionalString(body.cashierId, 64),
+          amount: optionalString(body.amount, 32),
+        });
+        send(res, result.status, result.body, origin);
+      } else {
+        send(res, 404, { ok: false, error: "Not found." }, origin);
+      }
+    } catch (e) {
+      send(res, 400, { ok: false, error: e instanceof Error ? e.message : "Bad request." }, origin);
+    }
+  });
+
+  server.on("upgrade", (req, socket: Duplex) => {
+    const url = new URL(req.url ?? "/", "http://127.0.0.1");
+    const key = req.headers["sec-websocket-key"];
+    if (url.pathname !== "/events" || typeof key !== "string") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    if (!tokenOk(presentedToken(req, url.searchParams), opts.tokenHash)) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      return;
+    }
+
+    const accept = crypto.createHash("sha1").update(key + WS_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    clients.add(socket);
+
+    let pending: Buffer = Buffer.alloc(0);
+    socket.on("data", (d: Buffer) => {
+      if (!socket.writable) return;   // closing
+      pending = handleClientFrames(socket, Buffer.concat([pending, d]));
+    });
+    socket.on("close", () => clients.delete(socket));
+    socket.on("error", () => clients.delete(socket));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(opts.port, "127.0.0.1", () => {
+      server.removeListener("error", reject);
+      const addr = server.address();
+      resolve({
+        port: typeof addr === "object" && addr ? addr.port : opts.port,
+        broadcast(event, data) {
+          const frame = wsFrame(0x1, Buffer.from(JSON.stringify({ event, data, ts: new Date().toISOString() })));
+          for (const c of clients) c.write(frame);
+        },
+        close() {
+          for (const c of clients) c.destroy();
+          clients.clear();
+          return new Promise((res) => server.close(() => res()));
+        },
+      });
+    });
+  });
+}
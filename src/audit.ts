@@ -0,0 +1,266 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+
+// ----------------------------
+// Types
+// ----------------------------
+export type AuditType =
+  | "drawer_kick"       // ESC p sent (or attempted)
+  | "drawer_status"     // drawer closed again, left open too long, or printer stopped/started answering
+  | "pin_accepted"
+  | "pin_rejected"
+  | "lockout"           // too many wrong PINs; prompt path locked for a while
+  | "pin_set"           // first-run creation, change or reset of a PIN
+  | "user_changed"      // account added, disabled or enabled
+  | "shift"             // cash shift opened or closed (detail.action)
+  | "policy"            // open refused by an open rule (detail.rule)
+  | "config_changed"
+  | "settings_locked"   // admin session in Settings locked after sitting idle
+  | "config_exported";  // settings written to a signed export file
+
+export type AuditRecord = {
+  seq: number;
+  ts: string;                          // ISO-8601
+  type: AuditType;
+  source?: string;                     // hotkey | tray | test | settings ...
+  user?: string;                       // who did it (name at the time)
+  scope?: "staff" | "admin";           // which PIN a pin_* record is about
+  ok?: boolean;
+  detail?: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+};
+
+export type AuditInput = Omit<AuditRecord, "seq" | "ts" | "prevHash" | "hash">;
+
+export type AuditIntegrity = {
+  ok: boolean;
+  count: number;
+  problem?: string;                    // first problem found, human readable
+};
+
+const GENESIS = "0".repeat(64);
+
+// ----------------------------
+// Hash chain
+// ----------------------------
+// Each record's hash covers the previous record's hash plus its own content,
+// so editing, removing or reordering any line breaks every hash after it.
+// The head file remembers the last seq/hash so a truncated tail is caught too.
+//
+// Hashes are HMACs under a random key made for this install on the first
+// write, so a record can't be changed and the chain recomputed without it.
+// Records written before there was a key (seq below `from`) keep plain
+// SHA-256.
+type AuditKey = { key: Buffer; from: number };
+
+function hashRecord(r: Omit<AuditRecord, "hash">, key: AuditKey | null): string {
+  const body = JSON.stringify({
+    seq: r.seq, ts: r.ts, type: r.type, source: r.source, user: r.user, scope: r.scope,
+    ok: r.ok, detail: r.detail, prevHash: r.prevHash,
+  });
+  const h = key && r.seq >= key.from ? crypto.createHmac("sha256", key.key) : crypto.createHash("sha256");
+  return h.update(body).digest("hex");
+}
+
+function headPath(file: string) {
+  return file + ".head";
+}
+
+function keyPath(file: string) {
+  return file + ".key";
+}
+
+function readKey(file: string): AuditKey | null {
+  try {
+    const k = JSON.parse(fs.readFileSync(keyPath(file), "utf8"));
+    if (typeof k.key !== "string" || !/^[0-9a-f]{64}$/.test(k.key) || !Number.isInteger(k.from)) return null;
+    return { key: Buffer.from(k.key, "hex"), from: k.from };
+  } catch {
+    return null;
+  }
+}
+
+// Readable by this account only; `from` is the first record it covers.
+function ensureKey(file: string, from: number): AuditKey {
+  const existing = readKey(file);
+  if (existing) return existing;
+  const made = { key: crypto.randomBytes(32), from };
+  fs.writeFileSync(keyPath(file), JSON.stringify({ key: made.key.toString("hex"), from }), { encoding: "utf8", mode: 0o600 });
+  return made;
+}
+
+function readLines(file: string): string[] {
+  if (!fs.existsSync(file)) return [];
+  return fs.readFileSync(file, "utf8").split("\n").filter((l) => l.trim() !== "");
+}
+
+// Lines from the end backwards, a block at a time, so the newest records
+// don't cost a read of the whole log.
+function* linesFromEnd(file: string, block = 16 * 1024): Generator<string> {
+  if (!fs.existsSync(file)) return;
+  const fd = fs.openSync(file, "r");
+  try {
+    let pos = fs.fstatSync(fd).size;
+    let rest = Buffer.alloc(0);
+    while (pos > 0) {
+      const size = Math.min(block, pos);
+      pos -= size;
+      const buf = Buffer.alloc(size);
+      fs.readSync(fd, buf, 0, size, pos);
+      rest = Buffer.concat([buf, rest]);
+      for (let nl = rest.lastIndexOf(0x0a); nl >= 0; nl = rest.lastIndexOf(0x0a)) {
+        const line = rest.subarray(nl + 1).toString("utf8");
+        rest = rest.subarray(0, nl);
+        if (line.trim() !== "") yield line;
+      }
+    }
+    const first = rest.toString("utf8");
+    if (first.trim() !== "") yield first;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readHead(file: string): { seq: number; hash: string } | null {
+  try {
+    const h = JSON.parse(fs.readFileSync(headPath(file), "utf8"));
+    return typeof h.seq === "number" && typeof h.hash === "string" ? h : null;
+  } catch {
+    return null;
+  }
+}
+
+// ----------------------------
+// Public API
+// ----------------------------
+export function appendAudit(file: string, input: AuditInput, now = new Date()): AuditRecord {
+  let prevHash = GENESIS;
+  let seq = 1;
+  for (const line of linesFromEnd(file)) {
+    try {
+      const last = JSON.parse(line) as AuditRecord;
+      prevHash = last.hash;
+      seq = last.seq + 1;
+    } catch {
+      // Unparseable tail: keep appending, verifyAudit() will flag the break.
+      seq = readLines(file).length + 1;
+    }
+    break;
+  }
+
+  const partial = { seq, ts: now.toISOString(), ...input, prevHash };
+  const rec: AuditRecord = { ...partial, hash: hashRecord(partial, ensureKey(file, seq)) };
+  fs.appendFileSync(file, JSON.stringify(rec) + "\n", "utf8");
+  fs.writeFileSync(headPath(file), JSON.stringify({ seq: rec.seq, hash: rec.hash }), "utf8");
+  return rec;
+}
+
+export function readAudit(file: string): AuditRecord[] {
+  const out: AuditRecord[] = [];
+  for (const l of readLines(file)) {
+    try { out.push(JSON.parse(l)); } catch { /* reported by verifyAudit */ }
+  }
+  return out;
+}
+
+// Records from `since` on, read from the end of the log.
+export function readAuditSince(file: string, since: Date): AuditRecord[] {
+  const out: AuditRecord[] = [];
+  for (const l of linesFromEnd(file)) {
+    let r: AuditRecord;
+    try { r = JSON.parse(l); } catch { continue; }
+    if (Date.parse(r.ts) < since.getTime()) break;
+    out.push(r);
+  }
+  return out.reverse();
+}
+
+export function verifyAudit(file: string): AuditIntegrity {
+  const lines = readLines(file);
+  const key = readKey(file);
+  const head = readHead(file);
+  let prevHash = GENESIS;
+  let seq = 0;
+
+  // A key or head means records were written here
+  if (!lines.length && (key || head)) {
+    return { ok: false, count: 0, problem: "The log is missing or empty, but records were written." };
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    let r: AuditRecord;
+    try {
+      r = JSON.parse(lines[i]);
+    } catch {
+      return { ok: false, count: lines.length, problem: `Line ${i + 1} is not valid JSON.` };
+    }
+    if (r.seq !== seq + 1) {
+      return { ok: false, count: lines.length, problem: `Record ${r.seq} is out of sequence (expected ${seq + 1}).` };
+    }
+    if (r.prevHash !== prevHash || hashRecord(r, key) !== r.hash) {
+      const why = key ? "has been modified" : "has been modified, or the log's key file is missing";
+      return { ok: false, count: lines.length, problem: `Record ${r.seq} ${why}.` };
+    }
+    prevHash = r.hash;
+    seq = r.seq;
+  }
+
+  if (head && (head.seq !== seq || head.hash !== prevHash)) {
+    return { ok: false, count: lines.length, problem: `Log ends at record ${seq} but ${head.seq} were written; it has been truncated.` };
+  }
+  if (!head && lines.length) {
+    return { ok: false, count: lines.length, problem: "Head marker is missing." };
+  }
+  return { ok: true, count: lines.length };
+}
+
+// Inclusive date filter. `from`/`to` are YYYY-MM-DD (local time) or empty.
+export function filterAudit(records: AuditRecord[], from?: string, to?: string): AuditRecord[] {
+  const start = from ? new Date(from + "T00:00:00").getTime() : -Infinity;
+  const end = to ? new Date(to + "T23:59:59.999").getTime() : Infinity;
+  return records.filter((r) => {
+    const t = new Date(r.ts).getTime();
+    return t >= start && t <= end;
+  });
+}
+
+// The last drawer opened for real (test kicks don't count), for the tray menu.
+export function lastOpen(records: AuditRecord[]): AuditRecord | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    const r = records[i];
+    if (r.type === "drawer_kick" && r.ok && r.source !== "test") return r;
+  }
+  return undefined;
+}
+
+// Names and reasons are typed by staff, so a cell a spreadsheet would take
+// as a formula (= + - @, or a leading tab/CR) gets a ' in front.
+export function auditToCsv(records: AuditRecord[]): string {
+  const cols = ["seq", "ts", "type", "source", "user", "scope", "ok", "detail", "hash"] as const;
+  const esc = (v: unknown) => {
+    if (v === undefined || v === null) return "";
+    let s = typeof v === "object" ? JSON.stringify(v) : String(v);
+    if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = "'" + s;
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  const rows = records.map((r) => cols.map((c) => esc(r[c])).join(","));
+  return [cols.join(","), ...rows].join("\n") + "\n";
+}
+
+// Field-level diff for config_changed records. Secrets are never written out.
+export function diffConfig(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  secretKeys: string[] = [],
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const k of keys) {
+    if (JSON.stringify(before[k]) === JSON.stringify(after[k])) continue;
+    changes[k] = secretKeys.includes(k)
+      ? { from: "(redacted)", to: "(redacted)" }
+      : { from: before[k], to: after[k] };
+  }
+  return changes;
+}
@@ -0,0 +1,580 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import { Writable } from "stream";
+import { parseArgs } from "util";
+import { auditToCsv, diffConfig, filterAudit, readAudit, verifyAudit } from "./audit";
+import { ConfigError, redactConfig } from "./config";
+import type { Config } from "./config";
+import { describeKickFailure, probeDrawer } from "./drawer";
+import { getPath, isLocked, setPath } from "./managed";
+import { pinRuleTightened } from "./pinpad";
+import { newProfile } from "./profiles";
+import type { DrawerProfile } from "./profiles";
+import { OPEN_REASONS, currentShift, isOpenReason, parseMoney } from "./shifts";
+import { describeTarget, isConfigured, transportOf } from "./transport";
+import type { LinkOpener } from "./transport";
+import { activeUsers, summarize } from "./users";
+import type { Role } from "./users";
+import { FAILURE_TITLES, createStation, fileStore } from "./station";
+import type { ChoiceOptions, PromptOptions, StationEvents, StationUi } from "./station";
+
+// ----------------------------
+// Command line
+// ----------------------------
+// The same settings, audit log and drawer code as the tray app, without
+// Electron, for scripted station setup and checks over SSH:
+//
+//   echo 1234 | drawer-opener open --drawer "Front Desk" --reason Sale
+//   drawer-opener status --json
+//
+// PINs are read from stdin, one per line, never from arguments (which end
+// up in shell history and `ps`). Every command can answer in JSON instead
+// of text with --json.
+export const EXIT = {
+  ok: 0,
+  failed: 1,      // the printer or drawer didn't do what was asked
+  usage: 2,       // bad command or arguments
+  denied: 3,      // wrong PIN, locked out, or role too low
+  refused: 4,     // an open rule or a missing shift stopped it
+  config: 5,      // settings damaged, invalid or pinned by the managed file
+} as const;
+
+export type CliResult = { code: number; data: Record<string, unknown>; text: string };
+
+export class CliError extends Error {
+  constructor(readonly code: number, message: string, readonly data: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+const USAGE = `Usage: drawer-opener <command> [options]
+
+Commands:
+  open [--drawer <name|id>] [--reason <r>] [--amount <x>]
+                         Open a drawer. Reads the PIN from stdin, then a
+                         manager PIN if an open rule asks for one.
+  test [--drawer <name|id>] [--ip <host> --port <n> --channel <0|1>]
+       [--device <path> [--baud <n>]] [--status-only]
+                         Fire the drawer (admin PIN on stdin), or with
+                         --status-only just connect and read its status.
+  status [--drawer <name|id>]
+                         Drawers, printer reachability, shifts, audit log.
+  config get [<path>]    Print settings, or one of them (e.g. policy.reasons).
+  config set <path> <value>
+                         Change one setting (admin PIN on stdin). Values are
+                         JSON where they parse as JSON, text otherwise.
+  set-pin <name|id>      Reset a user's PIN. Stdin: admin PIN, new PIN, new PIN again.
+  audit export [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--out <file>]
+                         Audit records as CSV (admin PIN on stdin).
+  audit verify           Check the audit log's hash chain.
+
+Options:
+  --json                 Answer in JSON on stdout.
+  --data-dir <dir>       Where config.json and the logs live (default: the app's).
+
+On an installed station, give the app itself the same arguments, e.g.
+drawer-opener.exe status --json (Windows).
+
+Exit codes: 0 ok, 1 failed, 2 usage, 3 PIN denied, 4 refused by a rule, 5 settings problem.
+The tray app picks up changed settings on its next action; restart it for
+hotkey and POS API changes.`;
+
+// ----------------------------
+// Files
+// ----------------------------
+// Same folder Electron gives the tray app as userData.
+function defaultDataDir() {
+  if (process.env.DRAWER_OPENER_DATA) return process.env.DRAWER_OPENER_DATA;
+  const home = os.homedir();
+  switch (process.platform) {
+    case "win32": return path.join(process.env.APPDATA || path.join(home, "AppData", "Roaming"), "drawer-opener");
+    case "darwin": return path.join(home, "Library", "Application Support", "drawer-opener");
+    default: return path.join(process.env.XDG_CONFIG_HOME || path.join(home, ".config"), "drawer-opener");
+  }
+}
+
+// Where a run reads its answers and finds its printers; tests pass their own.
+export type CliIo = {
+  dataDir?: string;
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+  connect?: LinkOpener;
+};
+
+type Context = {
+  dir: string;
+  input: LineInput;
+  io: CliIo;
+};
+
+const configFile = (ctx: Context) => path.join(ctx.dir, "config.json");
+const auditFile = (ctx: Context) => path.join(ctx.dir, "audit.log");
+
+// ----------------------------
+// Stdin
+// ----------------------------
+// One line per answer. On a terminal the prompt goes to stderr and typing
+// isn't echoed; piped input is read as is.
+class LineInput {
+  private rl?: readline.Interface;
+  private lines: string[] = [];
+  private waiting: ((line: string | null) => void)[] = [];
+  private closed = false;
+  private muted = false;
+  private readonly tty: boolean;
+
+  constructor(private readonly stdin: NodeJS.ReadableStream & { isTTY?: boolean }) {
+    this.tty = !!stdin.isTTY;
+  }
+
+  private start() {
+    const output = new Writable({
+      write: (chunk, _enc, done) => {
+        if (!this.muted) process.stderr.write(chunk);
+        done();
+      },
+    });
+    this.rl = readline.createInterface({ input: this.stdin, output, terminal: this.tty });
+    this.rl.on("line", (line) => {
+      const next = this.waiting.shift();
+      if (next) next(line);
+      else this.lines.push(line);
+    });
+    this.rl.on("close", () => {
+      this.closed = true;
+      for (const next of this.waiting.splice(0)) next(null);
+    });
+  }
+
+  async secret(prompt: string): Promise<string | null> {
+    if (!this.rl) this.start();
+    if (this.lines.length) return this.lines.shift()!;
+    if (this.closed) return null;
+    if (this.tty) process.stderr.write(prompt);
+    this.muted = this.tty;
+    const line = await new Promise<string | null>((resolve) => this.waiting.push(resolve));
+    this.muted = false;
+    if (this.tty) process.stderr.write("\n");
+    return line;
+  }
+
+  close() {
+    this.rl?.close();
+  }
+}
+
+// ----------------------------
+// Station
+// ----------------------------
+// PINs, open rules, kicks and the audit log go through the same flows as the
+// tray (station.ts). Their questions are answered here: PINs from stdin,
+// choices and amounts from the options given. The first thing that stopped
+// a flow is kept so the command exits with the matching code.
+class TerminalUi implements StationUi {
+  problem?: CliError;
+  picks: { reason?: string; amount?: string } = {};
+
+  constructor(private readonly input: LineInput) {}
+
+  private stop(code: number, message: string, data: Record<string, unknown> = {}) {
+    this.problem ??= new CliError(code, message, data);
+  }
+
+  async prompt(opts: PromptOptions) {
+    // Only PINs are read; the one other question an open asks is the amount
+    if (!opts.password) return this.picks.amount ?? "";
+    const line = await this.input.secret(`${opts.label} `);
+    if (!line) this.stop(EXIT.usage, `No answer on stdin for "${opts.label}"`);
+    return line || null;
+  }
+
+  async choose(opts: ChoiceOptions) {
+    const want = this.picks.reason?.trim().toLowerCase();
+    const at = opts.buttons.findIndex((b, i) => i !== opts.cancelId && b.toLowerCase() === want);
+    if (at >= 0) return at;
+    const offered = opts.buttons.filter((_, i) => i !== opts.cancelId).map((b) => JSON.stringify(b));
+    this.stop(EXIT.usage, `A reason is required: --reason ${offered.join(" | ")}.`);
+    return opts.cancelId;
+  }
+
+  error(title: string, message: string) {
+    const category = Object.entries(FAILURE_TITLES).find(([, t]) => t === title)?.[0];
+    if (title === "Locked") this.stop(EXIT.denied, message);
+    else if (title === "Drawer Not Opened") this.stop(EXIT.refused, message);
+    else if (category) this.stop(EXIT.failed, message, { category });
+    else this.stop(EXIT.usage, message);
+  }
+
+  info() {}
+
+  denied(message: string) {
+    this.stop(EXIT.denied, message);
+  }
+}
+
+// Audit records written from here say so. A log that can't be written is
+// warned about on stderr; the command itself still runs.
+function openStation(ctx: Context, events: StationEvents = {}) {
+  const files = fileStore(ctx.dir);
+  const ui = new TerminalUi(ctx.input);
+  const station = createStation({
+    ui,
+    store: { ...files, appendAudit: (input, now) => files.appendAudit({ ...input, source: input.source ?? "cli" }, now) },
+    connect: ctx.io.connect,
+    events: { auditFailed: (m) => process.stderr.write(`Warning: the audit log couldn’t be written: ${m}\n`), ...events },
+    onBrokenConfig: (e) => { throw new CliError(EXIT.config, e.message); },
+  });
+  return { station, ui };
+}
+
+// Why a flow came back empty-handed.
+function stopped(ui: TerminalUi): never {
+  throw ui.problem ?? new CliError(EXIT.denied, "Cancelled.");
+}
+
+// The first admin is made in the tray app, where the PIN is typed twice on
+// screen; the station would otherwise start that here.
+function needUsers(cfg: Config, role?: Role) {
+  if (!activeUsers(cfg.users, role).length) {
+    throw new CliError(EXIT.denied, "No users yet. Start Drawer Opener once to create the admin account.");
+  }
+}
+
+const ADMIN_PIN = { title: "Admin PIN Required", label: "Admin PIN:" };
+
+// ----------------------------
+// Commands
+// ----------------------------
+type Options = {
+  drawer?: string;
+  reason?: string;
+  amount?: string;
+  ip?: string;
+  port?: string;
+  channel?: string;
+  device?: string;
+  baud?: string;
+  "status-only"?: boolean;
+  from?: string;
+  to?: string;
+  out?: string;
+};
+
+function pickDrawer(cfg: Config, which?: string): DrawerProfile {
+  if (!which) return cfg.profiles.find((p) => p.id === cfg.defaultProfileId) ?? cfg.profiles[0];
+  const found = cfg.profiles.find((p) => p.id === which || p.name.toLowerCase() === which.toLowerCase());
+  if (!found) throw new CliError(EXIT.usage, `No drawer "${which}". Drawers: ${cfg.profiles.map((p) => p.name).join(", ")}.`);
+  return found;
+}
+
+function whole(v: string | undefined, what: string, min: number, max: number): number | undefined {
+  if (v === undefined) return undefined;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < min || n > max) throw new CliError(EXIT.usage, `${what} must be ${min}–${max}.`);
+  return n;
+}
+
+const stateText = (s: string) => (s === "unknown" ? "" : ` (drawer ${s})`);
+
+async function openCommand(ctx: Context, opts: Options): Promise<CliResult> {
+  let who: string | undefined;
+  const { station, ui } = openStation(ctx, { kicked: (e) => { who = e.who; } });
+  const cfg = station.loadConfig();
+  const profile = pickDrawer(cfg, opts.drawer);
+
+  ui.picks = { reason: opts.reason, amount: opts.amount };
+  if (cfg.shifts.enabled) {
+    if (!isOpenReason(opts.reason)) {
+      throw new CliError(EXIT.usage, `With cash shifts on, --reason must be one of: ${OPEN_REASONS.map((r) => r.id).join(", ")}.`);
+    }
+    if (opts.amount !== undefined && parseMoney(opts.amount) === null) {
+      throw new CliError(EXIT.usage, "--amount must be a money amount like 12.50.");
+    }
+    // Opening a shift means counting the float, which needs the tray
+    if (isConfigured(profile) && !currentShift(station.readShifts(), profile.id)) {
+      throw new CliError(EXIT.refused, `No shift is open on ${profile.name}. Open one from the tray first.`, { category: "no_shift" });
+    }
+    ui.picks.reason = OPEN_REASONS.find((r) => r.id === opts.reason)!.label;
+  }
+  needUsers(cfg);
+
+  const result = await station.openDrawer(cfg, "cli", profile.id);
+  if (!result) stopped(ui);
+  if (!result.ok) {
+    throw new CliError(EXIT.failed, describeKickFailure(profile, result), { category: result.category, attempts: result.attempts });
+  }
+  return {
+    code: EXIT.ok,
+    data: { ok: true, profileId: profile.id, drawer: profile.name, user: who, status: result.drawer, elapsedMs: result.elapsedMs, attempts: result.attempts },
+    text: `Opened ${profile.name}${stateText(result.drawer)} in ${result.elapsedMs} ms.`,
+  };
+}
+
+async function testCommand(ctx: Context, opts: Options): Promise<CliResult> {
+  const { station, ui } = openStation(ctx);
+  const cfg = station.loadConfig();
+  let profile: DrawerProfile;
+  if (opts.ip || opts.device) {
+    profile = newProfile("Command line test", {
+      transport: opts.device ? "device" : "tcp",
+      printerIp: opts.ip ?? "",
+      printerPort: whole(opts.port, "--port", 1, 65535) ?? 9100,
+      devicePath: opts.device,
+      baudRate: whole(opts.baud, "--baud", 300, 4000000),
+      drawerChannel: whole(opts.channel, "--channel", 0, 1) === 1 ? 1 : 0,
+    });
+  } else {
+    profile = pickDrawer(cfg, opts.drawer);
+    if (!isConfigured(profile)) throw new CliError(EXIT.failed, describeKickFailure(profile, { category: "not_configured" }));
+  }
+  const target = `${profile.name} (${describeTarget(profile)})`;
+
+  if (opts["status-only"]) {
+    const probe = await probeDrawer(profile, undefined, ctx.io.connect);
+    if (!probe.ok) throw new CliError(EXIT.failed, describeKickFailure(profile, probe), { category: probe.category, detail: probe.error });
+    return {
+      code: EXIT.ok,
+      data: { ok: true, printer: describeTarget(profile), status: probe.drawer, elapsedMs: probe.elapsedMs },
+      text: `${target} answered in ${probe.elapsedMs} ms${stateText(probe.drawer)}.`,
+    };
+  }
+
+  needUsers(cfg, "admin");
+  const admin = (await station.identifyUser(cfg, "admin", "admin", ADMIN_PIN)) ?? stopped(ui);
+  const result = await station.kickAndRecord(profile, "test", admin.name);
+  if (!result.ok) throw new CliError(EXIT.failed, describeKickFailure(profile, result), { category: result.category, detail: result.error });
+  return {
+    code: EXIT.ok,
+    data: { ok: true, printer: describeTarget(profile), status: result.drawer, elapsedMs: result.elapsedMs },
+    text: `Test open sent to ${target}${stateText(result.drawer)} in ${result.elapsedMs} ms.`,
+  };
+}
+
+async function statusCommand(ctx: Context, opts: Options): Promise<CliResult> {
+  const { station } = openStation(ctx);
+  const cfg = station.loadConfig();
+  const managed = station.managedPolicy();
+  const drawers = opts.drawer ? [pickDrawer(cfg, opts.drawer)] : cfg.profiles;
+  const store = cfg.shifts.enabled ? station.readShifts() : undefined;
+
+  // One at a time: several drawers usually share one printer
+  const rows = [];
+  for (const p of drawers) {
+    const probe = isConfigured(p) ? await probeDrawer(p, undefined, ctx.io.connect) : undefined;
+    const shift = store && currentShift(store, p.id);
+    rows.push({
+      id: p.id,
+      name: p.name,
+      default: p.id === cfg.defaultProfileId,
+      transport: transportOf(p),
+      printer: isConfigured(p) ? describeTarget(p) : null,
+      reachable: probe ? probe.ok : null,
+      status: probe?.drawer ?? "unknown",
+      error: probe && !probe.ok ? describeKickFailure(p, probe) : undefined,
+      shift: shift ? { id: shift.id, openedBy: shift.openedBy, openedAt: shift.openedAt } : undefined,
+    });
+  }
+  const integrity = verifyAudit(auditFile(ctx));
+  const ok = rows.every((r) => r.reachable !== false) && integrity.ok;
+
+  const lines = rows.map((r) =>
+    `${r.name}${r.default ? " (default)" : ""}: ` +
+    (r.printer === null ? "not set up" : `${r.printer} — ${r.reachable ? "reachable" + stateText(r.status) : "NOT reachable"}`) +
+    (r.shift ? `; ${r.shift.openedBy}’s shift since ${new Date(r.shift.openedAt).toLocaleString()}` : ""),
+  );
+  lines.push(`Audit log: ${integrity.ok ? `${integrity.count} records, intact` : `DAMAGED — ${integrity.problem}`}`);
+  lines.push(`Settings: ${configFile(ctx)}${managed ? ` (managed by ${managed.file})` : ""}`);
+  return {
+    code: ok ? EXIT.ok : EXIT.failed,
+    data: { ok, drawers: rows, audit: integrity, config: configFile(ctx), managed: managed ? { file: managed.file, locked: managed.locked } : null },
+    text: lines.join("\n"),
+  };
+}
+
+// Settings as the CLI shows them: accounts without PIN hashes, no token hash.
+function viewConfig(cfg: Config) {
+  return { ...redactConfig(cfg), users: summarize(cfg.users) };
+}
+
+const UNSETTABLE = ["version", "users", "api.tokenHash"];
+
+async function configCommand(ctx: Context, args: string[]): Promise<CliResult> {
+  const { station, ui } = openStation(ctx);
+  const [action, at, value] = args;
+  if (action === "get") {
+    if (args.length > 2) throw new CliError(EXIT.usage, "Usage: config get [<path>]");
+    const view = viewConfig(station.loadConfig());
+    const found = at ? getPath(view, at) : view;
+    if (found === undefined) throw new CliError(EXIT.usage, `There is no setting "${at}".`);
+    return { code: EXIT.ok, data: { ok: true, path: at ?? null, value: found }, text: JSON.stringify(found, null, 2) };
+  }
+  if (action !== "set" || !at || value === undefined || args.length > 3) {
+    throw new CliError(EXIT.usage, "Usage: config set <path> <value>");
+  }
+
+  if (UNSETTABLE.some((u) => at === u || at.startsWith(u + ".") || u.startsWith(at + "."))) {
+    throw new CliError(EXIT.usage, `${at} can’t be set here. Use set-pin for PINs and the tray app for accounts and the API token.`);
+  }
+  const managed = station.managedPolicy();
+  if (managed && managed.locked.some((l) => isLocked([l], at) || l.startsWith(at + "."))) {
+    throw new CliError(EXIT.config, `${at} is managed by ${managed.file} and can’t be changed on this station.`);
+  }
+
+  const current = station.loadLocalConfig();
+  const parent = at.includes(".") ? getPath(current, at.slice(0, at.lastIndexOf("."))) : current;
+  if (!parent || typeof parent !== "object" || !(at.slice(at.lastIndexOf(".") + 1) in parent)) {
+    throw new CliError(EXIT.usage, `There is no setting "${at}".`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = value;
+  }
+
+  const cfg = station.loadConfig();
+  needUsers(cfg, "admin");
+  // Same check as Settings: a keypad the admin's PIN doesn't fit isn't saved
+  const trial = structuredClone(current);
+  setPath(trial, at, parsed);
+  const tighter = typeof trial.pinPad === "object" && trial.pinPad !== null && pinRuleTightened(cfg.pinPad, trial.pinPad);
+  const request = tighter ? { ...ADMIN_PIN, rule: trial.pinPad } : ADMIN_PIN;
+  const admin = (await station.identifyUser(cfg, "admin", "admin", request)) ?? stopped(ui);
+  // Re-read: the admin's own hash may have been upgraded meanwhile
+  const local = station.loadLocalConfig();
+  const next = structuredClone(local);
+  setPath(next, at, parsed);
+  try {
+    station.saveConfig(next);
+  } catch (e) {
+    if (e instanceof ConfigError) throw new CliError(EXIT.config, e.message, { problems: e.problems });
+    throw e;
+  }
+  const changes = diffConfig(redactConfig(local), redactConfig(next));
+  if (Object.keys(changes).length) station.audit({ type: "config_changed", user: admin.name, detail: changes });
+  return { code: EXIT.ok, data: { ok: true, path: at, value: parsed }, text: `${at} set to ${JSON.stringify(parsed)}.` };
+}
+
+async function setPinCommand(ctx: Context, args: string[]): Promise<CliResult> {
+  if (args.length !== 1) throw new CliError(EXIT.usage, "Usage: set-pin <name|id>");
+  const { station, ui } = openStation(ctx);
+  const cfg = station.loadConfig();
+  const target = cfg.users.find((u) => u.id === args[0] || u.name.toLowerCase() === args[0].toLowerCase());
+  if (!target) throw new CliError(EXIT.usage, `No user "${args[0]}".`);
+
+  needUsers(cfg, "admin");
+  const r = await station.setPin(cfg, target.id);
+  if (r.error) throw new CliError(EXIT.usage, r.error);
+  if (!r.ok) stopped(ui);
+  return { code: EXIT.ok, data: { ok: true, id: target.id, name: target.name }, text: `PIN for ${target.name} updated.` };
+}
+
+async function auditCommand(ctx: Context, args: string[], opts: Options): Promise<CliResult> {
+  if (args[0] === "verify" && args.length === 1) {
+    const integrity = verifyAudit(auditFile(ctx));
+    return {
+      code: integrity.ok ? EXIT.ok : EXIT.failed,
+      data: { ...integrity },
+      text: integrity.ok ? `Audit log intact: ${integrity.count} records.` : `Audit log DAMAGED: ${integrity.problem}`,
+    };
+  }
+  if (args[0] !== "export" || args.length !== 1) throw new CliError(EXIT.usage, "Usage: audit export|verify");
+  for (const [v, what] of [[opts.from, "--from"], [opts.to, "--to"]] as const) {
+    if (v !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(v)) throw new CliError(EXIT.usage, `${what} must be a date like 2026-01-31.`);
+  }
+
+  const { station, ui } = openStation(ctx);
+  const cfg = station.loadConfig();
+  needUsers(cfg, "admin");
+  (await station.identifyUser(cfg, "admin", "admin", ADMIN_PIN)) ?? stopped(ui);
+  const records = filterAudit(readAudit(auditFile(ctx)), opts.from, opts.to);
+  const csv = auditToCsv(records);
+  if (opts.out) {
+    fs.writeFileSync(opts.out, csv, "utf8");
+    return { code: EXIT.ok, data: { ok: true, count: records.length, file: opts.out }, text: `${records.length} records written to ${opts.out}.` };
+  }
+  return { code: EXIT.ok, data: { ok: true, count: records.length, records }, text: csv.trimEnd() };
+}
+
+// ----------------------------
+// Entry point
+// ----------------------------
+const COMMANDS = ["open", "test", "status", "config", "set-pin", "audit"];
+
+// Whether the packaged app was started as `drawer-opener <command> ...`
+// rather than as the tray app.
+export function isCliCommand(arg: string | undefined) {
+  return !!arg && COMMANDS.includes(arg);
+}
+
+export function printResult(r: CliResult & { json: boolean }) {
+  if (r.json) process.stdout.write(JSON.stringify(r.data, null, 2) + "\n");
+  else if (r.code === EXIT.ok) process.stdout.write(r.text + "\n");
+  else process.stderr.write(r.text + "\n");
+}
+
+export async function runCli(argv: string[], io: CliIo = {}): Promise<CliResult & { json: boolean }> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        "data-dir": { type: "string" },
+        drawer: { type: "string" },
+        reason: { type: "string" },
+        amount: { type: "string" },
+        ip: { type: "string" },
+        port: { type: "string" },
+        channel: { type: "string" },
+        device: { type: "string" },
+        baud: { type: "string" },
+        "status-only": { type: "boolean" },
+        from: { type: "string" },
+        to: { type: "string" },
+        out: { type: "string" },
+      },
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { code: EXIT.usage, json: argv.includes("--json"), data: { ok: false, error: message }, text: `${message}\n\n${USAGE}` };
+  }
+
+  const { values, positionals } = parsed;
+  const json = !!values.json;
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    return { code: command || values.help ? EXIT.ok : EXIT.usage, json, data: { ok: true, usage: USAGE }, text: USAGE };
+  }
+
+  const ctx: Context = { dir: values["data-dir"] ?? io.dataDir ?? defaultDataDir(), input: new LineInput(io.stdin ?? process.stdin), io };
+  try {
+    const done = (r: CliResult) => ({ ...r, json });
+    switch (command) {
+      case "open": return done(await openCommand(ctx, values));
+      case "test": return done(await testCommand(ctx, values));
+      case "status": return done(await statusCommand(ctx, values));
+      case "config": return done(await configCommand(ctx, rest));
+      case "set-pin": return done(await setPinCommand(ctx, rest));
+      case "audit": return done(await auditCommand(ctx, rest, values));
+    }
+    throw new CliError(EXIT.usage, `Unknown command "${command}".\n\n${USAGE}`);
+  } catch (e) {
+    const err = e instanceof CliError ? e : new CliError(EXIT.failed, e instanceof Error ? e.message : String(e));
+    return { code: err.code, json, data: { ok: false, error: err.message, ...err.data }, text: err.message };
+  } finally {
+    ctx.input.close();
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((r) => {
+    printResult(r);
+    process.exitCode = r.code;
+  });
+}
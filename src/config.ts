@@ -0,0 +1,445 @@
+import * as fs from "fs";
+import { writeFileAtomic } from "./files";
+import { loadProfiles, newProfile } from "./profiles";
+import type { DrawerProfile } from "./profiles";
+import { isQueueName, isTransport } from "./transport";
+import { defaultPolicy, isTimeOfDay } from "./policy";
+import type { OpenPolicy } from "./policy";
+import { RECEIPT_COLUMNS, defaultReceipts, isReceiptCode } from "./receipts";
+import type { ReceiptTemplate } from "./receipts";
+import { defaultHotkeys, isAccelerator, isHotkeyMode } from "./hotkeys";
+import type { HotkeySettings } from "./hotkeys";
+import { defaultHealth, isHealthInterval } from "./health";
+import type { HealthSettings } from "./health";
+import { defaultPinPad, isPinLength, isPinPadMode } from "./pinpad";
+import type { PinPadSettings } from "./pinpad";
+import { ADMIN_IDLE_DEFAULT_MINS, ADMIN_IDLE_MAX_MINS, ADMIN_IDLE_MIN_MINS } from "./session";
+import { isRole, migrateLegacyPins, sanitizeUsers } from "./users";
+import type { User } from "./users";
+
+// ----------------------------
+// Types
+// ----------------------------
+export type Config = {
+  version: number;            // schema version, see MIGRATIONS
+  profiles: DrawerProfile[];  // one per drawer this station can open
+  defaultProfileId: string;   // what the main hotkey and "Open Cash Drawer" use
+  openAlertSecs: number;      // warn when a drawer stays open this long (0 = never)
+  kickRetries: number;        // extra attempts after a refused/timed-out connection
+  kickRetryDelayMs: number;   // first backoff between attempts; doubles each time
+  api: {
+    enabled: boolean;         // local POS API on 127.0.0.1
+    port: number;
+    tokenHash?: string;       // SHA-256 of the bearer token; token itself is never stored
+  };
+  shifts: {
+    enabled: boolean;         // drawer opens need an open shift and a reason
+  };
+  policy: OpenPolicy;         // reason, manager-override, hourly-cap and business-hours rules
+  receipts: ReceiptTemplate;  // open slips and printed Z reports
+  emulator: {
+    enabled: boolean;         // run the built-in ESC/POS printer emulator on 127.0.0.1
+    port: number;
+  };
+  hotkeys: HotkeySettings;    // station-wide accelerators; drawers may add their own
+  health: HealthSettings;     // background printer checks shown in the tray
+  adminIdleMins: number;      // Settings locks after this long without use
+  pinPad: PinPadSettings;     // on-screen keypad for PIN prompts on touch terminals
+  users: User[];           // per-person PINs; replaces the shared pinHash/adminHash
+};
+
+export type ConfigChanges = Record<string, { from: unknown; to: unknown }>;
+
+// The file exists but can't be trusted. Callers must stop rather than fall
+// back to defaults: defaults have no admin, so the next person to start the
+// app would get to create one.
+export class ConfigError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(problems.length ? `${message}\n\n${problems.map((p) => "• " + p).join("\n")}` : message);
+    this.name = "ConfigError";
+  }
+}
+
+export const CONFIG_VERSION = 10;
+export const API_DEFAULT_PORT = 17877;
+export const EMULATOR_DEFAULT_PORT = 9109;
+
+export function defaultConfig(): Config {
+  const first = newProfile("Default");
+  return {
+    version: CONFIG_VERSION,
+    profiles: [first],
+    defaultProfileId: first.id,
+    openAlertSecs: 60,
+    kickRetries: 2,
+    kickRetryDelayMs: 300,
+    api: { enabled: false, port: API_DEFAULT_PORT },
+    shifts: { enabled: false },
+    policy: defaultPolicy(),
+    receipts: defaultReceipts(),
+    emulator: { enabled: false, port: EMULATOR_DEFAULT_PORT },
+    hotkeys: defaultHotkeys(),
+    health: defaultHealth(),
+    adminIdleMins: ADMIN_IDLE_DEFAULT_MINS,
+    pinPad: defaultPinPad(),
+    users: [],
+  };
+}
+
+// ----------------------------
+// Migrations
+// ----------------------------
+// One step per schema version, applied in order. Files written before the
+// schema was versioned count as version 1. Each step returns what it
+// changed, for the audit log.
+type Migration = { to: number; migrate(raw: any): ConfigChanges };
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Shared staff/admin PINs → accounts, single printer → "Default" profile,
+    // and the fields later releases added get their defaults.
+    to: 2,
+    migrate(raw) {
+      const changes: ConfigChanges = {};
+      const defaults = defaultConfig();
+
+      if (!Array.isArray(raw.users)) {
+        raw.users = migrateLegacyPins(raw);
+        if (raw.users.length) {
+          changes.users = { from: "shared PINs", to: raw.users.map((u: User) => `${u.name} (${u.role})`) };
+        }
+      } else {
+        raw.users = sanitizeUsers(raw.users);
+      }
+      delete raw.pinHash;
+      delete raw.adminHash;
+
+      const drawers = loadProfiles(raw);
+      if (drawers.migrated) {
+        changes.profiles = { from: "single printer", to: drawers.profiles.map((p) => p.name) };
+      }
+      // Pulse widths were never range-checked before; clamp rather than refuse.
+      raw.profiles = drawers.profiles.map((p) => ({
+        ...p,
+        printerPort: clampInt(p.printerPort, 1, 65535, 9100),
+        pulseOn: clampInt(p.pulseOn, 0, 255, 50),
+        pulseOff: clampInt(p.pulseOff, 0, 255, 200),
+        baudRate: p.baudRate === undefined ? undefined : clampInt(p.baudRate, 300, 4000000, 9600),
+      }));
+      raw.defaultProfileId = drawers.defaultProfileId;
+      for (const k of ["printerIp", "printerPort", "drawerChannel", "pulseOn", "pulseOff"]) delete raw[k];
+
+      raw.openAlertSecs = clampInt(raw.openAlertSecs, 0, 86400, defaults.openAlertSecs);
+      raw.kickRetries = clampInt(raw.kickRetries, 0, 5, defaults.kickRetries);
+      raw.kickRetryDelayMs = clampInt(raw.kickRetryDelayMs, 0, 10000, defaults.kickRetryDelayMs);
+      raw.api = {
+        enabled: raw.api?.enabled === true,
+        port: clampInt(raw.api?.port, 1024, 65535, API_DEFAULT_PORT),
+        tokenHash: typeof raw.api?.tokenHash === "string" ? raw.api.tokenHash : undefined,
+      };
+      return changes;
+    },
+  },
+  {
+    // Cash shifts arrive switched off, so existing stations carry on as before.
+    to: 3,
+    migrate(raw) {
+      raw.shifts = { enabled: false };
+      return {};
+    },
+  },
+  {
+    // Open rules arrive with everything off.
+    to: 4,
+    migrate(raw) {
+      raw.policy = defaultPolicy();
+      return {};
+    },
+  },
+  {
+    // Printing is opt-in; nothing comes out of the printer until it's switched on.
+    to: 5,
+    migrate(raw) {
+      raw.receipts = defaultReceipts();
+      return {};
+    },
+  },
+  {
+    to: 6,
+    migrate(raw) {
+      raw.emulator = { enabled: false, port: EMULATOR_DEFAULT_PORT };
+      return {};
+    },
+  },
+  {
+    // The default is the combination that used to be hard-coded.
+    to: 7,
+    migrate(raw) {
+      raw.hotkeys = defaultHotkeys();
+      return {};
+    },
+  },
+  {
+    // New stations check their printers; upgraded ones don't start probing
+    // the network unasked, and an admin switches it on in Settings.
+    to: 8,
+    migrate(raw) {
+      raw.health = { ...defaultHealth(), intervalSecs: 0 };
+      return {};
+    },
+  },
+  {
+    // Settings used to stay unlocked for as long as the window was open.
+    to: 9,
+    migrate(raw) {
+      raw.adminIdleMins = ADMIN_IDLE_DEFAULT_MINS;
+      return {};
+    },
+  },
+  {
+    // Off: existing PINs may not be digits only.
+    to: 10,
+    migrate(raw) {
+      raw.pinPad = defaultPinPad();
+      return {};
+    },
+  },
+];
+
+function clampInt(v: unknown, min: number, max: number, fallback: number) {
+  const n = Math.round(Number(v));
+  if (v === undefined || v === null || !Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+// Brings a parsed file up to CONFIG_VERSION in place.
+export function migrateConfig(raw: any): ConfigChanges {
+  const from = raw.version === undefined ? 1 : raw.version;
+  if (!Number.isInteger(from) || from < 1) throw new ConfigError(`Unknown config version "${raw.version}".`);
+  if (from > CONFIG_VERSION) {
+    throw new ConfigError(`The config was written by a newer version of Drawer Opener (schema ${from}; this one understands up to ${CONFIG_VERSION}).`);
+  }
+
+  const changes: ConfigChanges = {};
+  let version = from;
+  for (const m of MIGRATIONS) {
+    if (m.to <= version) continue;
+    Object.assign(changes, m.migrate(raw));
+    version = m.to;
+  }
+  raw.version = version;
+  if (from !== version) changes.version = { from, to: version };
+  return changes;
+}
+
+// ----------------------------
+// Validation
+// ----------------------------
+// Strict: anything off is reported, nothing is silently fixed. Returns one
+// readable line per problem.
+export function validateConfig(c: any): string[] {
+  const problems: string[] = [];
+  const check = (ok: boolean, msg: string) => { if (!ok) problems.push(msg); };
+  const int = (v: unknown, min: number, max: number) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+  const str = (v: unknown) => typeof v === "string";
+  const optStr = (v: unknown) => v === undefined || typeof v === "string";
+
+  if (!c || typeof c !== "object" || Array.isArray(c)) return ["The file does not contain a settings object."];
+  check(c.version === CONFIG_VERSION, `version must be ${CONFIG_VERSION}.`);
+
+  if (!Array.isArray(c.profiles) || !c.profiles.length) {
+    problems.push("profiles must list at least one drawer.");
+  } else {
+    const ids = new Set<string>();
+    c.profiles.forEach((p: any, i: number) => {
+      const at = `profiles[${i}]`;
+      if (!p || typeof p !== "object") { problems.push(`${at} is not a drawer.`); return; }
+      check(str(p.id) && p.id !== "", `${at}.id is missing.`);
+      check(!ids.has(p.id), `${at}.id "${p.id}" is used twice.`);
+      ids.add(p.id);
+      check(str(p.name) && p.name.trim() !== "", `${at}.name is missing.`);
+      check(p.transport === undefined || isTransport(p.transport), `${at}.transport must be tcp, device or queue.`);
+      check(str(p.printerIp), `${at}.printerIp must be text.`);
+      check(int(p.printerPort, 1, 65535), `${at}.printerPort must be 1–65535.`);
+      check(optStr(p.devicePath), `${at}.devicePath must be text.`);
+      check(p.baudRate === undefined || int(p.baudRate, 300, 4000000), `${at}.baudRate must be 300–4000000.`);
+      check(p.queueName === undefined || isQueueName(p.queueName), `${at}.queueName must be a printer name (letters, digits, spaces, . - _).`);
+      check(p.drawerChannel === 0 || p.drawerChannel === 1, `${at}.drawerChannel must be 0 or 1.`);
+      check(int(p.pulseOn, 0, 255), `${at}.pulseOn must be 0–255.`);
+      check(int(p.pulseOff, 0, 255), `${at}.pulseOff must be 0–255.`);
+      check(p.statusQuery === undefined || typeof p.statusQuery === "boolean", `${at}.statusQuery must be true or false.`);
+      check(p.openLevel === undefined || p.openLevel === "high" || p.openLevel === "low", `${at}.openLevel must be high or low.`);
+      check(optStr(p.hotkey), `${at}.hotkey must be text.`);
+    });
+    check(c.profiles.some((p: any) => p?.id === c.defaultProfileId), "defaultProfileId does not match any drawer.");
+  }
+
+  check(int(c.openAlertSecs, 0, 86400), "openAlertSecs must be 0–86400.");
+  check(int(c.kickRetries, 0, 5), "kickRetries must be 0–5.");
+  check(int(c.kickRetryDelayMs, 0, 10000), "kickRetryDelayMs must be 0–10000.");
+
+  if (!c.api || typeof c.api !== "object") {
+    problems.push("api is missing.");
+  } else {
+    check(typeof c.api.enabled === "boolean", "api.enabled must be true or false.");
+    check(int(c.api.port, 1024, 65535), "api.port must be 1024–65535.");
+    check(c.api.tokenHash === undefined || (str(c.api.tokenHash) && /^[0-9a-f]{64}$/.test(c.api.tokenHash)), "api.tokenHash is not a SHA-256 hash.");
+  }
+
+  check(!!c.shifts && typeof c.shifts === "object" && typeof c.shifts.enabled === "boolean", "shifts.enabled must be true or false.");
+
+  const reasonList = (v: unknown) => Array.isArray(v) && v.every((r) => str(r) && r.trim() !== "");
+  const pol = c.policy;
+  if (!pol || typeof pol !== "object") {
+    problems.push("policy is missing.");
+  } else {
+    check(typeof pol.requireReason === "boolean", "policy.requireReason must be true or false.");
+    check(reasonList(pol.reasons), "policy.reasons must be a list of reasons.");
+    check(!pol.requireReason || pol.reasons?.length > 0, "policy.reasons can't be empty while a reason is required.");
+    check(reasonList(pol.overrideReasons), "policy.overrideReasons must be a list of reasons.");
+    check(int(pol.maxOpensPerHour, 0, 1000), "policy.maxOpensPerHour must be 0–1000.");
+    const h = pol.hours;
+    if (!h || typeof h !== "object") {
+      problems.push("policy.hours is missing.");
+    } else {
+      check(typeof h.enabled === "boolean", "policy.hours.enabled must be true or false.");
+      check(isTimeOfDay(h.open) && isTimeOfDay(h.close), "policy.hours open and close must be times like 09:00.");
+      check(Array.isArray(h.days) && h.days.every((d: unknown) => int(d, 0, 6)), "policy.hours.days must be days 0–6.");
+      check(!h.enabled || h.days?.length > 0, "policy.hours.days can't be empty while business hours are on.");
+    }
+  }
+
+  const rc = c.receipts;
+  if (!rc || typeof rc !== "object") {
+    problems.push("receipts is missing.");
+  } else {
+    check(typeof rc.slipOnOpen === "boolean", "receipts.slipOnOpen must be true or false.");
+    check(typeof rc.zReportOnClose === "boolean", "receipts.zReportOnClose must be true or false.");
+    check(str(rc.header) && rc.header.length <= 500, "receipts.header must be text (500 characters max).");
+    check(str(rc.footer) && rc.footer.length <= 500, "receipts.footer must be text (500 characters max).");
+    check(RECEIPT_COLUMNS.includes(rc.columns), `receipts.columns must be one of ${RECEIPT_COLUMNS.join(", ")}.`);
+    check(isReceiptCode(rc.code), "receipts.code must be none, barcode or qr.");
+    check(typeof rc.cut === "boolean", "receipts.cut must be true or false.");
+  }
+
+  if (!c.emulator || typeof c.emulator !== "object") {
+    problems.push("emulator is missing.");
+  } else {
+    check(typeof c.emulator.enabled === "boolean", "emulator.enabled must be true or false.");
+    check(int(c.emulator.port, 1024, 65535), "emulator.port must be 1024–65535.");
+  }
+
+  const hk = c.hotkeys;
+  if (!hk || typeof hk !== "object") {
+    problems.push("hotkeys is missing.");
+  } else {
+    check(isHotkeyMode(hk.mode), "hotkeys.mode must be both, hotkey_only or tray_only.");
+    check(hk.openDrawer === "" || (str(hk.openDrawer) && isAccelerator(hk.openDrawer)), "hotkeys.openDrawer is not a key combination.");
+    check(hk.openSettings === "" || (str(hk.openSettings) && isAccelerator(hk.openSettings)), "hotkeys.openSettings is not a key combination.");
+  }
+
+  if (!c.health || typeof c.health !== "object") {
+    problems.push("health is missing.");
+  } else {
+    check(isHealthInterval(c.health.intervalSecs), "health.intervalSecs must be 0 (off) or 10–3600.");
+    check(typeof c.health.alerts === "boolean", "health.alerts must be true or false.");
+  }
+
+  check(
+    int(c.adminIdleMins, ADMIN_IDLE_MIN_MINS, ADMIN_IDLE_MAX_MINS),
+    `adminIdleMins must be ${ADMIN_IDLE_MIN_MINS}–${ADMIN_IDLE_MAX_MINS}.`,
+  );
+
+  const pad = c.pinPad;
+  if (!pad || typeof pad !== "object") {
+    problems.push("pinPad is missing.");
+  } else {
+    check(isPinPadMode(pad.mode), "pinPad.mode must be off, window or fullscreen.");
+    check(typeof pad.shuffle === "boolean", "pinPad.shuffle must be true or false.");
+    check(isPinLength(pad.length), "pinPad.length must be 0 (press OK) or 4–8.");
+  }
+
+  if (!Array.isArray(c.users)) {
+    problems.push("users is missing.");
+  } else {
+    const ids = new Set<string>();
+    c.users.forEach((u: any, i: number) => {
+      const at = `users[${i}]`;
+      if (!u || typeof u !== "object") { problems.push(`${at} is not a user.`); return; }
+      check(str(u.id) && u.id !== "" && !ids.has(u.id), `${at}.id is missing or used twice.`);
+      ids.add(u.id);
+      check(str(u.name) && u.name.trim() !== "", `${at}.name is missing.`);
+      check(isRole(u.role), `${at}.role must be staff, manager or admin.`);
+      check(str(u.pinHash) && u.pinHash !== "", `${at}.pinHash is missing.`);
+      check(u.disabled === undefined || typeof u.disabled === "boolean", `${at}.disabled must be true or false.`);
+      check(str(u.createdAt), `${at}.createdAt is missing.`);
+    });
+  }
+  return problems;
+}
+
+// What config_changed records may show: no PIN or token hashes.
+export function redactConfig(cfg: Config) {
+  const { users: _users, ...rest } = cfg;
+  return { ...rest, api: { ...cfg.api, tokenHash: cfg.api.tokenHash ? "(set)" : undefined } };
+}
+
+// ----------------------------
+// Files
+// ----------------------------
+export function backupPath(file: string) {
+  return file + ".bak";
+}
+
+function parseConfig(file: string): { config: Config; changes: ConfigChanges } {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new ConfigError(`${file} is damaged: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ConfigError(`${file} does not contain a settings object.`);
+  }
+
+  const changes = migrateConfig(raw);
+  const problems = validateConfig(raw);
+  if (problems.length) throw new ConfigError(`${file} has invalid settings:`, problems);
+  return { config: raw as Config, changes };
+}
+
+// No file yet is a first run and gets defaults; a file we can't read,
+// parse, migrate or validate throws ConfigError. Migrated files are
+// written back straight away so the upgrade only happens once.
+export function readConfigFile(file: string): { config: Config; changes: ConfigChanges } {
+  if (!fs.existsSync(file)) return { config: defaultConfig(), changes: {} };
+  const read = parseConfig(file);
+  if (Object.keys(read.changes).length) writeConfigFile(file, read.config);
+  return read;
+}
+
+// Crash-safe; the file being replaced is kept as .bak.
+export function writeConfigFile(file: string, cfg: Config) {
+  const problems = validateConfig(cfg);
+  if (problems.length) throw new ConfigError("Refusing to save invalid settings:", problems);
+  writeFileAtomic(file, JSON.stringify(cfg, null, 2), backupPath(file));
+}
+
+export function hasUsableBackup(file: string) {
+  try {
+    return fs.existsSync(backupPath(file)) && !!parseConfig(backupPath(file));
+  } catch {
+    return false;
+  }
+}
+
+// Puts the last good copy back. The damaged file is kept next to it for
+// whoever investigates, and moved aside first so it can't replace the backup.
+export function restoreBackup(file: string, now = new Date()): Config {
+  const { config } = parseConfig(backupPath(file));
+  if (fs.existsSync(file)) {
+    fs.renameSync(file, `${file}.damaged-${now.toISOString().replace(/[:.]/g, "-")}`);
+  }
+  writeConfigFile(file, config);
+  return config;
+}
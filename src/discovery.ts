@@ -0,0 +1,140 @@
+import * as dns from "dns";
+import * as net from "net";
+import * as os from "os";
+
+// ----------------------------
+// Printer discovery
+// ----------------------------
+// Finds receipt printers by trying to connect to the usual printing ports on
+// every address of the station's own IPv4 subnets. A completed TCP handshake
+// is all we look for; nothing is ever sent, so a scan can't print anything.
+//
+//   9100  raw / JetDirect (what ESC/POS kicks go to)
+//   515   LPD
+//   631   IPP
+export const RAW_PORT = 9100;
+export const EXTRA_PORTS = [515, 631];
+
+export type Subnet = {
+  iface: string;
+  address: string;    // this machine's address on it
+  prefix: number;     // CIDR length
+};
+
+export type FoundPrinter = {
+  host: string;
+  port: number;
+  name?: string;      // reverse DNS, when the network has it
+  ms: number;         // time to complete the TCP handshake
+};
+
+export type ScanOptions = {
+  ports?: number[];           // default [9100]
+  timeoutMs?: number;         // per connection attempt
+  concurrency?: number;       // open sockets at once
+  signal?: AbortSignal;       // stops the scan; results so far are returned
+  onFound?(p: FoundPrinter): void;
+  onProgress?(done: number, total: number): void;
+};
+
+// ----------------------------
+// Address helpers
+// ----------------------------
+function toInt(ip: string) {
+  return ip.split(".").reduce((n, o) => (n << 8) + Number(o), 0) >>> 0;
+}
+
+function toIp(n: number) {
+  return [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join(".");
+}
+
+export function localSubnets(): Subnet[] {
+  const out: Subnet[] = [];
+  for (const [iface, addrs] of Object.entries(os.networkInterfaces())) {
+    for (const a of addrs ?? []) {
+      if (a.family !== "IPv4" || a.internal || !a.cidr) continue;
+      if (a.address.startsWith("169.254.")) continue;   // link-local: no DHCP, nothing to find
+      const prefix = Number(a.cidr.split("/")[1]);
+      out.push({ iface, address: a.address, prefix });
+    }
+  }
+  return out;
+}
+
+// Every usable host address except our own. Wider networks (a /16 office
+// LAN) are cut down to the /24 we sit in: 65k probes would take minutes and
+// the printer is almost always next to the till.
+export function subnetHosts(s: Subnet): string[] {
+  const prefix = Math.min(Math.max(s.prefix, 24), 32);
+  const mask = prefix === 32 ? 0xffffffff : (~((1 << (32 - prefix)) - 1)) >>> 0;
+  const self = toInt(s.address);
+  const base = (self & mask) >>> 0;
+  const size = 2 ** (32 - prefix);
+  if (size <= 2) return [];
+  const hosts: string[] = [];
+  for (let i = 1; i < size - 1; i++) {
+    const n = base + i;
+    if (n !== self) hosts.push(toIp(n));
+  }
+  return hosts;
+}
+
+// ----------------------------
+// Probing
+// ----------------------------
+function probe(host: string, port: number, timeoutMs: number, signal?: AbortSignal): Promise<number | null> {
+  return new Promise((resolve) => {
+    const started = Date.now();
+    const socket = new net.Socket();
+    const done = (ms: number | null) => {
+      signal?.removeEventListener("abort", abort);
+      socket.destroy();
+      resolve(ms);
+    };
+    const abort = () => done(null);
+    signal?.addEventListener("abort", abort);
+    socket.setTimeout(timeoutMs);
+    socket.once("timeout", () => done(null));
+    socket.once("error", () => done(null));
+    socket.connect(port, host, () => done(Date.now() - started));
+  });
+}
+
+async function reverseName(host: string, timeoutMs: number): Promise<string | undefined> {
+  const lookup = dns.promises.reverse(host).then((names) => names[0], () => undefined);
+  const timeout = new Promise<undefined>((r) => setTimeout(() => r(undefined), timeoutMs).unref());
+  return Promise.race([lookup, timeout]);
+}
+
+// Probes hosts × ports with at most `concurrency` sockets open. Results are
+// sorted by host then port; a cancelled scan returns what it found so far.
+export async function scanHosts(hosts: string[], opts: ScanOptions = {}): Promise<FoundPrinter[]> {
+  const ports = opts.ports?.length ? opts.ports : [RAW_PORT];
+  const timeoutMs = opts.timeoutMs ?? 600;
+  const concurrency = Math.max(1, opts.concurrency ?? 64);
+  const jobs = hosts.flatMap((host) => ports.map((port) => ({ host, port })));
+  const found: FoundPrinter[] = [];
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < jobs.length && !opts.signal?.aborted) {
+      const { host, port } = jobs[next++];
+      const ms = await probe(host, port, timeoutMs, opts.signal);
+      if (ms !== null) {
+        const hit: FoundPrinter = { host, port, ms, name: await reverseName(host, 1000) };
+        found.push(hit);
+        opts.onFound?.(hit);
+      }
+      opts.onProgress?.(++done, jobs.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, worker));
+
+  return found.sort((a, b) => toInt(a.host) - toInt(b.host) || a.port - b.port);
+}
+
+export function scanLocalNetwork(opts: ScanOptions = {}): Promise<FoundPrinter[]> {
+  const hosts = [...new Set(localSubnets().flatMap(subnetHosts))];
+  return scanHosts(hosts, opts);
+}
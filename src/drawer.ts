@@ -0,0 +1,277 @@
+import { describeTarget, openLink, transportOf } from "./transport";
+import type { LinkOpener, PrinterLink } from "./transport";
+import type { DrawerProfile } from "./profiles";
+
+// ----------------------------
+// Drawer kick & status (ESC/POS)
+// ----------------------------
+// ESC p m t1 t2 fires the solenoid. DLE EOT 1 asks for the real-time printer
+// status byte; bit 2 is the level of the drawer's sense switch (connector
+// pin 3). Most drawers pull it HIGH when open, but the switch can be wired
+// either way, so profiles can flip it with `openLevel`.
+//
+// Printers that ignore DLE EOT (or transports that can't read back) report
+// "unknown", and callers fall back to trusting that the bytes were written.
+export type DrawerState = "open" | "closed" | "unknown";
+
+// Why a kick failed, coarse enough to tell staff what to check.
+export type KickErrorCategory =
+  | "not_configured"
+  | "dns"             // printer hostname doesn't resolve
+  | "refused"         // nothing listening, or printer busy with another job
+  | "timeout"
+  | "unreachable"     // no route to the printer's network
+  | "device"          // serial/USB path missing, busy or not permitted
+  | "write"           // connected, but sending the command failed
+  | "drawer_closed";  // command delivered, status says the drawer didn't open
+
+export type KickResult = {
+  ok: boolean;
+  drawer: DrawerState;     // read back after the kick when the printer answers
+  category?: KickErrorCategory;
+  error?: string;          // low-level detail, for the log
+  elapsedMs: number;       // across all attempts
+  attempts: number;
+  slip?: "printed" | "failed";   // only when a slip was asked for
+};
+
+export type KickOptions = {
+  timeoutMs?: number;
+  retries?: number;        // extra attempts when connecting fails for a passing reason
+  retryDelayMs?: number;   // first backoff; doubles each retry
+  slip?: Buffer;           // ESC/POS document to print on the same connection once the drawer is open
+  connect?: LinkOpener;    // defaults to the real transports
+};
+
+export type PrintResult = Pick<KickResult, "ok" | "category" | "error">;
+
+// A connection check that doesn't fire the drawer.
+export type ProbeResult = Pick<KickResult, "ok" | "drawer" | "category" | "error" | "elapsedMs">;
+
+// Failures worth another go: a receipt printer mid-job often refuses or
+// stalls a second connection for a moment. Only connecting is retried; once
+// the kick has been written, even in part, another go could fire it twice.
+const TRANSIENT: KickErrorCategory[] = ["refused", "timeout", "unreachable"];
+
+const DLE_EOT_PRINTER_STATUS = Buffer.from([0x10, 0x04, 0x01]);
+
+export function kickBytes(p: DrawerProfile) {
+  return Buffer.from([0x1B, 0x70, p.drawerChannel, p.pulseOn, p.pulseOff]);
+}
+
+// Status bytes always have bits 1 and 4 set and bits 0 and 7 clear; anything
+// else is receipt data or noise, not an answer to our query.
+export function parseDrawerStatus(byte: number, openLevel: "high" | "low" = "high"): DrawerState {
+  if ((byte & 0x93) !== 0x12) return "unknown";
+  const high = (byte & 0x04) !== 0;
+  return high === (openLevel === "high") ? "open" : "closed";
+}
+
+export function classifyError(e: unknown, phase: "connect" | "write"): KickErrorCategory {
+  switch ((e as NodeJS.ErrnoException | null)?.code) {
+    case "ENOTFOUND":
+    case "EAI_AGAIN":
+    case "EAI_NONAME":
+      return "dns";
+    case "ECONNREFUSED":
+      return "refused";
+    case "ETIMEDOUT":
+      return "timeout";
+    case "EHOSTUNREACH":
+    case "ENETUNREACH":
+    case "EHOSTDOWN":
+    case "ENETDOWN":
+      return "unreachable";
+    case "ENOENT":
+    case "EACCES":
+    case "EPERM":
+    case "EBUSY":
+    case "ENXIO":
+    case "ENODEV":
+      return "device";
+  }
+  return phase === "connect" ? "unreachable" : "write";
+}
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// What staff see when a kick fails; one actionable sentence or two.
+export function describeKickFailure(p: DrawerProfile, r: Pick<KickResult, "category" | "error">) {
+  const where = describeTarget(p);
+  switch (r.category) {
+    case "not_configured":
+      return `No printer connection is set up for "${p.name}". An admin can add one in Settings.`;
+    case "dns":
+      return `Couldn't find a printer called "${p.printerIp}". Check the printer address in Settings, or use its IP address.`;
+    case "refused":
+      return `The printer at ${where} refused the connection. It may be busy printing; wait a moment and try again. If it keeps happening, check the port (usually 9100).`;
+    case "timeout":
+      return `No answer from the printer at ${where}. Check it is switched on and connected, and that its IP address hasn't changed.`;
+    case "unreachable":
+      return `This computer can't reach ${where}. Check it is on the same network as the printer.`;
+    case "device":
+      return `Couldn't use ${where}. Check the printer is plugged in and switched on, and that this user is allowed to access the port.` +
+        (r.error ? `\n\n${r.error}` : "");
+    case "write":
+      return `Connected to the printer but the command didn't go through. Check the printer for errors (paper, cover open) and try again.`;
+    case "drawer_closed":
+      return `The printer got the command but the drawer still reports closed. Check the drawer cable is plugged into the printer, try the other drawer channel, and make sure the drawer isn't locked.`;
+  }
+  return `Could not open the cash drawer via ${where}.` + (r.error ? `\n\n${r.error}` : "");
+}
+
+export function isSimulated(p: DrawerProfile) {
+  return transportOf(p) === "tcp" && p.printerIp.trim().toLowerCase() === "simulate";
+}
+
+async function queryOverLink(link: PrinterLink, p: DrawerProfile, timeoutMs: number): Promise<DrawerState> {
+  if (!link.read) return "unknown";
+  await link.write(DLE_EOT_PRINTER_STATUS);
+  const reply = await link.read(timeoutMs);
+  if (!reply || !reply.length) return "unknown";
+  return parseDrawerStatus(reply[reply.length - 1], p.openLevel);
+}
+
+// Roughly how long the pulse takes: t1 and t2 are in 2 ms units.
+function pulseMs(p: DrawerProfile) {
+  return (p.pulseOn + p.pulseOff) * 2;
+}
+
+export async function queryDrawer(p: DrawerProfile, timeoutMs = 800, connect: LinkOpener = openLink): Promise<DrawerState> {
+  if (isSimulated(p) || p.statusQuery === false || transportOf(p) === "queue") return "unknown";
+  try {
+    const link = await connect(p, timeoutMs);
+    try {
+      return await queryOverLink(link, p, timeoutMs);
+    } finally {
+      await link.close();
+    }
+  } catch {
+    return "unknown";
+  }
+}
+
+// Connects, asks for the drawer status and hangs up. Printers that don't
+// answer DLE EOT still count as reachable, with the drawer "unknown".
+export async function probeDrawer(p: DrawerProfile, timeoutMs = 3000, connect: LinkOpener = openLink): Promise<ProbeResult> {
+  const started = Date.now();
+  if (isSimulated(p)) return { ok: true, drawer: "unknown", elapsedMs: 0 };
+  let link: PrinterLink;
+  try {
+    link = await connect(p, timeoutMs);
+  } catch (e) {
+    return { ok: false, drawer: "unknown", category: classifyError(e, "connect"), error: errorMessage(e), elapsedMs: Date.now() - started };
+  }
+  try {
+    const drawer = p.statusQuery === false ? "unknown" : await queryOverLink(link, p, Math.min(timeoutMs, 800));
+    return { ok: true, drawer, elapsedMs: Date.now() - started };
+  } catch (e) {
+    return { ok: false, drawer: "unknown", category: classifyError(e, "write"), error: errorMessage(e), elapsedMs: Date.now() - started };
+  } finally {
+    await link.close();
+  }
+}
+
+// What drawer_kick records carry about the drawer and how the kick went.
+export function kickDetail(p: DrawerProfile, r?: KickResult) {
+  return {
+    drawer: p.name,
+    transport: transportOf(p),
+    printer: describeTarget(p),
+    ...(r ? { status: r.drawer, category: r.category, error: r.error, elapsedMs: r.elapsedMs, attempts: r.attempts, slip: r.slip } : {}),
+  };
+}
+
+// The slip goes after the kick (and its status check) so staff aren't kept
+// waiting on the printer, and a slip that fails to print never fails, or
+// repeats, an open that worked.
+async function printSlip(link: PrinterLink, slip?: Buffer): Promise<KickResult["slip"]> {
+  if (!slip) return undefined;
+  try {
+    await link.write(slip);
+    return "printed";
+  } catch {
+    return "failed";
+  }
+}
+
+type Attempt = Omit<KickResult, "elapsedMs" | "attempts"> & { connected: boolean };
+
+async function kickOnce(
+  p: DrawerProfile,
+  timeoutMs: number,
+  connect: LinkOpener,
+  slip?: Buffer,
+): Promise<Attempt> {
+  let link: PrinterLink;
+  try {
+    link = await connect(p, timeoutMs);
+  } catch (e) {
+    return { ok: false, drawer: "unknown", category: classifyError(e, "connect"), error: errorMessage(e), connected: false };
+  }
+
+  try {
+    await link.write(kickBytes(p));
+    if (p.statusQuery === false || !link.read) return { ok: true, drawer: "unknown", slip: await printSlip(link, slip), connected: true };
+
+    // Give the solenoid time to fire and the drawer time to spring out.
+    await new Promise((r) => setTimeout(r, pulseMs(p) + 300));
+    const drawer = await queryOverLink(link, p, 800).catch((): DrawerState => "unknown");
+    if (drawer === "closed") {
+      return { ok: false, drawer, category: "drawer_closed", error: "Printer reports the drawer is still closed.", connected: true };
+    }
+    return { ok: true, drawer, slip: await printSlip(link, slip), connected: true };
+  } catch (e) {
+    return { ok: false, drawer: "unknown", category: classifyError(e, "write"), error: errorMessage(e), connected: true };
+  } finally {
+    await link.close();
+  }
+}
+
+export async function kickDrawer(p: DrawerProfile, opts: KickOptions = {}): Promise<KickResult> {
+  const started = Date.now();
+  if (isSimulated(p)) {
+    await new Promise((r) => setTimeout(r, 150));
+    return { ok: true, drawer: "unknown", elapsedMs: Date.now() - started, attempts: 1 };
+  }
+
+  const timeoutMs = opts.timeoutMs ?? 3000;
+  const retries = Math.max(0, opts.retries ?? 0);
+  let delay = opts.retryDelayMs ?? 300;
+  let attempts = 0;
+  for (;;) {
+    attempts++;
+    const { connected, ...r } = await kickOnce(p, timeoutMs, opts.connect ?? openLink, opts.slip);
+    const retryable = !r.ok && !connected && r.category && TRANSIENT.includes(r.category);
+    if (!retryable || attempts > retries) {
+      return { ...r, elapsedMs: Date.now() - started, attempts };
+    }
+    await new Promise((res) => setTimeout(res, delay));
+    delay *= 2;
+  }
+}
+
+// Prints a document on the drawer's printer. No retries: a job that got
+// half way may already be on paper.
+export async function printDocument(
+  p: DrawerProfile,
+  doc: Buffer,
+  timeoutMs = 3000,
+  connect: LinkOpener = openLink,
+): Promise<PrintResult> {
+  if (isSimulated(p)) return { ok: true };
+  let link: PrinterLink;
+  try {
+    link = await connect(p, timeoutMs);
+  } catch (e) {
+    return { ok: false, category: classifyError(e, "connect"), error: errorMessage(e) };
+  }
+  try {
+    await link.write(doc);
+    return { ok: true };
+  } catch (e) {
+    return { ok: false, category: classifyError(e, "write"), error: errorMessage(e) };
+  } finally {
+    await link.close();
+  }
+}
@@ -0,0 +1,365 @@
+import * as net from "net";
+
+// ----------------------------
+// ESC/POS printer emulator
+// ----------------------------
+// A TCP server that behaves enough like a networked receipt printer for the
+// kick path to run for real: it parses what it's sent (ESC p, DLE DC4, DLE
+// EOT, text, barcodes, QR, cut), keeps a simulated drawer, answers status
+// queries and can be told to misbehave.
+//
+// In-process: `startEmulator({ port })` (the app runs one when Settings turns
+// it on; the tests run one per case). Standalone:
+//
+//   npm run emulator -- --port 9100 --auto-close 5000 --fault paper_out
+export type EmulatorFaults = {
+  refuse?: boolean;            // stop listening: clients get ECONNREFUSED
+  slowMs?: number;             // hold every reply this long
+  drop?: "connect" | "kick";   // hang up as soon as a client connects, or right after a kick
+  paperOut?: boolean;          // status reports paper end; text, codes and cuts are lost
+  drawerStuck?: boolean;       // kicks arrive but the drawer stays shut
+};
+
+export type EmulatorOptions = {
+  port?: number;               // 0 or unset picks a free port
+  host?: string;               // default 127.0.0.1
+  openLevel?: "high" | "low";  // how the drawer's sense switch is wired
+  autoCloseMs?: number;        // someone shuts the drawer this long after it opens; 0 = never
+  faults?: EmulatorFaults;
+};
+
+export type EmulatorEvent =
+  | { type: "connect" }
+  | { type: "kick"; pin: number; onMs: number; offMs: number; opened: boolean }
+  | { type: "status"; query: number; reply: number }
+  | { type: "line"; text: string }
+  | { type: "barcode"; data: string }
+  | { type: "qr"; data: string }
+  | { type: "cut"; partial: boolean }
+  | { type: "drawer"; state: "open" | "closed" };
+
+export type Emulator = {
+  readonly port: number;
+  readonly drawer: "open" | "closed";
+  readonly events: EmulatorEvent[];
+  printed(): string[];         // text lines that made it onto paper
+  setFaults(faults: EmulatorFaults): Promise<void>;
+  closeDrawer(): void;
+  onEvent(listener: (e: EmulatorEvent) => void): void;
+  clear(): void;
+  close(): Promise<void>;
+};
+
+export type EmulatorFault = "none" | "refuse" | "slow" | "drop" | "paper_out" | "drawer_stuck";
+
+export const EMULATOR_FAULTS: EmulatorFault[] = ["none", "refuse", "slow", "drop", "paper_out", "drawer_stuck"];
+
+export function isEmulatorFault(v: unknown): v is EmulatorFault {
+  return EMULATOR_FAULTS.includes(v as EmulatorFault);
+}
+
+// The named presets Settings and the command line offer.
+export function faultPreset(f: EmulatorFault): EmulatorFaults {
+  switch (f) {
+    case "refuse": return { refuse: true };
+    case "slow": return { slowMs: 2000 };
+    case "drop": return { drop: "kick" };
+    case "paper_out": return { paperOut: true };
+    case "drawer_stuck": return { drawerStuck: true };
+    default: return {};
+  }
+}
+
+// ----------------------------
+// Parser
+// ----------------------------
+const ESC = 0x1b;
+const GS = 0x1d;
+const DLE = 0x10;
+const LF = 0x0a;
+
+type Command =
+  | { kind: "text"; bytes: Buffer }
+  | { kind: "lf" }
+  | { kind: "kick"; pin: number; onMs: number; offMs: number }
+  | { kind: "status"; query: number }
+  | { kind: "barcode"; data: string }
+  | { kind: "qr"; data: string }
+  | { kind: "cut"; partial: boolean }
+  | { kind: "other" };
+
+// Bytes each fixed-length ESC / GS command takes, including the prefix.
+const ESC_LEN: Record<number, number> = {
+  0x40: 2, 0x32: 2, 0x3c: 2,
+  0x21: 3, 0x2d: 3, 0x33: 3, 0x45: 3, 0x47: 3, 0x4a: 3, 0x4d: 3, 0x52: 3, 0x61: 3, 0x64: 3, 0x74: 3, 0x7b: 3, 0x20: 3,
+  0x70: 5,
+};
+const GS_LEN: Record<number, number> = { 0x21: 3, 0x42: 3, 0x48: 3, 0x66: 3, 0x68: 3, 0x77: 3, 0x61: 3, 0x72: 3 };
+
+// Reads one command from the front of `buf`. Null means it's cut short and
+// more bytes are needed.
+function nextCommand(buf: Buffer): { cmd: Command; used: number } | null {
+  const b = buf[0];
+  const need = (n: number) => buf.length >= n;
+
+  if (b === LF) return { cmd: { kind: "lf" }, used: 1 };
+
+  if (b === ESC) {
+    if (!need(2)) return null;
+    const len = ESC_LEN[buf[1]] ?? 2;
+    if (!need(len)) return null;
+    if (buf[1] === 0x70) {
+      return { cmd: { kind: "kick", pin: buf[2] & 1, onMs: buf[3] * 2, offMs: buf[4] * 2 }, used: len };
+    }
+    return { cmd: { kind: "other" }, used: len };
+  }
+
+  if (b === DLE) {
+    if (!need(2)) return null;
+    if (buf[1] === 0x04) {
+      if (!need(3)) return null;
+      return { cmd: { kind: "status", query: buf[2] }, used: 3 };
+    }
+    if (buf[1] === 0x14) {
+      // DLE DC4 1 m t: real-time pulse, t × 100 ms
+      if (!need(5)) return null;
+      if (buf[2] === 1) return { cmd: { kind: "kick", pin: buf[3] & 1, onMs: buf[4] * 100, offMs: buf[4] * 100 }, used: 5 };
+      return { cmd: { kind: "other" }, used: 5 };
+    }
+    return { cmd: { kind: "other" }, used: 2 };
+  }
+
+  if (b === GS) {
+    if (!need(2)) return null;
+    const op = buf[1];
+    if (op === 0x56) {
+      if (!need(3)) return null;
+      // GS V m, or GS V m n for the forms (65 and up) that feed first
+      const m = buf[2];
+      const withFeed = m >= 65;
+      if (withFeed && !need(4)) return null;
+      return { cmd: { kind: "cut", partial: [1, 49, 66, 98, 104].includes(m) }, used: withFeed ? 4 : 3 };
+    }
+    if (op === 0x6b) {
+      if (!need(3)) return null;
+      const m = buf[2];
+      if (m <= 6) {
+        const end = buf.indexOf(0, 3);
+        if (end < 0) return null;
+        return { cmd: { kind: "barcode", data: buf.subarray(3, end).toString("latin1") }, used: end + 1 };
+      }
+      if (!need(4) || !need(4 + buf[3])) return null;
+      let data = buf.subarray(4, 4 + buf[3]).toString("latin1");
+      if (m === 73 && /^\{[ABC]/.test(data)) data = data.slice(2);   // Code 128 code-set prefix
+      return { cmd: { kind: "barcode", data }, used: 4 + buf[3] };
+    }
+    if (op === 0x28) {
+      if (!need(5)) return null;
+      const size = buf[3] + buf[4] * 256;
+      if (!need(5 + size)) return null;
+      const body = buf.subarray(5, 5 + size);
+      // GS ( k … 31 50 30 <data>: store QR data
+      if (buf[2] === 0x6b && body[0] === 0x31 && body[1] === 0x50) {
+        return { cmd: { kind: "qr", data: body.subarray(3).toString("utf8") }, used: 5 + size };
+      }
+      return { cmd: { kind: "other" }, used: 5 + size };
+    }
+    if (op === 0x76) {
+      // GS v 0 m xL xH yL yH <raster>
+      if (!need(8)) return null;
+      const size = (buf[4] + buf[5] * 256) * (buf[6] + buf[7] * 256);
+      if (!need(8 + size)) return null;
+      return { cmd: { kind: "other" }, used: 8 + size };
+    }
+    const len = GS_LEN[op] ?? 2;
+    if (!need(len)) return null;
+    return { cmd: { kind: "other" }, used: len };
+  }
+
+  if (b < 0x20 || b === 0x7f) return { cmd: { kind: "other" }, used: 1 };
+
+  let end = 1;
+  while (end < buf.length && buf[end] >= 0x20 && buf[end] !== 0x7f) end++;
+  return { cmd: { kind: "text", bytes: buf.subarray(0, end) }, used: end };
+}
+
+// ----------------------------
+// Server
+// ----------------------------
+export function startEmulator(opts: EmulatorOptions = {}): Promise<Emulator> {
+  const host = opts.host ?? "127.0.0.1";
+  const openLevel = opts.openLevel ?? "high";
+  const autoCloseMs = opts.autoCloseMs ?? 0;
+  let faults: EmulatorFaults = { ...opts.faults };
+  let port = opts.port ?? 0;
+  let drawer: "open" | "closed" = "closed";
+  let closeTimer: NodeJS.Timeout | undefined;
+  let listening = false;
+  const events: EmulatorEvent[] = [];
+  const listeners: ((e: EmulatorEvent) => void)[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const emit = (e: EmulatorEvent) => {
+    events.push(e);
+    for (const l of listeners) l(e);
+  };
+
+  const setDrawer = (state: "open" | "closed") => {
+    if (closeTimer) clearTimeout(closeTimer);
+    closeTimer = undefined;
+    if (state === drawer) return;
+    drawer = state;
+    emit({ type: "drawer", state });
+    if (state === "open" && autoCloseMs > 0) closeTimer = setTimeout(() => setDrawer("closed"), autoCloseMs);
+  };
+
+  // Status bytes always have bits 1 and 4 set. DLE EOT 1: bit 2 is the drawer
+  // sense switch, bit 3 offline. DLE EOT 2: bit 5 stopped on paper end.
+  // DLE EOT 4: bits 5–6 paper end.
+  const statusByte = (query: number) => {
+    let reply = 0x12;
+    if (query === 1) {
+      if ((drawer === "open") === (openLevel === "high")) reply |= 0x04;
+      if (faults.paperOut) reply |= 0x08;
+    } else if (query === 2) {
+      if (faults.paperOut) reply |= 0x20;
+    } else if (query === 4) {
+      if (faults.paperOut) reply |= 0x60;
+    }
+    return reply;
+  };
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => { /* client went away */ });
+    emit({ type: "connect" });
+    if (faults.drop === "connect") { socket.destroy(); return; }
+
+    // Bytes that arrived are processed even if the client has since hung up,
+    // as a printer would; only a drop we caused ourselves discards the rest.
+    let pending = Buffer.alloc(0);
+    let line = "";
+    let dropped = false;
+    const handle = (chunk: Buffer) => {
+      if (dropped) return;
+      pending = Buffer.concat([pending, chunk]);
+      for (;;) {
+        if (!pending.length) return;
+        const next = nextCommand(pending);
+        if (!next) return;
+        pending = pending.subarray(next.used);
+        const cmd = next.cmd;
+        const onPaper = !faults.paperOut;
+        switch (cmd.kind) {
+          case "text":
+            line += cmd.bytes.toString("latin1");
+            break;
+          case "lf":
+            if (onPaper) emit({ type: "line", text: line });
+            line = "";
+            break;
+          case "kick": {
+            const opened = !faults.drawerStuck;
+            emit({ type: "kick", pin: cmd.pin, onMs: cmd.onMs, offMs: cmd.offMs, opened });
+            if (opened) setDrawer("open");
+            if (faults.drop === "kick") { dropped = true; socket.destroy(); return; }
+            break;
+          }
+          case "status": {
+            const reply = statusByte(cmd.query);
+            emit({ type: "status", query: cmd.query, reply });
+            if (!socket.destroyed) socket.write(Buffer.from([reply]));
+            break;
+          }
+          case "barcode":
+            if (onPaper) emit({ type: "barcode", data: cmd.data });
+            break;
+          case "qr":
+            if (onPaper) emit({ type: "qr", data: cmd.data });
+            break;
+          case "cut":
+            if (line && onPaper) emit({ type: "line", text: line });
+            line = "";
+            if (onPaper) emit({ type: "cut", partial: cmd.partial });
+            break;
+        }
+      }
+    };
+    socket.on("data", (chunk: Buffer) => {
+      const delay = faults.slowMs ?? 0;
+      if (delay > 0) setTimeout(() => handle(chunk), delay);
+      else handle(chunk);
+    });
+  });
+
+  const listen = () => new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.removeListener("error", reject);
+      port = (server.address() as net.AddressInfo).port;
+      listening = true;
+      resolve();
+    });
+  });
+  const unlisten = () => new Promise<void>((resolve) => {
+    listening = false;
+    server.close(() => resolve());
+  });
+
+  const emulator: Emulator = {
+    get port() { return port; },
+    get drawer() { return drawer; },
+    events,
+    printed: () => events.flatMap((e) => (e.type === "line" ? [e.text] : [])),
+    async setFaults(next) {
+      faults = { ...next };
+      if (faults.refuse && listening) await unlisten();
+      if (!faults.refuse && !listening) await listen();
+    },
+    closeDrawer: () => setDrawer("closed"),
+    onEvent: (l) => { listeners.push(l); },
+    clear: () => { events.length = 0; },
+    async close() {
+      if (closeTimer) clearTimeout(closeTimer);
+      for (const s of sockets) s.destroy();
+      if (listening) await unlisten();
+    },
+  };
+
+  // Start listening even when refusing, so the port is settled; then let go.
+  return listen().then(async () => {
+    if (faults.refuse) await unlisten();
+    return emulator;
+  });
+}
+
+// ----------------------------
+// Standalone
+// ----------------------------
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const arg = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const fault = arg("fault") ?? "none";
+  if (!isEmulatorFault(fault)) {
+    process.stderr.write(`Unknown fault "${fault}". Use one of: ${EMULATOR_FAULTS.join(", ")}.\n`);
+    process.exit(2);
+  }
+  startEmulator({
+    port: Number(arg("port") ?? 9100),
+    host: arg("host") ?? "127.0.0.1",
+    openLevel: arg("open-level") === "low" ? "low" : "high",
+    autoCloseMs: Number(arg("auto-close") ?? 5000),
+    faults: faultPreset(fault),
+  }).then((emu) => {
+    process.stdout.write(`ESC/POS emulator on ${arg("host") ?? "127.0.0.1"}:${emu.port}` + (fault !== "none" ? ` (fault: ${fault})` : "") + "\n");
+    emu.onEvent((e) => process.stdout.write(`${new Date().toISOString()} ${JSON.stringify(e)}\n`));
+    process.on("SIGINT", () => emu.close().then(() => process.exit(0)));
+  }, (e) => {
+    process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,121 @@
+// ----------------------------
+// ESC/POS documents
+// ----------------------------
+// A small builder for what we print: text with alignment, bold and size,
+// Code 128 barcodes, QR codes, paper cut and the drawer kick. It only
+// produces bytes; sending them is the transport's job.
+//
+//   new EscPos().align("center").bold().line("NO SALE").bold(false).cut().build()
+//
+// Every document starts with ESC @ so nothing left over from a previous job
+// (bold, size, alignment) leaks into it.
+export type Align = "left" | "center" | "right";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+// Printers start in code page 437; rather than switch pages we fold the
+// typography we use ourselves (dashes, curly quotes) to ASCII and mark
+// anything else as "?".
+const FOLD: Record<string, string> = {
+  "—": "-", "–": "-", "‘": "'", "’": "'", "“": "\"", "”": "\"", "…": "...", "×": "x", "•": "*", "\u00a0": " ",
+};
+
+export function toPrinterText(s: string): Buffer {
+  const folded = Array.from(s, (ch) => FOLD[ch] ?? (ch.charCodeAt(0) < 0x80 ? ch : "?")).join("");
+  return Buffer.from(folded.replace(/[\x00-\x09\x0b-\x1f\x7f]/g, ""), "ascii");
+}
+
+export class EscPos {
+  private parts: Buffer[] = [Buffer.from([ESC, 0x40])];
+
+  raw(bytes: number[] | Buffer) {
+    this.parts.push(Buffer.isBuffer(bytes) ? bytes : Buffer.from(bytes));
+    return this;
+  }
+
+  text(s: string) {
+    return this.raw(toPrinterText(s));
+  }
+
+  line(s = "") {
+    return this.text(s).raw([LF]);
+  }
+
+  // One line per entry of a multi-line string; blank input prints nothing.
+  lines(s: string) {
+    for (const l of s.split(/\r?\n/)) if (l.trim()) this.line(l);
+    return this;
+  }
+
+  align(a: Align) {
+    return this.raw([ESC, 0x61, ALIGN[a]]);
+  }
+
+  bold(on = true) {
+    return this.raw([ESC, 0x45, on ? 1 : 0]);
+  }
+
+  // Character magnification, 1–8 in each direction.
+  size(width = 1, height = width) {
+    const w = Math.min(8, Math.max(1, Math.round(width))) - 1;
+    const h = Math.min(8, Math.max(1, Math.round(height))) - 1;
+    return this.raw([GS, 0x21, (w << 4) | h]);
+  }
+
+  feed(lines = 1) {
+    return this.raw([ESC, 0x64, Math.min(255, Math.max(0, lines))]);
+  }
+
+  rule(columns: number, ch = "-") {
+    return this.line(ch.repeat(columns));
+  }
+
+  // Left text, right text, padded out to the paper width.
+  columns(left: string, right: string, columns: number) {
+    return this.line(left + right.padStart(Math.max(1, columns - left.length)));
+  }
+
+  // Code 128, code set B (printable ASCII), human-readable text underneath.
+  barcode(data: string, height = 80) {
+    const body = toPrinterText(data);
+    if (!body.length || body.length > 253) throw new Error("Barcode data must be 1–253 characters.");
+    return this.raw([GS, 0x68, Math.min(255, Math.max(1, height))])
+      .raw([GS, 0x77, 2])
+      .raw([GS, 0x48, 2])
+      .raw([GS, 0x6b, 73, body.length + 2, 0x7b, 0x42])
+      .raw(body)
+      .raw([LF]);
+  }
+
+  // Model 2 QR, error correction M. `module` is the dot size, 1–16.
+  qr(data: string, module = 6) {
+    const body = Buffer.from(data, "utf8");
+    if (!body.length || body.length > 7089) throw new Error("QR data must be 1–7089 bytes.");
+    const store = body.length + 3;
+    return this.raw([GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0])
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.min(16, Math.max(1, module))])
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31])
+      .raw([GS, 0x28, 0x6b, store & 0xff, store >> 8, 0x31, 0x50, 0x30])
+      .raw(body)
+      .raw([GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30])
+      .raw([LF]);
+  }
+
+  // Feeds far enough for the tear bar to clear the last line, then cuts.
+  cut(partial = false) {
+    return this.raw([GS, 0x56, partial ? 0x42 : 0x41, 3]);
+  }
+
+  // ESC p m t1 t2: pulse drawer pin m (0 or 1) for t1×2 ms on, t2×2 ms off.
+  kick(channel: 0 | 1, pulseOn: number, pulseOff: number) {
+    return this.raw([ESC, 0x70, channel, pulseOn, pulseOff]);
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
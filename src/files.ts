@@ -0,0 +1,20 @@
+import * as fs from "fs";
+
+// ----------------------------
+// Crash-safe writes
+// ----------------------------
+// Write to a temp file, flush it, optionally keep the old file as a backup,
+// then rename over the original. A crash at any point leaves either the old
+// or the new content in place, never half of one.
+export function writeFileAtomic(file: string, data: string, backup?: string) {
+  const tmp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmp, "w", 0o600);
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (backup && fs.existsSync(file)) fs.copyFileSync(file, backup);
+  fs.renameSync(tmp, file);
+}
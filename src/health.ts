@@ -0,0 +1,120 @@
+import { probeDrawer } from "./drawer";
+import type { DrawerState, KickErrorCategory, ProbeResult } from "./drawer";
+import type { DrawerProfile } from "./profiles";
+
+// ----------------------------
+// Printer health
+// ----------------------------
+// A background check that every configured printer still answers, so a
+// printer that's been switched off or unplugged shows in the tray before
+// someone is standing at the till waiting for the drawer. Probes connect
+// and ask for drawer status; they never kick.
+export type PrinterHealth = "unknown" | "reachable" | "unreachable";
+
+export type HealthSettings = {
+  intervalSecs: number;   // seconds between checks (0 = off)
+  alerts: boolean;        // desktop notifications on changes and failed opens
+};
+
+export type DrawerHealth = {
+  printer: PrinterHealth;
+  since: number;          // when printer last changed
+  checkedAt?: number;
+  category?: KickErrorCategory;
+  error?: string;         // why the last check failed
+  failures: number;       // failed checks in a row
+};
+
+// One check failing is often just a printer busy with a receipt; it takes
+// this many in a row before the printer counts as unreachable.
+export const HEALTH_FAILURES = 2;
+export const HEALTH_MIN_SECS = 10;
+export const HEALTH_MAX_SECS = 3600;
+
+export function defaultHealth(): HealthSettings {
+  return { intervalSecs: 60, alerts: true };
+}
+
+export function isHealthInterval(v: unknown) {
+  return v === 0 || (Number.isInteger(v) && (v as number) >= HEALTH_MIN_SECS && (v as number) <= HEALTH_MAX_SECS);
+}
+
+export type HealthMonitorOptions = {
+  intervalMs: number;
+  profiles(): DrawerProfile[];   // read on every round, so edits apply straight away
+  probe?(p: DrawerProfile): Promise<ProbeResult>;
+  onChange?(p: DrawerProfile, health: DrawerHealth, previous: PrinterHealth): void;
+  onDrawer?(p: DrawerProfile, state: DrawerState): void;   // what a check saw of the drawer
+  now?(): number;
+};
+
+export interface HealthMonitor {
+  readonly intervalMs: number;
+  get(profileId: string): DrawerHealth;
+  // Kicks count as checks too: a success is proof of life, and a failed one
+  // has already been retried, so it marks the printer unreachable at once.
+  report(p: DrawerProfile, ok: boolean, failure?: { category?: KickErrorCategory; error?: string }): void;
+  check(): Promise<void>;        // one round now; waits for a round already running
+  stop(): void;
+}
+
+const UNKNOWN: DrawerHealth = { printer: "unknown", since: 0, failures: 0 };
+
+export function startHealthMonitor(opts: HealthMonitorOptions): HealthMonitor {
+  const probe = opts.probe ?? ((p: DrawerProfile) => probeDrawer(p));
+  const now = opts.now ?? Date.now;
+  const states = new Map<string, DrawerHealth>();
+  let running: Promise<void> | null = null;
+  let stopped = false;
+
+  function update(p: DrawerProfile, ok: boolean, failures: number, failure: { category?: KickErrorCategory; error?: string } = {}) {
+    const prev = states.get(p.id) ?? { ...UNKNOWN, since: now() };
+    const printer: PrinterHealth = ok ? "reachable" : failures >= HEALTH_FAILURES ? "unreachable" : prev.printer;
+    const next: DrawerHealth = {
+      printer,
+      since: printer === prev.printer ? prev.since : now(),
+      checkedAt: now(),
+      category: ok ? undefined : failure.category,
+      error: ok ? undefined : failure.error,
+      failures: ok ? 0 : failures,
+    };
+    states.set(p.id, next);
+    if (printer !== prev.printer && !stopped) opts.onChange?.(p, next, prev.printer);
+  }
+
+  async function round() {
+    const profiles = opts.profiles();
+    for (const id of [...states.keys()]) {
+      if (!profiles.some((p) => p.id === id)) states.delete(id);
+    }
+    for (const p of profiles) {
+      if (stopped) return;
+      const r = await probe(p);
+      if (stopped) return;
+      update(p, r.ok, (states.get(p.id)?.failures ?? 0) + 1, r);
+      if (r.ok && r.drawer !== "unknown") opts.onDrawer?.(p, r.drawer);
+    }
+  }
+
+  function check() {
+    if (!running) running = round().finally(() => { running = null; });
+    return running;
+  }
+
+  const timer = setInterval(() => { void check(); }, opts.intervalMs);
+  timer.unref?.();
+  void check();
+
+  return {
+    intervalMs: opts.intervalMs,
+    get: (profileId) => states.get(profileId) ?? UNKNOWN,
+    report(p, ok, failure) {
+      update(p, ok, ok ? 0 : HEALTH_FAILURES, failure);
+    },
+    check,
+    stop() {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
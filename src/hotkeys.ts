@@ -0,0 +1,162 @@
+// ----------------------------
+// Hotkeys
+// ----------------------------
+// Accelerators in Electron's syntax ("CommandOrControl+Shift+O"). This file
+// checks and compares them; registering is main's job, since only
+// globalShortcut knows whether another app already owns a combination.
+export type HotkeyMode =
+  | "both"          // tray menu and hotkeys
+  | "hotkey_only"   // drawer can't be opened from the tray menu
+  | "tray_only";    // no global hotkeys on this station
+
+export type HotkeySettings = {
+  mode: HotkeyMode;
+  openDrawer: string;    // opens the station default drawer; "" = none
+  openSettings: string;  // asks for the admin PIN, then opens Settings; "" = none
+};
+
+// Why a binding isn't live. "taken" means the OS or another app said no.
+export type HotkeyState = "registered" | "off" | "invalid" | "taken" | "duplicate";
+
+export type HotkeyStatus = {
+  id: string;            // "openDrawer", "openSettings" or "profile:<id>"
+  label: string;
+  accelerator: string;
+  display: string;
+  state: HotkeyState;
+  problem?: string;      // what to tell the admin when it isn't live
+};
+
+export const HOTKEY_MODES: HotkeyMode[] = ["both", "hotkey_only", "tray_only"];
+
+export function defaultHotkeys(): HotkeySettings {
+  return { mode: "both", openDrawer: "CommandOrControl+Shift+O", openSettings: "" };
+}
+
+export function isHotkeyMode(v: unknown): v is HotkeyMode {
+  return HOTKEY_MODES.includes(v as HotkeyMode);
+}
+
+const MODIFIERS: Record<string, string> = {
+  command: "Command", cmd: "Command",
+  control: "Control", ctrl: "Control",
+  commandorcontrol: "CommandOrControl", cmdorctrl: "CommandOrControl",
+  alt: "Alt", option: "Alt", altgr: "AltGr",
+  shift: "Shift",
+  super: "Super", meta: "Super",
+};
+
+const NAMED_KEYS = [
+  "Plus", "Space", "Tab", "Capslock", "Numlock", "Scrolllock", "Backspace", "Delete", "Insert", "Return", "Enter",
+  "Up", "Down", "Left", "Right", "Home", "End", "PageUp", "PageDown", "Escape", "Esc",
+  "VolumeUp", "VolumeDown", "VolumeMute", "MediaNextTrack", "MediaPreviousTrack", "MediaStop", "MediaPlayPause",
+  "PrintScreen", "numdec", "numadd", "numsub", "nummult", "numdiv",
+];
+const KEY_ALIASES: Record<string, string> = { esc: "Escape", return: "Enter" };
+
+function keyName(k: string): string | null {
+  if (/^[A-Za-z0-9]$/.test(k)) return k.toUpperCase();
+  if (/^[)!@#$%^&*(:;<>=_\-,.?/~`{}[\]|\\'"]$/.test(k)) return k;
+  const f = /^F([1-9]|1\d|2[0-4])$/i.exec(k);
+  if (f) return `F${f[1]}`;
+  if (/^num[0-9]$/i.test(k)) return k.toLowerCase();
+  const lower = k.toLowerCase();
+  if (KEY_ALIASES[lower]) return KEY_ALIASES[lower];
+  return NAMED_KEYS.find((n) => n.toLowerCase() === lower) ?? null;
+}
+
+type Parsed = { modifiers: string[]; key: string };
+
+function parse(acc: string): Parsed | null {
+  const parts = acc.split("+").map((p) => p.trim());
+  // A literal plus is spelled "Plus", so an empty part is always a mistake
+  if (parts.some((p) => !p)) return null;
+  const key = keyName(parts.pop()!);
+  if (!key) return null;
+  const modifiers = parts.map((p) => MODIFIERS[p.toLowerCase()]);
+  if (modifiers.some((m) => !m) || new Set(modifiers).size !== modifiers.length) return null;
+  return { modifiers, key };
+}
+
+// Global hotkeys need a modifier, or every press of that key anywhere
+// would open the drawer. F13–F24 are the exception: nothing types them.
+export function acceleratorProblem(acc: string): string | null {
+  const p = parse(acc);
+  if (!p) return `"${acc}" isn’t a key combination Drawer Opener understands.`;
+  if (!p.modifiers.length && !/^F(1[3-9]|2[0-4])$/.test(p.key)) return `"${acc}" needs Ctrl, Alt, Shift or ⌘ with it.`;
+  return null;
+}
+
+export function isAccelerator(acc: string) {
+  return acceleratorProblem(acc) === null;
+}
+
+const ORDER = ["Control", "Alt", "AltGr", "Shift", "Command", "Super"];
+
+// What the combination means on this platform, for spotting two bindings
+// that are really the same keys ("Ctrl+Shift+o" vs "CommandOrControl+Shift+O").
+export function normalizeAccelerator(acc: string, platform: string): string | null {
+  const p = parse(acc);
+  if (!p) return null;
+  const mods = p.modifiers.map((m) => (m === "CommandOrControl" ? (platform === "darwin" ? "Command" : "Control") : m));
+  const unique = [...new Set(mods)].sort((a, b) => ORDER.indexOf(a) - ORDER.indexOf(b));
+  return [...unique, p.key].join("+");
+}
+
+const MAC_SYMBOLS: Record<string, string> = { Control: "⌃", Alt: "⌥", AltGr: "⌥", Shift: "⇧", Command: "⌘", Super: "⌘" };
+const PC_NAMES: Record<string, string> = { Control: "Ctrl", Alt: "Alt", AltGr: "AltGr", Shift: "Shift", Command: "Win", Super: "Win" };
+
+// "⇧⌘O" on a Mac (Apple's modifier order), "Ctrl+Shift+O" elsewhere.
+export function describeAccelerator(acc: string, platform: string): string {
+  const norm = normalizeAccelerator(acc, platform);
+  if (!norm) return acc;
+  const parts = norm.split("+");
+  const key = parts.pop()!;
+  if (platform === "darwin") return parts.map((m) => MAC_SYMBOLS[m]).join("") + key;
+  return [...parts.map((m) => PC_NAMES[m]), key].join("+");
+}
+
+export function hotkeyProblem(state: HotkeyState): string | undefined {
+  switch (state) {
+    case "invalid": return "isn’t a valid key combination";
+    case "taken": return "is already used by another app or the system";
+    case "duplicate": return "is also set for another Drawer Opener hotkey";
+  }
+  return undefined;
+}
+
+export type HotkeyBinding = Pick<HotkeyStatus, "id" | "label" | "accelerator">;
+
+// A status for every binding, in order. Of two bindings on the same keys
+// the first wins; `register` is only asked about valid, unique ones and
+// answers false (or throws) when the OS won't have them.
+export function resolveHotkeys<B extends HotkeyBinding>(
+  bindings: B[],
+  mode: HotkeyMode,
+  platform: string,
+  register: (b: B) => boolean,
+): HotkeyStatus[] {
+  const seen = new Set<string>();
+  return bindings.map((b) => {
+    const state = ((): HotkeyState => {
+      if (mode === "tray_only") return "off";
+      const keys = normalizeAccelerator(b.accelerator, platform);
+      if (!keys || !isAccelerator(b.accelerator)) return "invalid";
+      if (seen.has(keys)) return "duplicate";
+      seen.add(keys);
+      try {
+        return register(b) ? "registered" : "taken";
+      } catch {
+        return "invalid";
+      }
+    })();
+    return {
+      id: b.id,
+      label: b.label,
+      accelerator: b.accelerator,
+      display: describeAccelerator(b.accelerator, platform),
+      state,
+      problem: hotkeyProblem(state),
+    };
+  });
+}
@@ -0,0 +1,66 @@
+import * as fs from "fs";
+
+// ----------------------------
+// Failed-PIN lockout
+// ----------------------------
+// The PIN is also the username, so there is no account to lock; instead each
+// prompt path (staff, admin) counts consecutive misses. After `maxAttempts`
+// the path is locked, and every further miss doubles the wait. The state is
+// kept on disk so quitting the app doesn't reset the counter.
+export type LockScope = "staff" | "admin";
+
+export type LockoutState = Partial<Record<LockScope, { failures: number; lockedUntil?: number }>>;
+
+export const LOCKOUT_POLICY = {
+  maxAttempts: 5,
+  baseDelayMs: 30_000,
+  maxDelayMs: 60 * 60_000,
+};
+
+export function loadLockout(file: string): LockoutState {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+export function saveLockout(file: string, state: LockoutState) {
+  fs.writeFileSync(file, JSON.stringify(state, null, 2), "utf8");
+}
+
+// Milliseconds until the scope unlocks; 0 when it isn't locked.
+export function lockedFor(state: LockoutState, scope: LockScope, now = Date.now()) {
+  const until = state[scope]?.lockedUntil ?? 0;
+  return Math.max(0, until - now);
+}
+
+// Returns the new lock duration in ms, or 0 if the scope is still open.
+export function recordFailure(
+  state: LockoutState,
+  scope: LockScope,
+  now = Date.now(),
+  policy = LOCKOUT_POLICY,
+) {
+  const entry = state[scope] ?? { failures: 0 };
+  entry.failures += 1;
+  let delay = 0;
+  if (entry.failures >= policy.maxAttempts) {
+    const steps = entry.failures - policy.maxAttempts;
+    delay = Math.min(policy.baseDelayMs * 2 ** steps, policy.maxDelayMs);
+    entry.lockedUntil = now + delay;
+  }
+  state[scope] = entry;
+  return delay;
+}
+
+export function recordSuccess(state: LockoutState, scope: LockScope) {
+  delete state[scope];
+}
+
+export function formatWait(ms: number) {
+  const secs = Math.ceil(ms / 1000);
+  if (secs < 60) return `${secs} second${secs === 1 ? "" : "s"}`;
+  const mins = Math.ceil(secs / 60);
+  return `${mins} minute${mins === 1 ? "" : "s"}`;
+}
@@ -7,28 +7,91 @@ import {
     globalShortcut,
     nativeImage,
     ipcMain,
+    Notification,
+    clipboard,
+    shell,
   } from "electron";
-  import type { IpcMainInvokeEvent } from "electron";
+  import type { IpcMainEvent, IpcMainInvokeEvent } from "electron";
   import * as fs from "fs";
+  import * as os from "os";
   import * as path from "path";
-  import * as crypto from "crypto";
-  import * as net from "net";
+  import {
+    auditToCsv,
+    diffConfig,
+    filterAudit,
+    lastOpen,
+    readAudit,
+    verifyAudit,
+  } from "./audit";
+  import {
+    activeUsers,
+    hasRole,
+    summarize,
+  } from "./users";
+  import type { User } from "./users";
+  import { formatWait } from "./lockout";
+  import { pickProfile } from "./profiles";
+  import type { DrawerProfile } from "./profiles";
+  import { EXTRA_PORTS, RAW_PORT, scanLocalNetwork } from "./discovery";
+  import {
+    parseAuditRange,
+    parseCount,
+    parseEmulatorFault,
+    parseExportRequest,
+    parseNewUser,
+    parseProfile,
+    parsePromptAnswer,
+    parseScanRequest,
+    parseSettings,
+    parseTestSlip,
+    parseUserDisabled,
+    parseUserId,
+  } from "./payloads";
+  import { isConfigured } from "./transport";
+  import { describeKickFailure, printDocument, probeDrawer, queryDrawer } from "./drawer";
+  import type { DrawerState } from "./drawer";
+  import { hashApiToken, newApiToken, startApiServer } from "./api";
+  import type { ApiServer } from "./api";
+  import { ConfigError, hasUsableBackup, redactConfig, restoreBackup } from "./config";
+  import type { Config } from "./config";
+  import { isLocked } from "./managed";
+  import type { ManagedPolicyError } from "./managed";
+  import { BundleError, MIN_PASSPHRASE, exportBundle, importBundle } from "./transfer";
+  import type { ImportedSettings } from "./transfer";
+  import {
+    DENOMINATIONS,
+    ShiftsError,
+    closeShift,
+    currentShift,
+    formatMoney,
+    hasUsableShiftsBackup,
+    restoreShiftsBackup,
+    zReport,
+    zReportFileName,
+  } from "./shifts";
+  import type { DenominationCount, Shift } from "./shifts";
+  import { openSlip, zReportSlip } from "./receipts";
+  import { faultPreset, startEmulator } from "./emulator";
+  import type { Emulator } from "./emulator";
+  import { resolveHotkeys } from "./hotkeys";
+  import type { HotkeyStatus } from "./hotkeys";
+  import { startHealthMonitor } from "./health";
+  import type { DrawerHealth, HealthMonitor, PrinterHealth } from "./health";
+  import { TRAY_TITLES, badgeBitmap } from "./trayicon";
+  import type { TrayLook } from "./trayicon";
+  import { startAdminSession } from "./session";
+  import type { AdminSession, SessionUser } from "./session";
+  import { isCliCommand, printResult, runCli } from "./cli";
+  import { FAILURE_TITLES, KICK_TIMEOUT_MS, createStation, fileStore } from "./station";
+  import type { KickEvent, PromptOptions } from "./station";
   
   // ----------------------------
   // Types & globals
   // ----------------------------
-  type Config = {
-    printerIp: string;       // e.g. 192.168.1.50 or "simulate"
-    printerPort: number;     // usually 9100
-    drawerChannel: 0 | 1;    // try 0 first; some drawers use 1
-    pulseOn: number;         // t1 (0-255) ~ on time (ms-ish)
-    pulseOff: number;        // t2 (0-255) ~ off time
-    pinHash?: string;        // staff PIN (SHA-256)
-    adminHash?: string;      // admin PIN (SHA-256)
-  };
-  
   let tray: Tray | null = null;
   let settingsWin: BrowserWindow | undefined;
+  let auditWin: BrowserWindow | undefined;
+  let adminSession: AdminSession | undefined;   // admin who unlocked the Settings window
   
   // ----------------------------
   // Helpers
@@ -43,484 +106,1046 @@ import {
     return null;
   }
   
+  // Pages in dist/renderer, each paired with a preload in dist/preload.
+  // Sandboxed and context-isolated: the only way out is the preload's bridge.
+  function rendererPath(file: string) {
+    return path.join(__dirname, "renderer", file);
+  }
+  
+  function securePreferences(preload: "settings" | "audit" | "prompt" | "count"): Electron.WebPreferences {
+    return {
+      preload: path.join(__dirname, "preload", `${preload}.js`),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true,
+      webSecurity: true,
+    };
+  }
+  
+  // Our windows only ever show our own pages.
+  function lockDown(win: BrowserWindow) {
+    win.webContents.setWindowOpenHandler(() => ({ action: "deny" }));
+    win.webContents.on("will-navigate", (e) => e.preventDefault());
+  }
+  
   function getUserDataPath() {
     return app.getPath("userData");
   }
   function configPath() {
     return path.join(getUserDataPath(), "config.json");
   }
-  function sha256(text: string) {
-    return crypto.createHash("sha256").update(text).digest("hex");
+  function auditPath() {
+    return path.join(getUserDataPath(), "audit.log");
+  }
+  function shiftsPath() {
+    return path.join(getUserDataPath(), "shifts.json");
+  }
+  function reportsDir() {
+    return path.join(getUserDataPath(), "reports");
   }
   
-  function loadConfig(): Config {
-    try {
-      const c = JSON.parse(fs.readFileSync(configPath(), "utf8"));
-      return {
-        printerIp: c.printerIp ?? "",
-        printerPort: c.printerPort ?? 9100,
-        drawerChannel: (c.drawerChannel === 1 ? 1 : 0),
-        pulseOn: c.pulseOn ?? 50,
-        pulseOff: c.pulseOff ?? 200,
-        pinHash: c.pinHash,
-        adminHash: c.adminHash,
-      };
-    } catch {
-      return {
-        printerIp: "",
-        printerPort: 9100,
-        drawerChannel: 0,
-        pulseOn: 50,
-        pulseOff: 200,
-        pinHash: undefined,
-        adminHash: undefined,
-      };
+  // ----------------------------
+  // Station flows
+  // ----------------------------
+  // Config, PINs, opening drawers and saving Settings live in station.ts,
+  // away from Electron; main gives them windows and dialogs to talk through
+  // and reacts to kicks. loadConfig() fails closed via the refuse* below.
+  const station = createStation({
+    ui: {
+      prompt: pinPrompt,
+      choose: async (opts) => (await dialog.showMessageBox(opts)).response,
+      error: (title, message) => dialog.showErrorBox(title, message),
+      info: (message) => { dialog.showMessageBox({ message }); },
+    },
+    store: fileStore(getUserDataPath()),
+    events: {
+      kicked: drawerKicked,
+      shiftsChanged: () => refreshTrayMenu(loadConfig()),
+      auditFailed: (message) => notify("Audit Log Not Written", `Drawer opens aren’t being recorded: ${message}`),
+    },
+    onBrokenConfig: (e) =>
+      e instanceof ConfigError ? refuseBrokenConfig(e) : e instanceof ShiftsError ? refuseBrokenShifts(e) : refuseBrokenPolicy(e),
+  });
+  const {
+    loadConfig,
+    saveConfig,
+    managedPolicy,
+    lockedFields,
+    audit,
+    readShifts,
+    writeShifts,
+    identifyUser,
+    verifyAdminOrSet,
+    verifyPinOrSet,
+  } = station;
+  
+  // Running without it would unlock everything it pins, so don't run.
+  function refuseBrokenPolicy(e: ManagedPolicyError): never {
+    audit({ type: "config_changed", source: "managed", ok: false, detail: { error: e.message } });
+    dialog.showErrorBox(
+      "Managed Settings Damaged",
+      `Drawer Opener won’t run until its managed settings file is fixed. Ask whoever manages this computer.\n\n${e.message}`,
+    );
+    app.exit(1);
+    throw e;
+  }
+  
+  function refuseBrokenConfig(e: ConfigError): never {
+    audit({ type: "config_changed", source: "startup", ok: false, detail: { error: e.message } });
+    const canRestore = hasUsableBackup(configPath());
+    const choice = dialog.showMessageBoxSync({
+      type: "error",
+      title: "Settings Damaged",
+      message: "Drawer Opener can’t read its settings and won’t run without them.",
+      detail: e.message + "\n\n" + (canRestore
+        ? "The copy kept from before the last save can be restored. Changes made in that last save will need redoing."
+        : "No usable backup was found. Restore config.json from a backup, then start Drawer Opener again."),
+      buttons: canRestore ? ["Quit", "Restore Backup"] : ["Quit"],
+      defaultId: 0,
+      cancelId: 0,
+    });
+    if (choice === 1) {
+      try {
+        restoreBackup(configPath());
+        audit({ type: "config_changed", source: "startup", detail: { restored: { from: "damaged", to: "backup" } } });
+        app.relaunch();
+      } catch (err) {
+        dialog.showErrorBox("Restore Failed", String(err));
+      }
     }
+    app.exit(1);
+    throw e;
   }
-  function saveConfig(cfg: Config) {
-    fs.writeFileSync(configPath(), JSON.stringify(cfg, null, 2), "utf8");
+  
+  // Shifts hold what each drawer should have in it; carrying on with none
+  // open would lose that.
+  function refuseBrokenShifts(e: ShiftsError): never {
+    audit({ type: "shift", ok: false, detail: { action: "damaged", error: e.message } });
+    const canRestore = hasUsableShiftsBackup(shiftsPath());
+    const choice = dialog.showMessageBoxSync({
+      type: "error",
+      title: "Cash Shifts Damaged",
+      message: "Drawer Opener can’t read its cash shifts and won’t run without them.",
+      detail: e.message + "\n\n" + (canRestore
+        ? "The copy kept from before the last change can be restored. Check the open shifts afterwards: the last open or close may be missing."
+        : "No usable backup was found. Restore shifts.json from a backup, then start Drawer Opener again."),
+      buttons: canRestore ? ["Quit", "Restore Backup"] : ["Quit"],
+      defaultId: 0,
+      cancelId: 0,
+    });
+    if (choice === 1) {
+      try {
+        restoreShiftsBackup(shiftsPath());
+        audit({ type: "shift", detail: { action: "restored" } });
+        app.relaunch();
+      } catch (err) {
+        dialog.showErrorBox("Restore Failed", String(err));
+      }
+    }
+    app.exit(1);
+    throw e;
   }
   
   // ----------------------------
   // Branded PIN modal (replaces electron-prompt)
   // ----------------------------
-  async function pinPrompt(opts: {
-    title: string;
-    label: string;
-    password?: boolean;
-  }): Promise<string | null> {
-    return new Promise((resolve) => {
-      const channel = "pin-" + crypto.randomBytes(6).toString("hex");
+  // Pending prompts by the webContents that shows them; the page asks for its
+  // options and answers through the prompt preload. PIN prompts on a touch
+  // station carry a keypad and get a bigger window (Settings → Users).
+  type PendingPrompt = { opts: PromptOptions; resolve(value: string | null): void };
+  const prompts = new Map<number, PendingPrompt>();
   
+  async function pinPrompt(opts: PromptOptions): Promise<string | null> {
+    return new Promise((resolve) => {
       const win = new BrowserWindow({
-        width: 520,
-        height: 210,
+        width: opts.keypad ? 400 : 520,
+        height: opts.keypad ? 640 : 210,
+        fullscreen: !!opts.keypad?.fullscreen,
         resizable: false,
         modal: true,
         alwaysOnTop: true,
         title: opts.title,
         parent: settingsWin, // can be undefined; Electron accepts that
-        webPreferences: { nodeIntegration: true, contextIsolation: false },
+        webPreferences: securePreferences("prompt"),
       });
+      lockDown(win);
   
-      const logoFile = resolveAsset("bond_logo.png");
-      const logoSrc = logoFile
-        ? `data:image/png;base64,${fs.readFileSync(logoFile).toString("base64")}`
-        : "";
-      const inputType = opts.password ? "password" : "text";
-  
-      const html = `
-        <html><head><meta charset="utf-8"/>
-          <style>
-            :root { --navy:#0e4a6b; --muted:#6b7280; --bg:#f5f7fa; }
-            *{box-sizing:border-box}
-            body { margin:0; background:var(--bg); font-family:-apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; }
-            .wrap{padding:18px 20px;}
-            .head{display:flex;align-items:center;gap:10px;margin-bottom:8px}
-            .head img{width:70px;height:24px;border-radius:6px;background:#fff}
-            h3{margin:0;color:#111827;font-size:16px;font-weight:700}
-            label{display:block;margin:10px 0 8px;color:var(--navy);font-weight:600;font-size:16px}
-            input{width:100%;padding:10px 12px;border:1px solid #e5e7eb;border-radius:10px;font-size:16px;outline:none}
-            input:focus{border-color:var(--navy);box-shadow:0 0 0 3px rgba(14,74,107,.12)}
-            .actions{display:flex;justify-content:flex-end;gap:10px;margin-top:14px}
-            button{border:none;border-radius:10px;padding:10px 14px;font-weight:700;cursor:pointer}
-            .sec{background:#eef2f7;color:#0b3d57}
-            .pri{background:var(--navy);color:#fff}
-          </style>
-        </head>
-        <body>
-          <div class="wrap">
-            <div class="head">${logoSrc ? `<img src="${logoSrc}"/>` : ""}<h3>${opts.title}</h3></div>
-            <label>${opts.label}</label>
-            <input id="inp" type="${inputType}" autofocus />
-            <div class="actions">
-              <button class="sec" id="cancel">Cancel</button>
-              <button class="pri" id="ok">OK</button>
-            </div>
-          </div>
-          <script>
-            const { ipcRenderer } = require('electron');
-            const chan = ${JSON.stringify(channel)};
-            const ok = () => ipcRenderer.send(chan, { ok: true, value: document.getElementById('inp').value });
-            const cancel = () => ipcRenderer.send(chan, { ok: false });
-            document.getElementById('ok').onclick = ok;
-            document.getElementById('cancel').onclick = cancel;
-            document.getElementById('inp').addEventListener('keydown', e => {
-              if (e.key === 'Enter') ok();
-              if (e.key === 'Escape') cancel();
-            });
-          </script>
-        </body></html>
-      `;
-  
-      const handler = (_ev: Electron.IpcMainEvent, data: { ok: boolean; value?: string }) => {
-        try { win.close(); } catch {}
-        ipcMain.removeListener(channel, handler);
-        resolve(data.ok ? String(data.value ?? "") : null);
-      };
-      ipcMain.on(channel, handler);
-  
-      win.loadURL("data:text/html;charset=UTF-8," + encodeURIComponent(html));
-      win.on("closed", () => {
-        ipcMain.removeListener(channel, handler);
-        resolve(null);
+      const id = win.webContents.id;
+      prompts.set(id, {
+        opts,
+        resolve: (value) => {
+          prompts.delete(id);
+          if (!win.isDestroyed()) win.close();
+          resolve(value);
+        },
       });
+      win.loadFile(rendererPath("prompt.html"));
+      win.on("closed", () => prompts.get(id)?.resolve(null));
     });
   }
   
-  // ----------------------------
-  // Auth flows (Admin vs Staff)
-  // ----------------------------
-  async function verifyAdminOrSet(cfg: Config): Promise<boolean> {
-    if (!cfg.adminHash) {
-      const first = await pinPrompt({
-        title: "Set Admin PIN",
-        label: "Create an Admin PIN (managers only):",
-        password: true,
-      });
-      if (!first) return false;
-      cfg.adminHash = sha256(first);
-      saveConfig(cfg);
-      return true;
+  ipcMain.handle("prompt:options", (evt: IpcMainInvokeEvent) => {
+    const p = prompts.get(evt.sender.id);
+    if (!p) throw new Error("No prompt is waiting for this window.");
+    return p.opts;
+  });
+  
+  ipcMain.on("prompt:answer", (evt: IpcMainEvent, value: unknown) => {
+    const p = prompts.get(evt.sender.id);
+    if (!p) return;
+    try {
+      p.resolve(parsePromptAnswer(value));
+    } catch {
+      p.resolve(null);
     }
-    const entered = await pinPrompt({
-      title: "Admin PIN Required",
-      label: "Enter Admin PIN:",
-      password: true,
-    });
-    return entered !== null && sha256(entered) === cfg.adminHash;
-  }
+  });
   
-  async function changeAdminPinFlow(cfg: Config): Promise<boolean> {
-    const ok = await verifyAdminOrSet(cfg);
-    if (!ok) return false;
+  // ----------------------------
+  // Closing count window
+  // ----------------------------
+  // Same pattern as the PIN modal: one pending count per window.
+  type CountOptions = { drawer: string; cashier: string; denominations: number[] };
+  type PendingCount = { opts: CountOptions; resolve(count: DenominationCount | null): void };
+  const counts = new Map<number, PendingCount>();
   
-    const np = await pinPrompt({
-      title: "Change Admin PIN",
-      label: "Enter new Admin PIN:",
-      password: true,
-    });
-    if (!np) return false;
+  async function countPrompt(opts: CountOptions): Promise<DenominationCount | null> {
+    return new Promise((resolve) => {
+      const win = new BrowserWindow({
+        width: 440,
+        height: 620,
+        resizable: false,
+        alwaysOnTop: true,
+        title: "Close Shift",
+        webPreferences: securePreferences("count"),
+      });
+      lockDown(win);
   
-    const conf = await pinPrompt({
-      title: "Confirm Admin PIN",
-      label: "Re-enter new Admin PIN:",
-      password: true,
+      const id = win.webContents.id;
+      counts.set(id, {
+        opts,
+        resolve: (count) => {
+          counts.delete(id);
+          if (!win.isDestroyed()) win.close();
+          resolve(count);
+        },
+      });
+      win.loadFile(rendererPath("count.html"));
+      win.on("closed", () => counts.get(id)?.resolve(null));
     });
-    if (!conf || conf !== np) {
-      dialog.showErrorBox("Mismatch", "PINs didn’t match.");
-      return false;
-    }
-  
-    cfg.adminHash = sha256(np);
-    saveConfig(cfg);
-    dialog.showMessageBox({ message: "Admin PIN updated." });
-    return true;
   }
   
-  async function verifyPinOrSet(cfg: Config): Promise<boolean> {
-    if (!cfg.pinHash) {
-      const pin = await pinPrompt({
-        title: "Set PIN",
-        label: "Create a PIN to open the drawer:",
-        password: true,
-      });
-      if (!pin) return false;
-      cfg.pinHash = sha256(pin);
-      saveConfig(cfg);
-      return true;
+  ipcMain.handle("count:options", (evt: IpcMainInvokeEvent) => {
+    const c = counts.get(evt.sender.id);
+    if (!c) throw new Error("No count is waiting for this window.");
+    return c.opts;
+  });
+  
+  ipcMain.on("count:answer", (evt: IpcMainEvent, value: unknown) => {
+    const c = counts.get(evt.sender.id);
+    if (!c) return;
+    try {
+      c.resolve(parseCount(value, c.opts.denominations));
+    } catch {
+      c.resolve(null);
     }
-    const entered = await pinPrompt({
-      title: "PIN Required",
-      label: "Enter PIN to open the cash drawer:",
-      password: true,
-    });
-    if (entered === null) return false;
-    return sha256(entered) === cfg.pinHash;
-  }
+  });
   
-  async function setPinFlow(cfg: Config) {
-    const pin = await pinPrompt({
-      title: "Set/Change PIN",
-      label: "Enter new PIN:",
-      password: true,
-    });
-    if (!pin) return false;
-    cfg.pinHash = sha256(pin);
-    saveConfig(cfg);
-    return true;
-  }
   
   // ----------------------------
   // Settings window (Bond-branded)
   // ----------------------------
-  function openSettings(cfg: Config) {
+  function openSettings(cfg: Config, admin: User) {
     if (settingsWin) { settingsWin.focus(); return; }
+    adminSession = startAdminSession(admin, { idleMs: cfg.adminIdleMins * 60_000, onLock: settingsLocked });
     settingsWin = new BrowserWindow({
       width: 560,
       height: 600,
       useContentSize: true,
       resizable: false,
       title: "Drawer Opener Settings",
-      webPreferences: { nodeIntegration: true, contextIsolation: false },
+      webPreferences: securePreferences("settings"),
     });
+    lockDown(settingsWin);
+    settingsWin.loadFile(rendererPath("settings.html"));
+    settingsWin.on("closed", () => {
+      settingsWin = undefined;
+      adminSession?.end();
+      adminSession = undefined;
+    });
+  }
   
-    const hotkeyMac = "⌘⇧O";
-    const hotkeyWin = "Ctrl+Shift+O";
-    const hotkeyTip = process.platform === "darwin" ? hotkeyMac : hotkeyWin;
-  
-    const logoFile = resolveAsset("bond_logo.png");
-    const logoSrc = logoFile
-      ? `data:image/png;base64,${fs.readFileSync(logoFile).toString("base64")}`
-      : "";
+  // The page stays as it was under a lock screen, so unsaved edits survive;
+  // the audit log has nothing to lose and just closes.
+  function settingsLocked(user: SessionUser) {
+    const idleMins = loadConfig().adminIdleMins;
+    auditWin?.close();
+    audit({ type: "settings_locked", user: user.name, detail: { idleMins } });
+    settingsWin?.webContents.send("settingsLocked", { idleMins });
+  }
   
-    const html = `
-    <html>
-    <head>
-      <meta charset="utf-8" />
-      <style>
-        :root {
-          --bond-navy: #0e4a6b;
-          --bond-gold: #f1b82d;
-          --bond-slate: #f5f7fa;
-          --text: #1f2937;
-          --muted: #6b7280;
-          --input: #e5e7eb;
-        }
-        * { box-sizing: border-box; }
-        body {
-          margin: 0; padding: 0;
-          font-family: -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif;
-          background: var(--bond-slate);
-          color: var(--text);
-        }
-        .wrap { max-width: 520px; margin: 0 auto; padding: 20px 20px 28px; }
-        .card {
-          background: #fff; border-radius: 14px;
-          box-shadow: 0 6px 24px rgba(14,74,107,0.08); overflow: hidden; border: 1px solid #eef2f7;
-        }
-        .header { display: flex; align-items: center; gap: 14px; padding: 16px 18px;
-          background: linear-gradient(135deg, var(--bond-navy), #0b3d57); color: #fff; }
-        .header img { width: 72px; height: 28px; border-radius: 6px; background: #fff; }
-        .header h2 { margin: 0; font-weight: 700; letter-spacing: .2px; font-size: 16px; }
-        .content { padding: 18px; }
-        .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 14px; }
-        .grid.full { grid-template-columns: 1fr; }
-        label { font-size: 12px; color: var(--muted); margin-bottom: 6px; display: block; }
-        input {
-          width: 100%; padding: 10px 12px; font-size: 14px;
-          border: 1px solid var(--input); border-radius: 10px; outline: none;
-        }
-        input:focus { border-color: var(--bond-navy); box-shadow: 0 0 0 3px rgba(14,74,107,0.12); }
-        .row { margin-bottom: 10px; }
-        .btns { display: flex; gap: 10px; margin-top: 6px; }
-        .btn { appearance: none; border: 0; cursor: pointer; padding: 10px 14px; border-radius: 10px; font-weight: 600; font-size: 14px; }
-        .btn-primary { background: var(--bond-navy); color: #fff; }
-        .btn-primary:hover { filter: brightness(1.04); }
-        .btn-secondary { background: #eef2f7; color: #0b3d57; }
-        .btn-danger { background: #fee2e2; color: #991b1b; }
-        .section-title { margin: 16px 0 8px; font-weight: 700; color: var(--bond-navy); font-size: 13px; }
-        .hint { font-size: 12px; color: var(--muted); }
-        .footer { padding: 10px 18px 16px; display: flex; justify-content: space-between; align-items: center; }
-        .tag { display:inline-block;background:rgba(241,184,45,.15); color:#8a6d00; padding:4px 8px; border-radius:8px; font-size:12px; }
-      </style>
-    </head>
-    <body>
-      <div class="wrap">
-        <div class="card">
-          <div class="header">
-            ${logoSrc ? `<img src="${logoSrc}" alt="Bond" />` : ""}
-            <h2>Drawer Opener — Settings</h2>
-          </div>
-          <div class="content">
-            <div class="section-title">Printer</div>
-            <div class="grid">
-              <div class="row">
-                <label>Printer IP</label>
-                <input id="ip" placeholder="e.g. 192.168.1.45 or simulate" />
-              </div>
-              <div class="row">
-                <label>Printer Port</label>
-                <input id="port" type="number" value="9100" />
-              </div>
-            </div>
-  
-            <div class="grid">
-              <div class="row">
-                <label>Drawer Channel (0 or 1)</label>
-                <input id="channel" type="number" min="0" max="1" value="0" />
-              </div>
-              <div></div>
-            </div>
-  
-            <div class="grid">
-              <div class="row">
-                <label>Pulse On (t1 0–255)</label>
-                <input id="on" type="number" value="50" />
-              </div>
-              <div class="row">
-                <label>Pulse Off (t2 0–255)</label>
-                <input id="off" type="number" value="200" />
-              </div>
-            </div>
-  
-            <div class="btns">
-              <button id="save" class="btn btn-primary">Save</button>
-              <button id="test" class="btn btn-secondary">Test Open</button>
-            </div>
-  
-            <div class="section-title">Security</div>
-            <div class="grid full">
-              <div class="hint">Staff PIN opens the drawer. Admin PIN controls Settings & PIN changes.</div>
-            </div>
-            <div class="btns">
-              <button id="setpin" class="btn btn-secondary">Set/Change Staff PIN</button>
-              <button id="changeAdmin" class="btn btn-danger">Change Admin PIN</button>
-            </div>
-          </div>
-          <div class="footer">
-            <span class="tag">Bond Sports</span>
-            <span class="hint" title="Use this hotkey to open the drawer directly from anywhere.">
-             Hotkey: ${hotkeyTip} <span style="color:#9aa4af">(mac: ${hotkeyMac} • win: ${hotkeyWin})</span>
-            </span>
-          </div>
-        </div>
-      </div>
-  
-      <script>
-        const { ipcRenderer } = require('electron');
-        ipcRenderer.invoke('loadCfg').then(cfg => {
-          document.getElementById('ip').value = cfg.printerIp || '';
-          document.getElementById('port').value = cfg.printerPort || 9100;
-          document.getElementById('channel').value = cfg.drawerChannel || 0;
-          document.getElementById('on').value = cfg.pulseOn || 50;
-          document.getElementById('off').value = cfg.pulseOff || 200;
-        });
-  
-        const readCfg = () => ({
-          printerIp: document.getElementById('ip').value.trim(),
-          printerPort: parseInt(document.getElementById('port').value, 10),
-          drawerChannel: parseInt(document.getElementById('channel').value, 10),
-          pulseOn: parseInt(document.getElementById('on').value, 10),
-          pulseOff: parseInt(document.getElementById('off').value, 10),
-        });
-  
-        document.getElementById('save').onclick = () => {
-          ipcRenderer.invoke('saveCfg', readCfg()).then(()=>alert('Saved.'));
-        };
-        document.getElementById('test').onclick = () => {
-          ipcRenderer.invoke('testOpen', readCfg()).then(ok => {
-            alert(ok ? 'Drawer opened!' : 'Failed to open drawer. Check IP/channel/pulse.');
-          });
-        };
-        document.getElementById('setpin').onclick = () => {
-          ipcRenderer.invoke('setPin').then(ok => {
-            alert(ok ? 'PIN updated.' : 'PIN not changed.');
-          });
-        };
-        document.getElementById('changeAdmin').onclick = () => {
-          ipcRenderer.invoke('changeAdminPin').then(()=>{});
-        };
-      </script>
-    </body>
-    </html>`;
-  
-    settingsWin.loadURL("data:text/html;charset=UTF-8," + encodeURIComponent(html));
-    settingsWin.on("closed", () => { settingsWin = undefined; });
+  // ----------------------------
+  // Audit log viewer (opened from Settings)
+  // ----------------------------
+  function openAuditViewer() {
+    if (auditWin) { auditWin.focus(); return; }
+    auditWin = new BrowserWindow({
+      width: 860,
+      height: 600,
+      title: "Drawer Opener — Audit Log",
+      parent: settingsWin,
+      webPreferences: securePreferences("audit"),
+    });
+    lockDown(auditWin);
+    auditWin.loadFile(rendererPath("audit.html"));
+    auditWin.on("closed", () => { auditWin = undefined; });
   }
   
+  
   // ----------------------------
   // Drawer flow
   // ----------------------------
-  async function openDrawerFlow(cfg: Config) {
-    if (!cfg.printerIp) {
-      dialog.showErrorBox("Not Configured", "Please set printer IP in Settings.");
+  // Every kick, whatever triggered it, is reported here after station.ts has
+  // sent and audited it: drawer state, printer health, the tray and API listeners.
+  function drawerKicked({ profile, source, who, ctx, result }: KickEvent) {
+    const cfg = loadConfig();
+    if (result.drawer !== "unknown") setDrawerState(profile.id, result.drawer);
+    // The printer answered if the drawer is all that failed
+    health?.report(profile, result.ok || result.category === "drawer_closed", result);
+    if (result.ok && source !== "test") lastOpened = { user: who, drawer: profile.name, at: new Date() };
+    // Tray and hotkey opens show a dialog; a failed API open would go unseen here
+    if (!result.ok && source === "api" && cfg.health.alerts) {
+      notify((result.category && FAILURE_TITLES[result.category]) || "Drawer Didn't Open", describeKickFailure(profile, result));
+    }
+    refreshTrayMenu(cfg);
+    apiServer?.broadcast("drawer_kick", {
+      profileId: profile.id,
+      drawer: profile.name,
+      ok: result.ok,
+      status: result.drawer,
+      category: result.category,
+      error: result.error,
+      elapsedMs: result.elapsedMs,
+      source,
+      ...ctx,
+    });
+  }
+  
+  // ----------------------------
+  // Cash shifts
+  // ----------------------------
+  // Opt-in (Settings → Cash Shifts). Shifts live in shifts.json; closed ones
+  // stay there and also leave a Z report in the reports folder. Opening one
+  // is in station.ts.
+  // The cashier who opened the shift closes it; a manager can close anyone's,
+  // and force-closing (cashier gone home) always needs a manager.
+  async function closeShiftFlow(cfg: Config, profileId: string, forced: boolean) {
+    const shift = currentShift(readShifts(), profileId);
+    if (!shift) {
+      dialog.showMessageBox({ message: "No shift is open on that drawer." });
       return;
     }
   
-    const ok = await verifyPinOrSet(cfg);
-    if (!ok) return;
+    const user = forced
+      ? await identifyUser(cfg, "admin", "manager", {
+          title: "Manager PIN Required",
+          label: `Enter a manager PIN to force-close ${shift.openedBy}’s shift:`,
+        })
+      : await verifyPinOrSet(cfg);
+    if (!user) return;
+    if (!forced && user.id !== shift.openedById && !hasRole(user, "manager")) {
+      dialog.showErrorBox("Close Shift", `Only ${shift.openedBy} or a manager can close this shift.`);
+      return;
+    }
+  
+    const count = await countPrompt({ drawer: shift.drawer, cashier: shift.openedBy, denominations: DENOMINATIONS });
+    if (!count) return;
+  
+    const store = readShifts();
+    const live = store.shifts.find((s) => s.id === shift.id && !s.closedAt);
+    if (!live) {
+      dialog.showErrorBox("Close Shift", "This shift was already closed.");
+      return;
+    }
+    closeShift(live, count, user.name, forced);
+    // No Z report for a close that didn't stick: the shift is still open on disk
+    try {
+      writeShifts(store);
+    } catch (e) {
+      dialog.showErrorBox(
+        "Shift Not Closed",
+        `The shift couldn’t be saved, so it is still open and no Z report was made.\n\n${e instanceof Error ? e.message : String(e)}`,
+      );
+      return;
+    }
   
-    const success = await sendDrawerKick(cfg);
-    if (!success) {
-      dialog.showErrorBox("Failed", "Could not open the cash drawer. Check IP, channel, pulse, and that the printer is reachable.");
+    const report = zReport(live);
+    const reportFile = path.join(reportsDir(), zReportFileName(live));
+    let saveProblem = "";
+    try {
+      fs.mkdirSync(reportsDir(), { recursive: true });
+      fs.writeFileSync(reportFile, report, "utf8");
+    } catch (e) {
+      saveProblem = e instanceof Error ? e.message : String(e);
+    }
+    const printProblem = cfg.receipts.zReportOnClose ? await printZReport(cfg, live) : "";
+    const diff = live.counted! - live.expected!;
+    audit({
+      type: "shift",
+      user: user.name,
+      detail: {
+        action: forced ? "force_closed" : "closed",
+        drawer: live.drawer,
+        shift: live.id,
+        openedBy: live.openedBy,
+        expected: formatMoney(live.expected!),
+        counted: formatMoney(live.counted!),
+        difference: formatMoney(diff),
+        reportError: saveProblem || undefined,
+      },
+    });
+    refreshTrayMenu(loadConfig());
+  
+    // Without the saved file, Save Copy… is the way to keep the report
+    const buttons = saveProblem ? ["Done", "Save Copy…", "Print"] : ["Done", "Open Report", "Save Copy…", "Print"];
+    const res = await dialog.showMessageBox({
+      type: diff === 0 && !saveProblem ? "info" : "warning",
+      message: diff === 0 ? "Shift closed — drawer balanced." : `Shift closed — ${diff > 0 ? "over" : "short"} by ${formatMoney(Math.abs(diff))}.`,
+      detail: `Expected ${formatMoney(live.expected!)}, counted ${formatMoney(live.counted!)}.\n\n`
+        + (saveProblem ? `The Z report couldn’t be saved to ${reportsDir()}: ${saveProblem}` : `Z report saved to ${reportFile}`)
+        + (printProblem ? `\n\nIt didn’t print: ${printProblem}` : ""),
+      buttons,
+      defaultId: 0,
+    });
+    const picked = buttons[res.response];
+    if (picked === "Open Report") {
+      shell.openPath(reportFile);
+    } else if (picked === "Save Copy…") {
+      const save = await dialog.showSaveDialog({
+        title: "Save Z Report",
+        defaultPath: zReportFileName(live),
+        filters: [{ name: "Text", extensions: ["txt"] }],
+      });
+      if (!save.canceled && save.filePath) {
+        try {
+          fs.writeFileSync(save.filePath, report, "utf8");
+        } catch (e) {
+          dialog.showErrorBox("Z Report Not Saved", `Couldn’t save ${save.filePath}.\n\n${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+    } else if (picked === "Print") {
+      const problem = await printZReport(cfg, live);
+      if (problem) dialog.showErrorBox("Z Report Didn’t Print", problem);
     }
   }
   
-  function sendDrawerKick(cfg: Config): Promise<boolean> {
-    if (cfg.printerIp.trim().toLowerCase() === "simulate") {
-      return new Promise((resolve) => setTimeout(() => resolve(true), 150));
+  // Empty string when printed, otherwise what went wrong.
+  async function printZReport(cfg: Config, shift: Shift): Promise<string> {
+    const profile = cfg.profiles.find((p) => p.id === shift.profileId);
+    if (!profile || !isConfigured(profile)) return "No printer is set up for this drawer.";
+    const r = await printDocument(profile, zReportSlip(cfg.receipts, shift), KICK_TIMEOUT_MS);
+    return r.ok ? "" : describeKickFailure(profile, r);
+  }
+  
+  // ----------------------------
+  // Drawer status monitor
+  // ----------------------------
+  // Only drawers whose printer answers DLE EOT are tracked. Once one reports
+  // open we poll it until it closes, warning once if it stays open too long.
+  type DrawerWatch = { state: DrawerState; since: number; warned: boolean; timer?: NodeJS.Timeout };
+  const drawerWatch = new Map<string, DrawerWatch>();
+  
+  function setDrawerState(profileId: string, state: DrawerState) {
+    const prev = drawerWatch.get(profileId);
+    if (prev?.state === state) return;
+    if (prev?.timer) clearInterval(prev.timer);
+    drawerWatch.set(profileId, { state, since: Date.now(), warned: false });
+    if (state === "open") watchDrawer(profileId);
+    apiServer?.broadcast("drawer_state", { profileId, state });
+    refreshTrayMenu(loadConfig());
+  }
+  
+  function watchDrawer(profileId: string) {
+    const w = drawerWatch.get(profileId);
+    if (!w || w.timer) return;
+    let misses = 0;
+    w.timer = setInterval(async () => {
+      const cfg = loadConfig();
+      const profile = cfg.profiles.find((p) => p.id === profileId);
+      if (!profile) { setDrawerState(profileId, "unknown"); return; }
+  
+      const state = await queryDrawer(profile);
+      const openSecs = Math.round((Date.now() - w.since) / 1000);
+      if (state === "unknown") {
+        // Printer went quiet; stop guessing after a few tries
+        if (++misses >= 3) setDrawerState(profileId, "unknown");
+        return;
+      }
+      misses = 0;
+  
+      if (state === "closed") {
+        audit({ type: "drawer_status", ok: true, detail: { drawer: profile.name, state: "closed", openSecs } });
+        setDrawerState(profileId, "closed");
+        return;
+      }
+      if (!w.warned && cfg.openAlertSecs > 0 && openSecs >= cfg.openAlertSecs) {
+        w.warned = true;
+        audit({ type: "drawer_status", ok: false, detail: { drawer: profile.name, state: "left open", openSecs } });
+        notify("Cash drawer left open", `${profile.name} has been open for ${formatWait(openSecs * 1000)}.`);
+      }
+    }, 2000);
+  }
+  
+  // ----------------------------
+  // Printer health
+  // ----------------------------
+  // Background checks (Settings → Drawers) of every configured printer; the
+  // tray shows the result and changes are audited. See health.ts.
+  let health: HealthMonitor | null = null;
+  let lastOpened: { user?: string; drawer: string; at: Date } | undefined;
+  
+  function syncHealth(cfg: Config) {
+    const want = cfg.health.intervalSecs * 1000;
+    if ((health?.intervalMs ?? 0) === want) return;
+    health?.stop();
+    health = want
+      ? startHealthMonitor({
+          intervalMs: want,
+          profiles: () => loadConfig().profiles.filter(isConfigured),
+          probe: (p) => probeDrawer(p, KICK_TIMEOUT_MS),
+          onChange: printerChanged,
+          // A drawer opened by hand or by another app; once open, the watcher owns it
+          onDrawer: (p, state) => {
+            if (drawerWatch.get(p.id)?.state !== "open") setDrawerState(p.id, state);
+          },
+        })
+      : null;
+    refreshTrayMenu(cfg);
+  }
+  
+  function printerChanged(profile: DrawerProfile, h: DrawerHealth, previous: PrinterHealth) {
+    const cfg = loadConfig();
+    apiServer?.broadcast("printer_state", { profileId: profile.id, printer: h.printer });
+    refreshTrayMenu(cfg);
+    // A printer answering the first check after startup isn't news
+    if (previous === "unknown" && h.printer === "reachable") return;
+  
+    audit({
+      type: "drawer_status",
+      ok: h.printer === "reachable",
+      detail: { drawer: profile.name, printer: h.printer, category: h.category, error: h.error },
+    });
+    if (!cfg.health.alerts) return;
+    if (h.printer === "unreachable") {
+      notify(`${profile.name}: printer not answering`, describeKickFailure(profile, h));
+    } else {
+      notify(`${profile.name}: printer is back`, "The drawer can be opened again.");
     }
+  }
   
-    return new Promise((resolve) => {
-      try {
-        const client = new net.Socket();
-        client.setTimeout(3000);
-        client.connect(cfg.printerPort, cfg.printerIp, () => {
-          // ESC p m t1 t2
-          const bytes = Buffer.from([0x1B, 0x70, cfg.drawerChannel, cfg.pulseOn, cfg.pulseOff]);
-          client.write(bytes, (err?: Error | null) => {
-            client.end();
-            resolve(!err);
-          });
-        });
-        client.on("error", () => resolve(false));
-        client.on("timeout", () => { client.destroy(); resolve(false); });
-      } catch {
-        resolve(false);
+  // Seeded from the audit log so a restart doesn't forget it.
+  function loadLastOpened() {
+    const r = lastOpen(readAudit(auditPath()));
+    if (r) lastOpened = { user: r.user, drawer: String(r.detail?.drawer ?? ""), at: new Date(r.ts) };
+  }
+  
+  // ----------------------------
+  // Local POS API
+  // ----------------------------
+  let apiServer: ApiServer | null = null;
+  let apiRunning = "";   // "port:tokenHash" of the live server, "" when stopped
+  
+  function apiStatus() {
+    const cfg = loadConfig();
+    const store = cfg.shifts.enabled ? readShifts() : undefined;
+    const shiftOf = (id: string) => {
+      const s = store && currentShift(store, id);
+      return s ? { id: s.id, openedBy: s.openedBy, openedAt: s.openedAt } : undefined;
+    };
+    return {
+      drawers: cfg.profiles.map((p) => ({
+        id: p.id,
+        name: p.name,
+        default: p.id === cfg.defaultProfileId,
+        configured: isConfigured(p),
+        state: drawerWatch.get(p.id)?.state ?? "unknown",
+        printer: health?.get(p.id).printer ?? "unknown",
+        shift: shiftOf(p.id),
+      })),
+    };
+  }
+  
+  // Start, stop or restart the server so it matches the saved settings.
+  async function syncApiServer(cfg: Config) {
+    const want = cfg.api.enabled && cfg.api.tokenHash ? `${cfg.api.port}:${cfg.api.tokenHash}` : "";
+    if (want === apiRunning) return;
+    if (apiServer) {
+      await apiServer.close();
+      apiServer = null;
+    }
+    apiRunning = "";
+    if (!want) return;
+  
+    try {
+      apiServer = await startApiServer({
+        port: cfg.api.port,
+        tokenHash: cfg.api.tokenHash!,
+        handlers: { openDrawer: station.apiOpenDrawer, status: apiStatus },
+      });
+      apiRunning = want;
+    } catch (e) {
+      dialog.showErrorBox("POS API", `Could not listen on 127.0.0.1:${cfg.api.port}.\n\n${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  
+  // The token is shown exactly once; afterwards only its hash exists.
+  async function rotateApiToken(cfg: Config) {
+    const token = newApiToken();
+    cfg.api.tokenHash = hashApiToken(token);
+    saveConfig(cfg);
+    audit({ type: "config_changed", source: "settings", user: adminSession?.user.name, detail: { apiToken: { from: "(old)", to: "(rotated)" } } });
+    await syncApiServer(cfg);
+  
+    const res = await dialog.showMessageBox({
+      type: "info",
+      message: "New POS API token",
+      detail: `${token}\n\nCopy it into your POS now; it won’t be shown again. The previous token no longer works.`,
+      buttons: ["Copy & Close", "Close"],
+      defaultId: 0,
+    });
+    if (res.response === 0) clipboard.writeText(token);
+    return true;
+  }
+  
+  // ----------------------------
+  // Printer emulator
+  // ----------------------------
+  // Runs in-process while Settings has it on; drawers point at it like any
+  // network printer (127.0.0.1:port), so the whole kick path is exercised.
+  let emulator: Emulator | null = null;
+  
+  const EMULATOR_AUTO_CLOSE_MS = 4000;   // the pretend cashier shuts the drawer
+  
+  async function syncEmulator(cfg: Config) {
+    const want = cfg.emulator.enabled ? cfg.emulator.port : 0;
+    if ((emulator?.port ?? 0) === want) return;
+    if (emulator) {
+      await emulator.close();
+      emulator = null;
+    }
+    if (!want) return;
+  
+    try {
+      emulator = await startEmulator({ port: want, autoCloseMs: EMULATOR_AUTO_CLOSE_MS });
+    } catch (e) {
+      dialog.showErrorBox("Printer Emulator", `Could not listen on 127.0.0.1:${want}.\n\n${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  
+  function notify(title: string, body: string) {
+    if (Notification.isSupported()) {
+      new Notification({ title, body }).show();
+    } else {
+      dialog.showMessageBox({ type: "warning", message: title, detail: body });
+    }
+  }
+  
+  // ----------------------------
+  // Export & import
+  // ----------------------------
+  // The passphrase signs the file (and encrypts accounts), so exports ask for
+  // it twice.
+  async function askPassphrase(title: string, confirm: boolean): Promise<string | null> {
+    for (;;) {
+      const passphrase = await pinPrompt({ title, label: `Passphrase (at least ${MIN_PASSPHRASE} characters)`, password: true });
+      if (passphrase === null) return null;
+      if (passphrase.length < MIN_PASSPHRASE) {
+        await dialog.showMessageBox(settingsWin!, { type: "warning", message: `The passphrase needs at least ${MIN_PASSPHRASE} characters.` });
+        continue;
       }
+      if (!confirm) return passphrase;
+      const again = await pinPrompt({ title, label: "Type the passphrase again", password: true });
+      if (again === null) return null;
+      if (again === passphrase) return passphrase;
+      await dialog.showMessageBox(settingsWin!, { type: "warning", message: "The passphrases don’t match." });
+    }
+  }
+  
+  // null = cancelled; otherwise whether to replace this station's accounts too.
+  async function confirmImport(imported: ImportedSettings): Promise<boolean | null> {
+    const from = `${imported.station || "another station"} on ${new Date(imported.exportedAt).toLocaleString()}`;
+    const locked = lockedFields().length ? " Settings managed by IT stay as they are." : "";
+    const users = imported.users
+      ? ` The file also has ${imported.users.length} user accounts; importing them replaces this station’s users and PINs.`
+      : "";
+    const { response } = await dialog.showMessageBox(settingsWin!, {
+      type: "question",
+      message: "Replace this station’s settings?",
+      detail: `Exported from ${from}. Drawers, open rules, receipts and hotkeys here will be replaced.${users}${locked}`,
+      buttons: imported.users ? ["Cancel", "Import Settings", "Import Settings and Users"] : ["Cancel", "Import Settings"],
+      defaultId: 0,
+      cancelId: 0,
     });
+    return response === 0 ? null : response === 2;
+  }
+  
+  // Puts saved settings into effect without a restart.
+  async function applySettings(cfg: Config) {
+    registerHotkeys(cfg);
+    refreshTrayMenu(cfg);
+    await syncEmulator(cfg);
+    syncHealth(cfg);
+    adminSession?.setIdle(cfg.adminIdleMins * 60_000);
+    if (cfg.api.enabled && !cfg.api.tokenHash) await rotateApiToken(cfg);
+    else await syncApiServer(cfg);
   }
   
   // ----------------------------
   // IPC
   // ----------------------------
-  ipcMain.handle("loadCfg", async () => loadConfig());
+  // Only the Settings window may call these, and the audit window only the
+  // few that pass auditViewer. Payloads are checked by src/payloads.ts; a bad
+  // one rejects the renderer's promise.
+  function fromSettings(evt: IpcMainInvokeEvent | IpcMainEvent, auditViewer = false) {
+    const allowed = auditViewer ? [settingsWin, auditWin] : [settingsWin];
+    const ok = allowed.some((w) => w && !w.isDestroyed() && w.webContents.id === evt.sender.id);
+    if (!ok) throw new Error("Not allowed from this window.");
+  }
   
-  ipcMain.handle("saveCfg", async (_evt: IpcMainInvokeEvent, partial: Partial<Config>) => {
-    const merged = { ...loadConfig(), ...partial };
-    saveConfig(merged);
+  // ...and, apart from unlocking, only while the admin session is live: it
+  // locks after adminIdleMins without use (session.ts).
+  function fromAdmin(evt: IpcMainInvokeEvent | IpcMainEvent, auditViewer = false) {
+    fromSettings(evt, auditViewer);
+    if (!adminSession?.live()) {
+      adminSession?.lock();
+      throw new Error("Settings are locked. Enter an admin PIN to carry on.");
+    }
+    // An account disabled or demoted since it unlocked Settings loses them
+    if (!activeUsers(loadConfig().users, "admin").some((u) => u.id === adminSession!.user.id)) {
+      adminSession.end();
+      settingsWin?.close();
+      throw new Error("This admin account is no longer active.");
+    }
+    adminSession.touch();
+  }
+  
+  ipcMain.handle("unlockSettings", async (evt: IpcMainInvokeEvent) => {
+    fromSettings(evt);
+    if (!adminSession) return false;
+    if (adminSession.live()) return true;
+    const admin = await identifyUser(loadConfig(), "admin", "admin", { title: "Settings Locked", label: "Enter Admin PIN:" });
+    if (!admin) return false;
+    adminSession.unlock(admin);
     return true;
   });
   
-  ipcMain.handle("testOpen", async (_evt: IpcMainInvokeEvent, override?: Partial<Config>) => {
-    const cfg = { ...loadConfig(), ...(override || {}) } as Config;
-    return sendDrawerKick(cfg);
+  // Typing and clicking count as use, not only calls that do something.
+  ipcMain.on("settingsActivity", (evt: IpcMainEvent) => {
+    try {
+      fromAdmin(evt, true);
+    } catch {
+      // Locked or not ours: nothing to keep alive
+    }
   });
   
-  ipcMain.handle("setPin", async () => {
-    const cfg = loadConfig();
-    // Admin only can change staff PIN:
-    if (!(await verifyAdminOrSet(cfg))) return false;
-    return setPinFlow(cfg);
+  ipcMain.handle("loadCfg", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    const { profiles, defaultProfileId, openAlertSecs, kickRetries, kickRetryDelayMs, api, shifts, policy, receipts, emulator: emu, hotkeys, health, adminIdleMins, pinPad } = loadConfig();
+    return {
+      profiles,
+      defaultProfileId,
+      openAlertSecs,
+      kickRetries,
+      kickRetryDelayMs,
+      api: { enabled: api.enabled, port: api.port, hasToken: !!api.tokenHash },
+      shifts,
+      policy,
+      receipts,
+      emulator: emu,
+      hotkeys,
+      health,
+      adminIdleMins,
+      pinPad,
+      managed: ((m) => (m ? { file: m.file, locked: m.locked } : null))(managedPolicy()),
+    };
   });
   
-  ipcMain.handle("changeAdminPin", async () => {
-    const cfg = loadConfig();
-    return changeAdminPinFlow(cfg);
+  ipcMain.handle("saveCfg", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const res = await station.saveSettings(parseSettings(input), adminSession?.user.name);
+    if (res.saved) await applySettings(res.saved);
+    return { ok: res.ok, error: res.error };
+  });
+  
+  ipcMain.handle("exportConfig", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const { includeUsers } = parseExportRequest(input);
+    const passphrase = await askPassphrase("Export Settings", true);
+    if (passphrase === null) return { ok: false };
+    const res = await dialog.showSaveDialog(settingsWin!, {
+      title: "Export Settings",
+      defaultPath: `drawer-opener-${os.hostname()}.json`,
+      filters: [{ name: "Drawer Opener settings", extensions: ["json"] }],
+    });
+    if (res.canceled || !res.filePath) return { ok: false };
+    const bundle = exportBundle(loadConfig(), passphrase, { includeUsers, station: os.hostname() });
+    fs.writeFileSync(res.filePath, JSON.stringify(bundle, null, 2), { encoding: "utf8", mode: 0o600 });
+    audit({ type: "config_exported", source: "settings", user: adminSession?.user.name, detail: { file: res.filePath, users: includeUsers } });
+    return { ok: true };
+  });
+  
+  ipcMain.handle("importConfig", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    const pick = await dialog.showOpenDialog(settingsWin!, {
+      title: "Import Settings",
+      properties: ["openFile"],
+      filters: [{ name: "Drawer Opener settings", extensions: ["json"] }],
+    });
+    if (pick.canceled || !pick.filePaths.length) return { ok: false };
+    const passphrase = await askPassphrase("Import Settings", false);
+    if (passphrase === null) return { ok: false };
+  
+    let imported: ImportedSettings;
+    try {
+      imported = importBundle(fs.readFileSync(pick.filePaths[0], "utf8"), passphrase);
+    } catch (e) {
+      if (e instanceof BundleError) return { ok: false, error: e.message };
+      throw e;
+    }
+    const withUsers = await confirmImport(imported);
+    if (withUsers === null) return { ok: false };
+    if (withUsers && !activeUsers(imported.users!, "admin").length) {
+      return { ok: false, error: "The file has no enabled admin account, so nothing was imported." };
+    }
+  
+    const before = loadConfig();
+    saveConfig({
+      ...imported.settings,
+      // The POS on this station keeps its own token
+      api: { ...imported.settings.api, tokenHash: before.api.tokenHash },
+      users: withUsers ? imported.users! : before.users,
+    });
+    const saved = loadConfig();
+    const changes = diffConfig(redactConfig(before), redactConfig(saved));
+    if (withUsers) changes.users = { from: `${before.users.length} accounts`, to: `${saved.users.length} accounts` };
+    audit({
+      type: "config_changed",
+      source: "import",
+      user: adminSession?.user.name,
+      detail: { ...changes, file: { from: imported.station, to: pick.filePaths[0] } },
+    });
+    await applySettings(saved);
+    return { ok: true };
+  });
+  
+  ipcMain.handle("hotkeyStatus", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    return hotkeyStatus;
+  });
+  
+  ipcMain.handle("testOpen", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const profile = parseProfile(input);
+    const result = await station.kickAndRecord(profile, "test", adminSession?.user.name);
+    return { ...result, message: result.ok ? undefined : describeKickFailure(profile, result) };
+  });
+  
+  ipcMain.handle("testSlip", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const { profile, receipts } = parseTestSlip(input);
+    if (!isConfigured(profile)) return { ok: false, message: describeKickFailure(profile, { category: "not_configured" }) };
+    const slip = openSlip(receipts, { drawer: profile.name, user: adminSession?.user.name ?? "Admin", when: new Date(), reason: "Test", ref: "TEST" });
+    const r = await printDocument(profile, slip, KICK_TIMEOUT_MS);
+    return { ok: r.ok, message: r.ok ? undefined : describeKickFailure(profile, r) };
+  });
+  
+  ipcMain.handle("setEmulatorFault", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const fault = parseEmulatorFault(input);
+    if (!emulator) return { ok: false, error: "The emulator isn’t running. Turn it on and save first." };
+    await emulator.setFaults(faultPreset(fault));
+    return { ok: true };
+  });
+  
+  ipcMain.handle("rotateApiToken", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    return rotateApiToken(loadConfig());
   });
   
+  // One scan at a time; a second request while one runs is refused.
+  let scanAbort: AbortController | null = null;
+  
+  ipcMain.handle("scanPrinters", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const req = parseScanRequest(input);
+    if (scanAbort) return { found: [], cancelled: false, error: "A scan is already running." };
+    scanAbort = new AbortController();
+    const signal = scanAbort.signal;
+    let found = 0;
+    try {
+      const results = await scanLocalNetwork({
+        ports: req.extraPorts ? [RAW_PORT, ...EXTRA_PORTS] : [RAW_PORT],
+        signal,
+        onFound: () => { found++; },
+        onProgress: (done, total) => {
+          if (evt.sender.isDestroyed() || (done % 16 !== 0 && done !== total)) return;
+          evt.sender.send("scanProgress", { done, total, found });
+        },
+      });
+      return { found: results, cancelled: signal.aborted };
+    } catch (e) {
+      return { found: [], cancelled: false, error: e instanceof Error ? e.message : String(e) };
+    } finally {
+      scanAbort = null;
+    }
+  });
+  
+  ipcMain.handle("cancelScan", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    scanAbort?.abort();
+    return true;
+  });
+  
+  ipcMain.handle("listUsers", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    return summarize(loadConfig().users);
+  });
+  
+  ipcMain.handle("addUser", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const req = parseNewUser(input);
+    return station.addUser(loadConfig(), req.name, req.role);
+  });
+  
+  ipcMain.handle("setPin", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    return station.setPin(loadConfig(), parseUserId(input));
+  });
+  
+  ipcMain.handle("setUserDisabled", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt);
+    const req = parseUserDisabled(input);
+    return station.setUserDisabled(loadConfig(), req.id, req.disabled);
+  });
+  
+  ipcMain.handle("changeAdminPin", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    return station.changeAdminPin(loadConfig());
+  });
+  
+  ipcMain.handle("openAudit", async (evt: IpcMainInvokeEvent) => {
+    fromAdmin(evt);
+    openAuditViewer();
+    return true;
+  });
+  
+  ipcMain.handle("auditQuery", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt, true);
+    const range = parseAuditRange(input);
+    return {
+      integrity: verifyAudit(auditPath()),
+      records: filterAudit(readAudit(auditPath()), range.from, range.to),
+    };
+  });
+  
+  ipcMain.handle("auditExport", async (evt: IpcMainInvokeEvent, input: unknown) => {
+    fromAdmin(evt, true);
+    const range = parseAuditRange(input);
+    const stamp = new Date().toISOString().slice(0, 10);
+    const res = await dialog.showSaveDialog({
+      title: "Export Audit Log",
+      defaultPath: `drawer-audit-${stamp}.csv`,
+      filters: [{ name: "CSV", extensions: ["csv"] }],
+    });
+    if (res.canceled || !res.filePath) return { ok: false };
+    const records = filterAudit(readAudit(auditPath()), range.from, range.to);
+    try {
+      fs.writeFileSync(res.filePath, auditToCsv(records), "utf8");
+    } catch (e) {
+      return { ok: false, error: `Couldn’t write ${res.filePath}: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    return { ok: true, file: res.filePath };
+  });
+  
+  
   // ----------------------------
   // App lifecycle
   // ----------------------------
+  // `drawer-opener open --reason ...` runs one command-line command against
+  // this station's data and exits, without the tray.
+  const cliArgs = process.argv.slice(app.isPackaged ? 1 : 2);
+  
   app.whenReady().then(async () => {
+    if (isCliCommand(cliArgs[0])) {
+      const r = await runCli(cliArgs, { dataDir: getUserDataPath() });
+      printResult(r);
+      app.exit(r.code);
+      return;
+    }
+  
     const cfg = loadConfig();
+    loadLastOpened();
     buildTray(cfg);
   
-    // First run: ensure Admin PIN exists
-    if (!cfg.adminHash) {
+    // First run: ensure an Admin account exists
+    if (!activeUsers(cfg.users, "admin").length) {
       await verifyAdminOrSet(cfg);
     }
   
     // If no printer yet, let admin configure it
-    if (!loadConfig().printerIp) {
-      if (await verifyAdminOrSet(loadConfig())) openSettings(loadConfig());
+    if (!isConfigured(pickProfile(loadConfig()))) {
+      const admin = await verifyAdminOrSet(loadConfig());
+      if (admin) openSettings(loadConfig(), admin);
     }
   
-    const combo = process.platform === "darwin" ? "Command+Shift+O" : "Control+Shift+O";
-    globalShortcut.register(combo, () => openDrawerFlow(loadConfig()));
+    warnHotkeys(registerHotkeys(loadConfig()));
+    await syncEmulator(loadConfig());
+    await syncApiServer(loadConfig());
+    syncHealth(loadConfig());
   });
   
+  // ----------------------------
+  // Hotkeys
+  // ----------------------------
+  // The station hotkey opens the default drawer; drawers may add their own.
+  // Every binding gets a status so Settings can say which ones aren't live.
+  let hotkeyStatus: HotkeyStatus[] = [];
+  
+  function registerHotkeys(cfg: Config): HotkeyStatus[] {
+    globalShortcut.unregisterAll();
+    const bindings = [
+      { id: "openDrawer", label: "Open drawer", accelerator: cfg.hotkeys.openDrawer, run: () => station.openDrawer(loadConfig(), "hotkey") },
+      { id: "openSettings", label: "Open Settings", accelerator: cfg.hotkeys.openSettings, run: () => openSettingsFlow() },
+      ...cfg.profiles.map((p) => ({
+        id: `profile:${p.id}`,
+        label: `Open ${p.name}`,
+        accelerator: p.hotkey ?? "",
+        run: () => station.openDrawer(loadConfig(), "hotkey", p.id),
+      })),
+    ].filter((b) => b.accelerator);
+  
+    hotkeyStatus = resolveHotkeys(bindings, cfg.hotkeys.mode, process.platform, (b) => globalShortcut.register(b.accelerator, b.run));
+    return hotkeyStatus;
+  }
+  
+  // At startup nobody is looking at Settings, so say it out loud.
+  function warnHotkeys(statuses: HotkeyStatus[]) {
+    const broken = statuses.filter((s) => s.problem);
+    if (!broken.length) return;
+    notify(
+      broken.length === 1 ? "A hotkey isn’t working" : "Some hotkeys aren’t working",
+      broken.map((s) => `${s.label} (${s.display}) ${s.problem}.`).join("\n"),
+    );
+  }
+  
+  // An open Settings window is already someone's session; if it has locked,
+  // its own lock screen asks for the PIN.
+  async function openSettingsFlow() {
+    if (settingsWin) { settingsWin.focus(); return; }
+    const cfg = loadConfig();
+    const admin = await verifyAdminOrSet(cfg);
+    if (admin) openSettings(cfg, admin);
+  }
+  
   // Keep app running even if all windows are closed (tray stays alive)
   app.on("window-all-closed", () => { /* no-op */ });
   app.on("will-quit", () => { globalShortcut.unregisterAll(); });
@@ -528,27 +1153,130 @@ import {
   // ----------------------------
   // Tray
   // ----------------------------
-  function buildTray(_cfg: Config) {
+  function buildTray(cfg: Config) {
     const { nativeImage } = require("electron");
   
-    // Create an “empty” icon and use an emoji as the title so it shows in the macOS menu bar
-    tray = new Tray(nativeImage.createEmpty());
+    // macOS: an “empty” icon and an emoji title in the menu bar. Elsewhere the
+    // title isn't shown, so the icon carries the status dot (see trayicon.ts).
+    tray = new Tray(process.platform === "darwin" ? nativeImage.createEmpty() : trayIcon("plain"));
     tray.setTitle("💵"); // You could also try "🛒" or "🖨️" if you prefer
     tray.setToolTip("Drawer Opener");
+    refreshTrayMenu(cfg);   // also reflects drawer open/closed state
+  }
+  
+  let trayBase: Electron.NativeImage | undefined;
+  
+  function trayIcon(look: TrayLook) {
+    if (!trayBase) {
+      const file = resolveAsset("tray.png");
+      trayBase = file ? nativeImage.createFromPath(file).resize({ width: 16, height: 16 }) : nativeImage.createEmpty();
+    }
+    if (trayBase.isEmpty()) return trayBase;
+    const { width, height } = trayBase.getSize();
+    return nativeImage.createFromBitmap(badgeBitmap(trayBase.toBitmap(), width, height, look), { width, height });
+  }
+  
+  function refreshTrayMenu(cfg: Config) {
+    if (!tray) return;
+  
+    const stateOf = (id: string) => drawerWatch.get(id)?.state ?? "unknown";
+    const printerOf = (id: string) => health?.get(id).printer ?? "unknown";
+    const openNow = cfg.profiles.filter((p) => stateOf(p.id) === "open");
+    const down = cfg.profiles.filter((p) => isConfigured(p) && printerOf(p.id) === "unreachable");
+    const look: TrayLook = openNow.length ? "open" : down.length ? "unreachable" : health ? "ok" : "plain";
+    tray.setTitle(TRAY_TITLES[look]);
+    if (process.platform !== "darwin") tray.setImage(trayIcon(look));
+  
+    const describe = (p: DrawerProfile) => [
+      printerOf(p.id) === "unreachable" ? "printer not answering" : printerOf(p.id) === "reachable" ? "printer OK" : "",
+      stateOf(p.id) !== "unknown" ? `drawer ${stateOf(p.id)}` : "",
+    ].filter(Boolean).join(", ");
+    const at = (d: Date) => (d.toDateString() === new Date().toDateString() ? d.toLocaleTimeString() : d.toLocaleString());
+    const lastLine = lastOpened && `Last opened by ${lastOpened.user ?? "unknown"} at ${at(lastOpened.at)} (${lastOpened.drawer})`;
+    tray.setToolTip(
+      ["Drawer Opener", ...cfg.profiles
+        .filter((p) => describe(p))
+        .map((p) => `${p.name}: ${describe(p)}`),
+      ...(lastLine ? [lastLine] : [])].join("\n"),
+    );
+  
+    const drawers = cfg.profiles.map((p) => ({
+      label: p.name
+        + (p.id === cfg.defaultProfileId ? " (default)" : "")
+        + (stateOf(p.id) !== "unknown" ? ` — ${stateOf(p.id)}` : ""),
+      click: () => station.openDrawer(loadConfig(), "tray", p.id),
+    }));
+    const pinnedDefault = isLocked(lockedFields(), "defaultProfileId");
+    const stations = cfg.profiles.map((p) => ({
+      label: p.name,
+      type: "radio" as const,
+      checked: p.id === cfg.defaultProfileId,
+      enabled: !pinnedDefault,
+      click: () => setDefaultProfile(p.id),
+    }));
+  
+    const store = cfg.shifts.enabled ? readShifts() : undefined;
+    const shiftOf = (id: string) => (store ? currentShift(store, id) : undefined);
+    const onShift = cfg.profiles.filter((p) => shiftOf(p.id));
+    const shifts = cfg.profiles.map((p) => ({
+      label: p.name,
+      submenu: [
+        { label: "Open Shift…", enabled: !shiftOf(p.id), click: async () => {
+            const user = await verifyPinOrSet(loadConfig());
+            if (user) await station.openShift(p, user);
+          }},
+        { label: "Close Shift…", enabled: !!shiftOf(p.id), click: () => closeShiftFlow(loadConfig(), p.id, false) },
+        { label: "Force Close Shift…", enabled: !!shiftOf(p.id), click: () => closeShiftFlow(loadConfig(), p.id, true) },
+      ],
+    }));
   
     const menu = Menu.buildFromTemplate([
-      { label: "Open Cash Drawer", click: () => openDrawerFlow(loadConfig()) },
+      ...openNow.map((p) => ({ label: `⚠︎ ${p.name} is open`, enabled: false })),
+      ...down.map((p) => ({ label: `⚠︎ ${p.name} printer isn’t answering`, enabled: false })),
+      ...(lastLine ? [{ label: lastLine, enabled: false }] : []),
+      ...onShift.map((p) => {
+        const s = shiftOf(p.id)!;
+        return { label: `${p.name}: ${s.openedBy}’s shift since ${new Date(s.openedAt).toLocaleTimeString()}`, enabled: false };
+      }),
+      // hotkey_only: staff open the drawer with the hotkey, never from this menu
+      ...(cfg.hotkeys.mode === "hotkey_only" ? [] : [
+        { label: "Open Cash Drawer", click: () => station.openDrawer(loadConfig(), "tray") },
+        { label: "Open Drawer", submenu: drawers },
+      ]),
+      ...(cfg.shifts.enabled ? [{ label: "Shifts", submenu: shifts }] : []),
+      { label: "Station Default", submenu: stations },
+      ...(health ? [{ label: "Check Printers Now", click: () => { void health?.check(); } }] : []),
       { type: "separator" },
-      { label: "Settings", click: async () => {
-          const cfg = loadConfig();
-          if (await verifyAdminOrSet(cfg)) openSettings(cfg);
-        }},
+      { label: "Settings", click: () => openSettingsFlow() },
       { label: "Change Admin PIN", click: async () => {
           const cfg = loadConfig();
-          await changeAdminPinFlow(cfg);
+          await station.changeAdminPin(cfg);
         }},
       { type: "separator" },
       { label: "Quit", role: "quit" },
     ]);
     tray.setContextMenu(menu);
+  }
+  
+  // For laptops that move between desks: picks what the main hotkey opens.
+  // The default is what the hotkey and the POS open, so changing it takes
+  // a manager. The radio has already moved by now; a refresh puts it back.
+  async function setDefaultProfile(id: string) {
+    const cfg = loadConfig();
+    if (cfg.defaultProfileId === id) return;
+    const user = await identifyUser(cfg, "admin", "manager", {
+      title: "Manager PIN Required",
+      label: "Enter a manager PIN to change this station’s default drawer:",
+    });
+    if (!user) {
+      refreshTrayMenu(loadConfig());
+      return;
+    }
+  
+    const next = loadConfig();
+    const before = next.defaultProfileId;
+    next.defaultProfileId = id;
+    saveConfig(next);
+    audit({ type: "config_changed", source: "tray", user: user.name, detail: { defaultProfileId: { from: before, to: id } } });
+    refreshTrayMenu(next);
   }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as path from "path";
+import { defaultConfig, validateConfig } from "./config";
+import type { Config } from "./config";
+
+// ----------------------------
+// Managed settings
+// ----------------------------
+// IT can pin settings for every station on a machine with a read-only JSON
+// file in a system-wide folder. It has the same shape as config.json but
+// only lists what it pins, for example:
+//
+//   { "kickRetries": 3, "policy": { "maxOpensPerHour": 6 }, "hotkeys": { "mode": "tray_only" } }
+//
+// Each value in it wins over the station's own, and Settings shows that
+// field locked. Lists (drawers, reasons, days) are pinned whole. Accounts,
+// PINs and the API token stay per station and can't be pinned.
+export type ManagedPolicy = {
+  file: string;
+  settings: Record<string, unknown>;
+  locked: string[];          // dotted paths, e.g. "policy.maxOpensPerHour"
+};
+
+// What Settings gets to know about it.
+export type ManagedSummary = { file: string; locked: string[] };
+
+export class ManagedPolicyError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(problems.length ? `${message}\n\n${problems.map((p) => "• " + p).join("\n")}` : message);
+    this.name = "ManagedPolicyError";
+  }
+}
+
+const UNMANAGED = ["version", "users", "api.tokenHash"];
+
+// DRAWER_OPENER_MANAGED points somewhere else, for testing a policy file.
+export function managedPolicyPath(platform = process.platform, env = process.env) {
+  if (env.DRAWER_OPENER_MANAGED) return env.DRAWER_OPENER_MANAGED;
+  if (platform === "win32") return path.join(env.ProgramData || "C:\\ProgramData", "Drawer Opener", "managed.json");
+  if (platform === "darwin") return "/Library/Application Support/Drawer Opener/managed.json";
+  return "/etc/drawer-opener/managed.json";
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Walks the policy against the shape of a full config: objects are followed,
+// anything else (including arrays) is a pinned leaf.
+function leaves(policy: Record<string, unknown>, shape: Record<string, unknown>, prefix: string, out: string[], problems: string[]) {
+  for (const [key, value] of Object.entries(policy)) {
+    const at = prefix + key;
+    if (UNMANAGED.includes(at)) { problems.push(`${at} can’t be managed.`); continue; }
+    if (!(key in shape)) { problems.push(`${at} isn’t a setting.`); continue; }
+    if (isObject(shape[key])) {
+      if (!isObject(value)) { problems.push(`${at} must be an object.`); continue; }
+      leaves(value, shape[key] as Record<string, unknown>, at + ".", out, problems);
+    } else {
+      out.push(at);
+    }
+  }
+}
+
+export function getPath(obj: any, at: string) {
+  return at.split(".").reduce((o, k) => o?.[k], obj);
+}
+
+export function setPath(obj: any, at: string, value: unknown) {
+  const keys = at.split(".");
+  const last = keys.pop()!;
+  const parent = keys.reduce((o, k) => o[k], obj);
+  parent[last] = structuredClone(value);
+}
+
+export function isLocked(locked: string[], field: string) {
+  return locked.some((l) => field === l || field.startsWith(l + "."));
+}
+
+// The station's settings with the pinned values laid over them.
+export function applyManaged(local: Config, policy: ManagedPolicy | null): Config {
+  if (!policy) return local;
+  const cfg = structuredClone(local);
+  for (const at of policy.locked) setPath(cfg, at, getPath(policy.settings, at));
+  // A pinned default this station doesn't have falls back to its first drawer
+  if (!cfg.profiles.some((p) => p.id === cfg.defaultProfileId)) cfg.defaultProfileId = cfg.profiles[0].id;
+  return cfg;
+}
+
+// Before saving: pinned fields keep what the station had, so the file only
+// ever holds the station's own choices and removing a pin brings them back.
+export function withoutManaged(next: Config, local: Config, policy: ManagedPolicy | null): Config {
+  if (!policy) return next;
+  const cfg = structuredClone(next);
+  for (const at of policy.locked) setPath(cfg, at, getPath(local, at));
+  return cfg;
+}
+
+// No file means nothing is managed. A file that's there but can't be used
+// throws: quietly ignoring it would unlock everything it was meant to pin.
+export function readManagedPolicy(file: string): ManagedPolicy | null {
+  if (!fs.existsSync(file)) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new ManagedPolicyError(`${file} is damaged: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObject(raw)) throw new ManagedPolicyError(`${file} does not contain a settings object.`);
+
+  const locked: string[] = [];
+  const problems: string[] = [];
+  leaves(raw, defaultConfig() as unknown as Record<string, unknown>, "", locked, problems);
+  // Pinned drawers come with a pinned default: the first one unless it says otherwise
+  if (locked.includes("profiles") && !locked.includes("defaultProfileId") && Array.isArray(raw.profiles)) {
+    raw.defaultProfileId = raw.profiles[0]?.id;
+    locked.push("defaultProfileId");
+  }
+  if (!problems.length) {
+    const policy = { file, settings: raw, locked };
+    problems.push(...validateConfig(applyManaged(defaultConfig(), policy)));
+  }
+  if (problems.length) throw new ManagedPolicyError(`${file} has invalid settings:`, problems);
+  return { file, settings: raw, locked };
+}
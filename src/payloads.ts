@@ -0,0 +1,293 @@
+import { isQueueName, isTransport } from "./transport";
+import { isRole } from "./users";
+import type { Role } from "./users";
+import type { DrawerProfile } from "./profiles";
+import type { DenominationCount } from "./shifts";
+import { isTimeOfDay } from "./policy";
+import type { OpenPolicy } from "./policy";
+import { RECEIPT_COLUMNS, isReceiptCode } from "./receipts";
+import type { ReceiptTemplate } from "./receipts";
+import { EMULATOR_FAULTS, isEmulatorFault } from "./emulator";
+import type { EmulatorFault } from "./emulator";
+import { HOTKEY_MODES, acceleratorProblem, isHotkeyMode } from "./hotkeys";
+import type { HotkeySettings } from "./hotkeys";
+import { HEALTH_MAX_SECS, HEALTH_MIN_SECS, isHealthInterval } from "./health";
+import type { HealthSettings } from "./health";
+import { PIN_LENGTH_MAX, PIN_LENGTH_MIN, PIN_PAD_MODES, isPinLength, isPinPadMode } from "./pinpad";
+import type { PinPadSettings } from "./pinpad";
+import { ADMIN_IDLE_MAX_MINS, ADMIN_IDLE_MIN_MINS } from "./session";
+
+// ----------------------------
+// IPC payload validation
+// ----------------------------
+// Everything a renderer sends is untrusted: a compromised or buggy page can
+// post anything over IPC. Each handler in main runs its payload through one
+// of these first. They check shape, type and size only and throw
+// PayloadError on the first problem; business rules stay in the handlers.
+export class PayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayloadError";
+  }
+}
+
+export type SettingsPayload = {
+  profiles: DrawerProfile[];
+  defaultProfileId: string;
+  openAlertSecs: number;
+  kickRetries: number;
+  kickRetryDelayMs: number;
+  api: { enabled: boolean; port: number };
+  shifts: { enabled: boolean };
+  policy: OpenPolicy;
+  receipts: ReceiptTemplate;
+  emulator: { enabled: boolean; port: number };
+  hotkeys: HotkeySettings;
+  health: HealthSettings;
+  adminIdleMins: number;
+  pinPad: PinPadSettings;
+};
+
+export type AuditRange = { from?: string; to?: string };
+
+const MAX_PROFILES = 32;
+const MAX_REASONS = 20;
+
+// ----------------------------
+// Primitives
+// ----------------------------
+function record(v: unknown, what: string): Record<string, unknown> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) throw new PayloadError(`${what} is missing.`);
+  return v as Record<string, unknown>;
+}
+
+function text(v: unknown, what: string, max: number): string {
+  if (typeof v !== "string") throw new PayloadError(`${what} must be text.`);
+  if (v.length > max) throw new PayloadError(`${what} is too long (${max} characters max).`);
+  return v;
+}
+
+function optionalText(v: unknown, what: string, max: number): string | undefined {
+  if (v === undefined || v === null || v === "") return undefined;
+  return text(v, what, max).trim() || undefined;
+}
+
+function whole(v: unknown, what: string, min: number, max: number): number {
+  if (typeof v !== "number" || !Number.isInteger(v) || v < min || v > max) {
+    throw new PayloadError(`${what} must be a whole number from ${min} to ${max}.`);
+  }
+  return v;
+}
+
+function accelerator(v: unknown, what: string): string {
+  const acc = optionalText(v, what, 64) ?? "";
+  const problem = acc && acceleratorProblem(acc);
+  if (problem) throw new PayloadError(`${what}: ${problem}`);
+  return acc;
+}
+
+function flag(v: unknown, what: string): boolean {
+  if (typeof v !== "boolean") throw new PayloadError(`${what} must be true or false.`);
+  return v;
+}
+
+// ----------------------------
+// Payloads
+// ----------------------------
+export function parseProfile(v: unknown): DrawerProfile {
+  const p = record(v, "Drawer");
+  const name = text(p.name, "Drawer name", 80).trim();
+  if (!name) throw new PayloadError("Give the drawer a name.");
+  if (p.transport !== undefined && !isTransport(p.transport)) throw new PayloadError("Pick a connection type.");
+  if (p.drawerChannel !== 0 && p.drawerChannel !== 1) throw new PayloadError("Drawer channel must be 0 or 1.");
+  if (p.openLevel !== undefined && p.openLevel !== "high" && p.openLevel !== "low") {
+    throw new PayloadError("Drawer sensor level must be high or low.");
+  }
+  const baud = p.baudRate === undefined || p.baudRate === null ? undefined : whole(p.baudRate, "Baud rate", 300, 4000000);
+  const queueName = optionalText(p.queueName, "Printer queue", 128);
+  if (queueName !== undefined && !isQueueName(queueName)) {
+    throw new PayloadError("Printer queue may only use letters, digits, spaces, dots, dashes and underscores.");
+  }
+  return {
+    id: text(p.id, "Drawer id", 64),
+    name,
+    transport: p.transport ?? "tcp",
+    printerIp: text(p.printerIp ?? "", "Printer IP", 253).trim(),
+    printerPort: whole(p.printerPort, "Printer port", 1, 65535),
+    devicePath: optionalText(p.devicePath, "Device path", 260),
+    baudRate: baud,
+    queueName,
+    drawerChannel: p.drawerChannel,
+    pulseOn: whole(p.pulseOn, "Pulse on", 0, 255),
+    pulseOff: whole(p.pulseOff, "Pulse off", 0, 255),
+    statusQuery: p.statusQuery === undefined ? undefined : flag(p.statusQuery, "Printer status check"),
+    openLevel: p.openLevel,
+    hotkey: accelerator(p.hotkey, `Hotkey for ${name}`) || undefined,
+  } as DrawerProfile;
+}
+
+export function parseSettings(v: unknown): SettingsPayload {
+  const s = record(v, "Settings");
+  if (!Array.isArray(s.profiles) || !s.profiles.length) throw new PayloadError("At least one drawer is required.");
+  if (s.profiles.length > MAX_PROFILES) throw new PayloadError(`At most ${MAX_PROFILES} drawers are supported.`);
+  const api = record(s.api, "API settings");
+  return {
+    profiles: s.profiles.map(parseProfile),
+    defaultProfileId: text(s.defaultProfileId, "Default drawer", 64),
+    openAlertSecs: whole(s.openAlertSecs, "Left-open warning", 0, 86400),
+    kickRetries: whole(s.kickRetries, "Retries", 0, 5),
+    kickRetryDelayMs: whole(s.kickRetryDelayMs, "Retry delay", 0, 10000),
+    api: {
+      enabled: flag(api.enabled, "Local API"),
+      port: whole(api.port, "API port", 1024, 65535),
+    },
+    shifts: { enabled: flag(record(s.shifts, "Shift settings").enabled, "Shifts") },
+    policy: parsePolicy(s.policy),
+    receipts: parseReceipts(s.receipts),
+    emulator: {
+      enabled: flag(record(s.emulator, "Emulator settings").enabled, "Printer emulator"),
+      port: whole(record(s.emulator, "Emulator settings").port, "Emulator port", 1024, 65535),
+    },
+    hotkeys: parseHotkeys(s.hotkeys),
+    health: parseHealth(s.health),
+    adminIdleMins: whole(s.adminIdleMins, "Settings lock", ADMIN_IDLE_MIN_MINS, ADMIN_IDLE_MAX_MINS),
+    pinPad: parsePinPad(s.pinPad),
+  };
+}
+
+export function parseHotkeys(v: unknown): HotkeySettings {
+  const h = record(v, "Hotkey settings");
+  if (!isHotkeyMode(h.mode)) throw new PayloadError(`Hotkey mode must be one of: ${HOTKEY_MODES.join(", ")}.`);
+  return {
+    mode: h.mode,
+    openDrawer: accelerator(h.openDrawer, "Open drawer hotkey"),
+    openSettings: accelerator(h.openSettings, "Open Settings hotkey"),
+  };
+}
+
+export function parseHealth(v: unknown): HealthSettings {
+  const h = record(v, "Printer check settings");
+  const intervalSecs = whole(h.intervalSecs, "Printer check interval", 0, HEALTH_MAX_SECS);
+  if (!isHealthInterval(intervalSecs)) {
+    throw new PayloadError(`Printer check interval must be 0 (off) or at least ${HEALTH_MIN_SECS} seconds.`);
+  }
+  return { intervalSecs, alerts: flag(h.alerts, "Printer alerts") };
+}
+
+export function parsePinPad(v: unknown): PinPadSettings {
+  const p = record(v, "PIN pad settings");
+  if (!isPinPadMode(p.mode)) throw new PayloadError(`PIN entry must be one of: ${PIN_PAD_MODES.join(", ")}.`);
+  const length = whole(p.length, "PIN length", 0, PIN_LENGTH_MAX);
+  if (!isPinLength(length)) throw new PayloadError(`PIN length must be 0 (press OK) or ${PIN_LENGTH_MIN}–${PIN_LENGTH_MAX}.`);
+  return { mode: p.mode, shuffle: flag(p.shuffle, "Shuffled keys"), length };
+}
+
+export function parsePolicy(v: unknown): OpenPolicy {
+  const p = record(v, "Open rules");
+  const h = record(p.hours, "Business hours");
+  const reasons = (list: unknown, what: string) => {
+    if (!Array.isArray(list)) throw new PayloadError(`${what} must be a list.`);
+    if (list.length > MAX_REASONS) throw new PayloadError(`${what}: at most ${MAX_REASONS} reasons.`);
+    return list.map((r) => text(r, "Reason", 40).trim()).filter(Boolean);
+  };
+  const time = (t: unknown, what: string) => {
+    if (!isTimeOfDay(t)) throw new PayloadError(`${what} must be a time like 09:00.`);
+    return t;
+  };
+  if (!Array.isArray(h.days)) throw new PayloadError("Business days must be a list.");
+  const policy: OpenPolicy = {
+    requireReason: flag(p.requireReason, "Require a reason"),
+    reasons: reasons(p.reasons, "Reasons"),
+    overrideReasons: reasons(p.overrideReasons, "Manager PIN reasons"),
+    maxOpensPerHour: whole(p.maxOpensPerHour, "Opens per hour", 0, 1000),
+    hours: {
+      enabled: flag(h.enabled, "Business hours"),
+      open: time(h.open, "Opening time"),
+      close: time(h.close, "Closing time"),
+      days: [...new Set(h.days.map((d) => whole(d, "Business day", 0, 6)))],
+    },
+  };
+  if (policy.requireReason && !policy.reasons.length) throw new PayloadError("List at least one reason, or stop requiring one.");
+  if (policy.hours.enabled && !policy.hours.days.length) throw new PayloadError("Pick at least one business day, or turn business hours off.");
+  return policy;
+}
+
+export function parseUserId(v: unknown): string {
+  const id = text(v, "User id", 64);
+  if (!id) throw new PayloadError("User id is missing.");
+  return id;
+}
+
+export function parseNewUser(v: unknown): { name: string; role: Role } {
+  const u = record(v, "New user");
+  if (!isRole(u.role)) throw new PayloadError("Pick a role.");
+  return { name: text(u.name, "Name", 80), role: u.role };
+}
+
+export function parseUserDisabled(v: unknown): { id: string; disabled: boolean } {
+  const u = record(v, "User");
+  return { id: parseUserId(u.id), disabled: flag(u.disabled, "Disabled") };
+}
+
+// `from`/`to` are what <input type="date"> gives: YYYY-MM-DD or empty.
+export function parseAuditRange(v: unknown): AuditRange {
+  const r = record(v, "Date range");
+  const day = (d: unknown, what: string) => {
+    const s = optionalText(d, what, 10);
+    if (s !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(s)) throw new PayloadError(`${what} must be a date.`);
+    return s;
+  };
+  return { from: day(r.from, "From"), to: day(r.to, "To") };
+}
+
+export function parseScanRequest(v: unknown): { extraPorts: boolean } {
+  return { extraPorts: flag(record(v, "Scan request").extraPorts, "Extra ports") };
+}
+
+export function parseExportRequest(v: unknown): { includeUsers: boolean } {
+  return { includeUsers: flag(record(v, "Export request").includeUsers, "Include users") };
+}
+
+export function parseReceipts(v: unknown): ReceiptTemplate {
+  const r = record(v, "Receipt settings");
+  if (!RECEIPT_COLUMNS.includes(r.columns as number)) throw new PayloadError("Pick a paper width.");
+  if (!isReceiptCode(r.code)) throw new PayloadError("Pick a reference code type.");
+  return {
+    slipOnOpen: flag(r.slipOnOpen, "Slip on each open"),
+    zReportOnClose: flag(r.zReportOnClose, "Print Z report"),
+    header: text(r.header ?? "", "Receipt header", 500),
+    footer: text(r.footer ?? "", "Receipt footer", 500),
+    columns: r.columns as number,
+    code: r.code,
+    cut: flag(r.cut, "Cut paper"),
+  };
+}
+
+export function parseTestSlip(v: unknown): { profile: DrawerProfile; receipts: ReceiptTemplate } {
+  const t = record(v, "Test slip");
+  return { profile: parseProfile(t.profile), receipts: parseReceipts(t.receipts) };
+}
+
+export function parseEmulatorFault(v: unknown): EmulatorFault {
+  if (!isEmulatorFault(v)) throw new PayloadError(`Fault must be one of: ${EMULATOR_FAULTS.join(", ")}.`);
+  return v;
+}
+
+// A PIN or name typed into the prompt window; null means cancelled.
+export function parsePromptAnswer(v: unknown): string | null {
+  if (v === null) return null;
+  return text(v, "Answer", 128);
+}
+
+// Closing count from the count window; null means cancelled. Only the
+// denominations we offered are accepted.
+export function parseCount(v: unknown, denominations: number[]): DenominationCount | null {
+  if (v === null) return null;
+  const c = record(v, "Count");
+  const out: DenominationCount = {};
+  for (const [key, qty] of Object.entries(c)) {
+    if (!denominations.includes(Number(key))) throw new PayloadError(`Unknown denomination "${key}".`);
+    out[key] = whole(qty, "Quantity", 0, 100000);
+  }
+  return out;
+}
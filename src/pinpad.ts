@@ -0,0 +1,74 @@
+import * as crypto from "crypto";
+
+// ----------------------------
+// On-screen PIN pad
+// ----------------------------
+// For touch-only counter terminals: PIN prompts show a large numeric keypad
+// instead of a text field. Applies to every PIN prompt on the station (staff,
+// manager and admin); other prompts (names, passphrases, amounts) keep the
+// keyboard field.
+export type PinPadMode =
+  | "off"          // text field; needs a keyboard
+  | "window"       // large keypad window
+  | "fullscreen";  // keypad covering the screen
+
+export type PinPadSettings = {
+  mode: PinPadMode;
+  shuffle: boolean;   // new key order on every prompt, against shoulder-surfing
+  length: number;     // submit on this many digits; 0 = press OK
+};
+
+// What a prompt window is told; the key order is picked in main.
+export type PinPadView = {
+  keys: string[];     // the ten digits in the order they're laid out
+  length: number;
+  fullscreen: boolean;
+};
+
+export const PIN_PAD_MODES: PinPadMode[] = ["off", "window", "fullscreen"];
+export const PIN_LENGTH_MIN = 4;
+export const PIN_LENGTH_MAX = 8;
+
+const DIGITS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "0"];
+
+export function defaultPinPad(): PinPadSettings {
+  return { mode: "off", shuffle: false, length: 0 };
+}
+
+export function isPinPadMode(v: unknown): v is PinPadMode {
+  return PIN_PAD_MODES.includes(v as PinPadMode);
+}
+
+export function isPinLength(v: unknown) {
+  return v === 0 || (Number.isInteger(v) && (v as number) >= PIN_LENGTH_MIN && (v as number) <= PIN_LENGTH_MAX);
+}
+
+// Fisher–Yates on a CSPRNG: a predictable order would defeat the point.
+export function pinPadView(s: PinPadSettings, randomInt: (max: number) => number = crypto.randomInt): PinPadView | undefined {
+  if (s.mode === "off") return undefined;
+  const keys = [...DIGITS];
+  if (s.shuffle) {
+    for (let i = keys.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1);
+      [keys[i], keys[j]] = [keys[j], keys[i]];
+    }
+  }
+  return { keys, length: s.length, fullscreen: s.mode === "fullscreen" };
+}
+
+// Whether PINs that worked under `prev` might not under `next`: turning the
+// pad on (digits only) or setting a new auto-submit length. Only hashes are
+// stored, so existing PINs can't be checked against it directly.
+export function pinRuleTightened(prev: PinPadSettings, next: PinPadSettings) {
+  if (next.mode === "off") return false;
+  return prev.mode === "off" || (next.length !== 0 && next.length !== prev.length);
+}
+
+// With the pad on, a PIN has to be typeable on it, and auto-submit cuts off
+// anything longer than the set length.
+export function pinRuleProblem(pin: string, s: PinPadSettings): string | null {
+  if (s.mode === "off") return null;
+  if (!/^[0-9]+$/.test(pin)) return "PINs can only be digits on this station.";
+  if (s.length && pin.length !== s.length) return `PINs must be exactly ${s.length} digits on this station.`;
+  return null;
+}
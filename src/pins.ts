@@ -0,0 +1,47 @@
+import * as crypto from "crypto";
+
+// ----------------------------
+// PIN hashing
+// ----------------------------
+// Stored as "scrypt:<version>:<N>:<r>:<p>:<salt hex>:<hash hex>". A 4–6 digit
+// PIN has very little entropy, so the salt stops precomputed tables and the
+// scrypt cost makes each guess against a copied config.json expensive.
+//
+// Hashes written before this format existed are bare SHA-256 hex. They still
+// verify, and `needsRehash` tells the caller to upgrade them on success.
+const VERSION = 1;
+const N = 1 << 14;
+const R = 8;
+const P = 1;
+const KEYLEN = 32;
+
+function scrypt(pin: string, salt: Buffer, n: number, r: number, p: number) {
+  return crypto.scryptSync(pin, salt, KEYLEN, { N: n, r, p, maxmem: 64 * 1024 * 1024 });
+}
+
+export function hashPin(pin: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = scrypt(pin, salt, N, R, P);
+  return ["scrypt", VERSION, N, R, P, salt.toString("hex"), hash.toString("hex")].join(":");
+}
+
+export function verifyPin(pin: string, stored: string): boolean {
+  if (/^[0-9a-f]{64}$/i.test(stored)) {
+    const legacy = crypto.createHash("sha256").update(pin).digest();
+    return crypto.timingSafeEqual(legacy, Buffer.from(stored, "hex"));
+  }
+
+  const parts = stored.split(":");
+  if (parts.length !== 7 || parts[0] !== "scrypt" || Number(parts[1]) !== VERSION) return false;
+  const [n, r, p] = parts.slice(2, 5).map(Number);
+  const expected = Buffer.from(parts[6], "hex");
+  if (!n || !r || !p || expected.length !== KEYLEN) return false;
+
+  const actual = scrypt(pin, Buffer.from(parts[5], "hex"), n, r, p);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// True for legacy SHA-256 values and for scrypt hashes with older parameters.
+export function needsRehash(stored: string): boolean {
+  return !stored.startsWith(["scrypt", VERSION, N, R, P].join(":") + ":");
+}
@@ -0,0 +1,156 @@
+import { hasRole } from "./users";
+import type { User } from "./users";
+import type { AuditRecord } from "./audit";
+import { OPEN_REASONS } from "./shifts";
+import type { Config } from "./config";
+
+// ----------------------------
+// Types
+// ----------------------------
+// Rules an admin sets for who may open the drawer, when and why. They are
+// checked in a fixed order and the first one that applies decides; the
+// decision always names that rule so staff see why, and the audit log does too.
+export type OpenPolicy = {
+  requireReason: boolean;      // every open picks a reason from `reasons`
+  reasons: string[];
+  overrideReasons: string[];   // reasons that also need a manager PIN, e.g. "No Sale"
+  maxOpensPerHour: number;     // per person, across drawers; 0 = no cap
+  hours: {
+    enabled: boolean;          // block opens outside these hours
+    open: string;              // "HH:MM", local time
+    close: string;             // earlier than open means the window runs past midnight
+    days: number[];            // 0 = Sunday; a window past midnight belongs to the day it starts
+  };
+};
+
+export type PolicyRule =
+  | "allowed"                  // no rule stood in the way
+  | "business_hours"
+  | "hourly_cap"
+  | "reason_required"
+  | "manager_override";
+
+// ask_* means the open can go ahead once the caller supplies the missing
+// reason or manager approval and evaluates again.
+export type PolicyDecision = {
+  outcome: "allow" | "deny" | "ask_reason" | "ask_override";
+  rule: PolicyRule;
+  message: string;
+};
+
+export type PolicyRequest = {
+  user: Pick<User, "name" | "role">;
+  reasons: string[];           // what the reason picker offers here
+  reason?: string;
+  overrideBy?: string;         // manager who approved, once asked
+  opensLastHour: number;
+  now?: Date;
+};
+
+export const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function defaultPolicy(): OpenPolicy {
+  return {
+    requireReason: false,
+    reasons: ["Sale", "Change", "Refund", "No Sale"],
+    overrideReasons: [],
+    maxOpensPerHour: 0,
+    hours: { enabled: false, open: "08:00", close: "22:00", days: [0, 1, 2, 3, 4, 5, 6] },
+  };
+}
+
+export function isTimeOfDay(v: unknown): v is string {
+  return typeof v === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+}
+
+// ----------------------------
+// Evaluation
+// ----------------------------
+const sameReason = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function minutes(hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+}
+
+export function withinHours(hours: OpenPolicy["hours"], now: Date) {
+  const at = now.getHours() * 60 + now.getMinutes();
+  const open = minutes(hours.open);
+  const close = minutes(hours.close);
+  const today = now.getDay();
+  const yesterday = (today + 6) % 7;
+  if (open < close) return hours.days.includes(today) && at >= open && at < close;
+  return (hours.days.includes(today) && at >= open) || (hours.days.includes(yesterday) && at < close);
+}
+
+export function describeHours(hours: OpenPolicy["hours"]) {
+  const days = hours.days.length === 7 ? "every day" : [...hours.days].sort().map((d) => DAY_NAMES[d]).join(", ");
+  return `${hours.open}–${hours.close}, ${days}`;
+}
+
+// Hours and the hourly cap are there to stop staff; managers and admins
+// (who close up and investigate) are not held to them.
+export function evaluatePolicy(policy: OpenPolicy, req: PolicyRequest): PolicyDecision {
+  const now = req.now ?? new Date();
+  const exempt = hasRole(req.user, "manager");
+
+  if (policy.hours.enabled && !exempt && !withinHours(policy.hours, now)) {
+    return {
+      outcome: "deny",
+      rule: "business_hours",
+      message: `The drawer can only be opened during business hours (${describeHours(policy.hours)}). Ask a manager.`,
+    };
+  }
+
+  if (policy.maxOpensPerHour > 0 && !exempt && req.opensLastHour >= policy.maxOpensPerHour) {
+    return {
+      outcome: "deny",
+      rule: "hourly_cap",
+      message: `${req.user.name} has opened the drawer ${req.opensLastHour} times in the last hour (limit ${policy.maxOpensPerHour}). Ask a manager.`,
+    };
+  }
+
+  if (policy.requireReason) {
+    if (!req.reason?.trim()) {
+      return { outcome: "ask_reason", rule: "reason_required", message: "Pick a reason for opening the drawer." };
+    }
+    if (!req.reasons.some((r) => sameReason(r, req.reason!))) {
+      return {
+        outcome: "deny",
+        rule: "reason_required",
+        message: `"${req.reason}" isn’t an allowed reason. Use one of: ${req.reasons.join(", ")}.`,
+      };
+    }
+  }
+
+  const reason = req.reason;
+  if (reason && policy.overrideReasons.some((r) => sameReason(r, reason))) {
+    if (!req.overrideBy) {
+      return { outcome: "ask_override", rule: "manager_override", message: `"${reason}" opens need a manager PIN.` };
+    }
+    return { outcome: "allow", rule: "manager_override", message: `"${reason}" approved by ${req.overrideBy}.` };
+  }
+
+  return { outcome: "allow", rule: "allowed", message: "No rule restricts this open." };
+}
+
+// Shifts need a reason on every open (for the Z report), so they switch the
+// reason rule on and supply their own list.
+export function effectivePolicy(cfg: Pick<Config, "shifts" | "policy">): OpenPolicy {
+  return cfg.shifts.enabled ? { ...cfg.policy, requireReason: true } : cfg.policy;
+}
+
+export function reasonChoices(cfg: Pick<Config, "shifts" | "policy">) {
+  return cfg.shifts.enabled ? OPEN_REASONS.map((r) => r.label) : cfg.policy.reasons;
+}
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Successful real opens by this person in the hour before `now`; Test Open
+// from Settings doesn't count.
+export function opensInLastHour(records: AuditRecord[], user: string, now = new Date()) {
+  const since = now.getTime() - HOUR_MS;
+  return records.filter((r) =>
+    r.type === "drawer_kick" && r.ok && r.user === user && r.source !== "test" && Date.parse(r.ts) >= since,
+  ).length;
+}
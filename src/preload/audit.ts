@@ -0,0 +1,14 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+// ----------------------------
+// Audit log window
+// ----------------------------
+// Read-only view of the log: it can query and export records and keep the
+// admin session alive, and main refuses every other channel from it.
+const api: AuditBridge = {
+  query: (range) => ipcRenderer.invoke("auditQuery", range),
+  export: (range) => ipcRenderer.invoke("auditExport", range),
+  activity: () => ipcRenderer.send("settingsActivity"),
+};
+
+contextBridge.exposeInMainWorld("auditLog", api);
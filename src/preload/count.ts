@@ -0,0 +1,12 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+// ----------------------------
+// Closing-count window
+// ----------------------------
+// Same shape as the prompt: fetch this window's options, send one answer.
+const api: CountBridge = {
+  options: () => ipcRenderer.invoke("count:options"),
+  submit: (count) => ipcRenderer.send("count:answer", count),
+};
+
+contextBridge.exposeInMainWorld("cashCount", api);
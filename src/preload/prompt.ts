@@ -0,0 +1,13 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+// ----------------------------
+// PIN / text prompt window
+// ----------------------------
+// Main knows which prompt a window belongs to from the sender, so the page
+// only ever asks for its own options and sends back one answer.
+const api: PromptBridge = {
+  options: () => ipcRenderer.invoke("prompt:options"),
+  answer: (value) => ipcRenderer.send("prompt:answer", value),
+};
+
+contextBridge.exposeInMainWorld("pinPrompt", api);
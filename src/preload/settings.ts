@@ -0,0 +1,38 @@
+import { contextBridge, ipcRenderer } from "electron";
+
+// ----------------------------
+// Settings window
+// ----------------------------
+// Sandboxed preload: only `electron` can be required here, so this stays a
+// thin, typed forwarder. One method per IPC channel, nothing generic.
+const api: SettingsBridge = {
+  platform: process.platform,
+  loadConfig: () => ipcRenderer.invoke("loadCfg"),
+  saveConfig: (settings) => ipcRenderer.invoke("saveCfg", settings),
+  testOpen: (profile) => ipcRenderer.invoke("testOpen", profile),
+  testSlip: (req) => ipcRenderer.invoke("testSlip", req),
+  rotateApiToken: () => ipcRenderer.invoke("rotateApiToken"),
+  setEmulatorFault: (fault) => ipcRenderer.invoke("setEmulatorFault", fault),
+  hotkeyStatus: () => ipcRenderer.invoke("hotkeyStatus"),
+  exportConfig: (req) => ipcRenderer.invoke("exportConfig", req),
+  importConfig: () => ipcRenderer.invoke("importConfig"),
+  scanPrinters: (req) => ipcRenderer.invoke("scanPrinters", req),
+  cancelScan: () => ipcRenderer.invoke("cancelScan"),
+  // The IPC event object stays on this side of the bridge
+  onScanProgress: (listener) => {
+    ipcRenderer.on("scanProgress", (_e, p: ScanProgress) => listener(p));
+  },
+  listUsers: () => ipcRenderer.invoke("listUsers"),
+  addUser: (req) => ipcRenderer.invoke("addUser", req),
+  setPin: (id) => ipcRenderer.invoke("setPin", id),
+  setUserDisabled: (req) => ipcRenderer.invoke("setUserDisabled", req),
+  changeAdminPin: () => ipcRenderer.invoke("changeAdminPin"),
+  openAudit: () => ipcRenderer.invoke("openAudit"),
+  activity: () => ipcRenderer.send("settingsActivity"),
+  unlockSettings: () => ipcRenderer.invoke("unlockSettings"),
+  onLocked: (listener) => {
+    ipcRenderer.on("settingsLocked", (_e, info: { idleMins: number }) => listener(info));
+  },
+};
+
+contextBridge.exposeInMainWorld("drawer", api);
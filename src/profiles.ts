@@ -0,0 +1,103 @@
+import * as crypto from "crypto";
+import { isTransport } from "./transport";
+import type { TransportKind } from "./transport";
+
+// ----------------------------
+// Types
+// ----------------------------
+// One profile per physical drawer. A station can know several (two drawers
+// on one desk, or a laptop that moves between desks); one is its default.
+export type DrawerProfile = {
+  id: string;
+  name: string;
+  transport?: TransportKind;  // how to reach the printer; tcp when absent
+  printerIp: string;       // e.g. 192.168.1.50 or "simulate"
+  printerPort: number;     // usually 9100
+  devicePath?: string;     // device transport: /dev/ttyUSB0, /dev/usb/lp0, \\.\COM3
+  baudRate?: number;       // device transport: serial speed, omit for USB
+  queueName?: string;      // queue transport: OS printer/queue name
+  drawerChannel: 0 | 1;    // try 0 first; some drawers use 1
+  pulseOn: number;         // t1 (0-255) ~ on time (ms-ish)
+  pulseOff: number;        // t2 (0-255) ~ off time
+  statusQuery?: boolean;   // read DLE EOT status after kicks; on unless false
+  openLevel?: "high" | "low";  // sense-switch level that means "open" (default high)
+  hotkey?: string;         // optional Electron accelerator for this drawer only
+};
+
+export type ProfileSet = {
+  profiles: DrawerProfile[];
+  defaultProfileId: string;
+};
+
+export function newProfile(name = "Default", from: Partial<DrawerProfile> = {}): DrawerProfile {
+  return {
+    id: crypto.randomBytes(4).toString("hex"),
+    name,
+    printerIp: "",
+    printerPort: 9100,
+    drawerChannel: 0,
+    pulseOn: 50,
+    pulseOff: 200,
+    ...from,
+  };
+}
+
+// Falls back to the first profile if the default id is stale.
+export function pickProfile(set: ProfileSet, id?: string): DrawerProfile {
+  return (
+    set.profiles.find((p) => p.id === (id ?? set.defaultProfileId)) ??
+    set.profiles.find((p) => p.id === set.defaultProfileId) ??
+    set.profiles[0]
+  );
+}
+
+// ----------------------------
+// Loading & migration
+// ----------------------------
+function sanitizeProfile(p: any): DrawerProfile {
+  return {
+    id: typeof p.id === "string" && p.id ? p.id : crypto.randomBytes(4).toString("hex"),
+    name: String(p.name ?? "").trim() || "Drawer",
+    transport: isTransport(p.transport) ? p.transport : "tcp",
+    printerIp: String(p.printerIp ?? "").trim(),
+    printerPort: Number(p.printerPort) || 9100,
+    devicePath: typeof p.devicePath === "string" && p.devicePath.trim() ? p.devicePath.trim() : undefined,
+    baudRate: Number(p.baudRate) > 0 ? Number(p.baudRate) : undefined,
+    queueName: typeof p.queueName === "string" && p.queueName.trim() ? p.queueName.trim() : undefined,
+    drawerChannel: p.drawerChannel === 1 ? 1 : 0,
+    pulseOn: Number.isFinite(Number(p.pulseOn)) ? Number(p.pulseOn) : 50,
+    pulseOff: Number.isFinite(Number(p.pulseOff)) ? Number(p.pulseOff) : 200,
+    statusQuery: p.statusQuery !== false,
+    openLevel: p.openLevel === "low" ? "low" : "high",
+    hotkey: typeof p.hotkey === "string" && p.hotkey.trim() ? p.hotkey.trim() : undefined,
+  };
+}
+
+// Older configs described a single printer at the top level; that becomes
+// the "Default" profile so existing stations keep working untouched.
+export function loadProfiles(raw: any): ProfileSet & { migrated: boolean } {
+  const set = sanitizeProfileSet(raw);
+  if (set) return { ...set, migrated: false };
+
+  const legacy = raw && (raw.printerIp !== undefined || raw.printerPort !== undefined);
+  const first = sanitizeProfile({
+    ...newProfile("Default"),
+    ...(legacy ? {
+      printerIp: raw.printerIp,
+      printerPort: raw.printerPort,
+      drawerChannel: raw.drawerChannel,
+      pulseOn: raw.pulseOn,
+      pulseOff: raw.pulseOff,
+    } : {}),
+  });
+  return { profiles: [first], defaultProfileId: first.id, migrated: !!legacy };
+}
+
+export function sanitizeProfileSet(input: unknown): ProfileSet | null {
+  const raw = input as any;
+  if (!Array.isArray(raw?.profiles) || !raw.profiles.length) return null;
+  const profiles = raw.profiles.filter((p: unknown) => p && typeof p === "object").map(sanitizeProfile);
+  if (!profiles.length) return null;
+  const set = { profiles, defaultProfileId: String(raw.defaultProfileId ?? "") };
+  return { profiles, defaultProfileId: pickProfile(set).id };
+}
@@ -0,0 +1,76 @@
+import { EscPos } from "./escpos";
+import { formatMoney, formatTime, zReport } from "./shifts";
+import type { Shift } from "./shifts";
+
+// ----------------------------
+// Printed slips
+// ----------------------------
+// What goes on paper besides the kick: a slip for each drawer open (the
+// classic "NO SALE" slip) and the Z report when a shift closes. The admin
+// edits the template in Settings; the layout itself is fixed here.
+export type ReceiptTemplate = {
+  slipOnOpen: boolean;         // print a slip every time the drawer opens
+  zReportOnClose: boolean;     // print the Z report when a shift closes
+  header: string;              // centred at the top, one line per line (e.g. venue name)
+  footer: string;
+  columns: number;             // characters per line: 32 on 58 mm paper, 42 or 48 on 80 mm
+  code: "none" | "barcode" | "qr";  // reference code under the slip, for matching to the audit log
+  cut: boolean;
+};
+
+export type OpenSlip = {
+  drawer: string;
+  user: string;
+  when: Date;
+  reason?: string;             // label as staff picked it
+  amount?: number;             // cents
+  approvedBy?: string;
+  ref: string;
+};
+
+export const RECEIPT_COLUMNS = [32, 42, 48];
+
+export function defaultReceipts(): ReceiptTemplate {
+  return { slipOnOpen: false, zReportOnClose: false, header: "", footer: "", columns: 42, code: "none", cut: true };
+}
+
+export function isReceiptCode(v: unknown): v is ReceiptTemplate["code"] {
+  return v === "none" || v === "barcode" || v === "qr";
+}
+
+function begin(t: ReceiptTemplate) {
+  const doc = new EscPos().align("center");
+  if (t.header.trim()) doc.bold().lines(t.header).bold(false).feed(1);
+  return doc;
+}
+
+function finish(doc: EscPos, t: ReceiptTemplate, ref: string) {
+  doc.align("center");
+  if (t.code === "barcode") doc.feed(1).barcode(ref);
+  else if (t.code === "qr") doc.feed(1).qr(ref);
+  if (t.footer.trim()) doc.feed(1).lines(t.footer);
+  doc.feed(2);
+  if (t.cut) doc.cut();
+  return doc.build();
+}
+
+// "NO SALE — Jamie — 2026-10-18 19:05", then whatever else the open carried.
+export function openSlip(t: ReceiptTemplate, s: OpenSlip): Buffer {
+  const doc = begin(t);
+  const title = (s.reason ?? "No Sale").toUpperCase();
+  doc.bold().line(`${title} — ${s.user} — ${formatTime(s.when)}`).bold(false);
+  doc.align("left").feed(1).columns("Drawer", s.drawer, t.columns);
+  if (s.amount !== undefined) doc.columns("Amount", formatMoney(s.amount), t.columns);
+  if (s.approvedBy) doc.columns("Approved by", s.approvedBy, t.columns);
+  doc.columns("Ref", s.ref, t.columns);
+  return finish(doc, t, s.ref);
+}
+
+export function zReportSlip(t: ReceiptTemplate, shift: Shift): Buffer {
+  const [title, ...body] = zReport(shift, t.columns).trimEnd().split("\n");
+  const doc = begin(t);
+  doc.bold().size(1, 2).line(title).size(1).bold(false);
+  doc.align("left").feed(1);
+  for (const l of body) doc.line(l);
+  return finish(doc, t, `Z-${shift.id}`);
+}
@@ -0,0 +1,45 @@
+// ----------------------------
+// Audit log viewer
+// ----------------------------
+const auditRange = (): AuditRange => ({
+  from: byId("from").value,
+  to: byId("to").value,
+});
+
+const cell = (tr: HTMLTableRowElement, v: unknown, cls?: string) => {
+  const td = document.createElement("td");
+  td.textContent = v === undefined || v === null ? "" : String(v);
+  if (cls) td.className = cls;
+  tr.appendChild(td);
+};
+
+const loadAudit = () => window.auditLog.query(auditRange()).then((res) => {
+  const st = byId<HTMLDivElement>("status");
+  st.className = "status " + (res.integrity.ok ? "ok" : "bad");
+  st.textContent = res.integrity.ok
+    ? "Log intact — " + res.integrity.count + " records verified."
+    : "Integrity check FAILED: " + res.integrity.problem;
+  const body = byId<HTMLTableSectionElement>("rows");
+  body.innerHTML = "";
+  for (const r of res.records.slice().reverse()) {
+    const tr = document.createElement("tr");
+    cell(tr, r.seq);
+    cell(tr, new Date(r.ts).toLocaleString());
+    cell(tr, r.type + (r.scope ? " (" + r.scope + ")" : ""));
+    cell(tr, r.source);
+    cell(tr, r.user);
+    cell(tr, r.ok === undefined ? "" : (r.ok ? "ok" : "failed"), r.ok === false ? "fail" : "");
+    cell(tr, r.detail ? JSON.stringify(r.detail) : "", "detail");
+    body.appendChild(tr);
+  }
+});
+
+byId("filter").onclick = loadAudit;
+byId("export").onclick = () => {
+  window.auditLog.export(auditRange()).then(
+    (res) => { if (res.ok) alert("Exported to " + res.file); else if (res.error) alert("Not exported: " + res.error); },
+    (e) => alert("Not exported: " + errorText(e)),
+  );
+};
+keepSessionAlive(() => window.auditLog.activity());
+loadAudit();
@@ -0,0 +1,89 @@
+// ----------------------------
+// Renderer ↔ main bridge
+// ----------------------------
+// What the preload scripts expose on `window`. Pages never see ipcRenderer
+// or Node; this is the whole surface, and main validates every payload
+// (src/payloads.ts) before acting on it.
+//
+// Global declarations on purpose: renderer pages are plain scripts, not
+// modules, so they can load straight from file:// with no bundler.
+
+type DrawerProfile = import("../profiles").DrawerProfile;
+type UserSummary = import("../users").UserSummary;
+type AuditRecord = import("../audit").AuditRecord;
+type AuditIntegrity = import("../audit").AuditIntegrity;
+type FoundPrinter = import("../discovery").FoundPrinter;
+type KickResult = import("../drawer").KickResult;
+type SettingsPayload = import("../payloads").SettingsPayload;
+type AuditRange = import("../payloads").AuditRange;
+type HotkeyStatus = import("../hotkeys").HotkeyStatus;
+type ManagedSummary = import("../managed").ManagedSummary;
+
+type SettingsView = Omit<SettingsPayload, "api"> & {
+  api: { enabled: boolean; port: number; hasToken: boolean };
+  managed: ManagedSummary | null;   // fields pinned by the managed settings file
+};
+
+type UserResult = { ok: boolean; error?: string };
+
+type AuditExportResult = UserResult & { file?: string };
+
+type ScanResult = { found: FoundPrinter[]; cancelled: boolean; error?: string };
+
+type ScanProgress = { done: number; total: number; found: number };
+
+interface SettingsBridge {
+  platform: string;
+  loadConfig(): Promise<SettingsView>;
+  saveConfig(settings: SettingsPayload): Promise<UserResult>;
+  testOpen(profile: DrawerProfile): Promise<KickResult & { message?: string }>;
+  testSlip(req: { profile: DrawerProfile; receipts: SettingsPayload["receipts"] }): Promise<{ ok: boolean; message?: string }>;
+  rotateApiToken(): Promise<boolean>;
+  setEmulatorFault(fault: string): Promise<UserResult>;
+  hotkeyStatus(): Promise<HotkeyStatus[]>;
+  exportConfig(req: { includeUsers: boolean }): Promise<UserResult>;
+  importConfig(): Promise<UserResult>;
+  scanPrinters(req: { extraPorts: boolean }): Promise<ScanResult>;
+  cancelScan(): Promise<boolean>;
+  onScanProgress(listener: (p: ScanProgress) => void): void;
+  listUsers(): Promise<UserSummary[]>;
+  addUser(req: { name: string; role: string }): Promise<UserResult>;
+  setPin(id: string): Promise<UserResult>;
+  setUserDisabled(req: { id: string; disabled: boolean }): Promise<UserResult>;
+  changeAdminPin(): Promise<boolean>;
+  openAudit(): Promise<boolean>;
+  activity(): void;
+  unlockSettings(): Promise<boolean>;
+  onLocked(listener: (info: { idleMins: number }) => void): void;
+}
+
+// The audit window gets nothing but the log: reading (with its integrity
+// check) and exporting it.
+interface AuditBridge {
+  query(range: AuditRange): Promise<{ integrity: AuditIntegrity; records: AuditRecord[] }>;
+  export(range: AuditRange): Promise<AuditExportResult>;
+  activity(): void;
+}
+
+type PinPadView = import("../pinpad").PinPadView;
+
+type PromptOptions = { title: string; label: string; password?: boolean; keypad?: PinPadView };
+
+interface PromptBridge {
+  options(): Promise<PromptOptions>;
+  answer(value: string | null): void;
+}
+
+type CountOptions = { drawer: string; cashier: string; denominations: number[] };
+
+interface CountBridge {
+  options(): Promise<CountOptions>;
+  submit(count: Record<string, number> | null): void;
+}
+
+interface Window {
+  drawer: SettingsBridge;
+  auditLog: AuditBridge;
+  pinPrompt: PromptBridge;
+  cashCount: CountBridge;
+}
@@ -0,0 +1,53 @@
+// ----------------------------
+// Closing count
+// ----------------------------
+// A blind count: the expected total is only shown after submitting, so it
+// can't steer what gets entered.
+const money = (cents: number) => (cents / 100).toFixed(2);
+let denominations: number[] = [];
+
+const countedTotal = () =>
+  denominations.reduce((sum, d) => sum + d * (intValue("q" + d) || 0), 0);
+
+const refreshCount = () => {
+  for (const d of denominations) byId("a" + d).textContent = money(d * (intValue("q" + d) || 0));
+  byId("total").textContent = money(countedTotal());
+};
+
+window.cashCount.options().then((opts) => {
+  denominations = opts.denominations;
+  byId("heading").textContent = "Count " + opts.drawer + " — " + opts.cashier + "’s shift";
+  const body = byId<HTMLTableSectionElement>("rows");
+  for (const d of denominations) {
+    const tr = document.createElement("tr");
+    const value = document.createElement("td");
+    value.textContent = money(d);
+    const qty = document.createElement("td");
+    const input = document.createElement("input");
+    input.id = "q" + d;
+    input.type = "number";
+    input.min = "0";
+    input.step = "1";
+    input.oninput = refreshCount;
+    qty.appendChild(input);
+    const amount = document.createElement("td");
+    amount.id = "a" + d;
+    amount.className = "num";
+    tr.append(value, qty, amount);
+    body.appendChild(tr);
+  }
+  refreshCount();
+  byId("q" + denominations[0]).focus();
+});
+
+byId("ok").onclick = () => {
+  const count: Record<string, number> = {};
+  for (const d of denominations) {
+    const n = intValue("q" + d) || 0;
+    if (n < 0) { alert("Quantities can’t be negative."); return; }
+    if (n) count[d] = n;
+  }
+  if (!confirm("Close the shift with " + money(countedTotal()) + " counted?")) return;
+  window.cashCount.submit(count);
+};
+byId("cancel").onclick = () => window.cashCount.submit(null);
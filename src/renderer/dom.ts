@@ -0,0 +1,42 @@
+// ----------------------------
+// Shared page helpers
+// ----------------------------
+// Loaded before each page's own script. Pages are plain scripts sharing one
+// global scope, so anything declared at the top level here is visible to
+// all of them (and their names must not clash).
+
+function byId<T extends HTMLElement = HTMLInputElement>(id: string): T {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Missing #${id}`);
+  return el as T;
+}
+
+function intValue(id: string): number {
+  return parseInt(byId(id).value, 10);
+}
+
+// Electron wraps errors thrown in main as
+// "Error invoking remote method 'x': PayloadError: <message>"; staff only
+// need the last part.
+function errorText(e: unknown): string {
+  const msg = e instanceof Error ? e.message : String(e);
+  return msg.replace(/^Error invoking remote method '[^']*': (?:\w*Error: )?/, "");
+}
+
+// Settings and the audit log lock once the admin session sits idle. Typing
+// and clicking count as use even when nothing reaches main; pings are
+// spaced out since main only needs to hear about it now and then.
+function keepSessionAlive(activity: () => void) {
+  let last = 0;
+  const ping = () => {
+    if (Date.now() - last < 15000) return;
+    last = Date.now();
+    activity();
+  };
+  document.addEventListener("keydown", ping);
+  document.addEventListener("pointerdown", ping);
+}
+
+window.addEventListener("unhandledrejection", (e) => {
+  alert(errorText(e.reason));
+});
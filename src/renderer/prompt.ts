@@ -0,0 +1,82 @@
+// ----------------------------
+// PIN / text prompt
+// ----------------------------
+// Title and label arrive as data and only ever go into textContent.
+// PIN prompts on touch stations come with a keypad instead of the field;
+// its key order is picked in main.
+let padDigits: string | null = null;   // null while the text field is in use
+let padLength = 0;
+
+window.pinPrompt.options().then((opts) => {
+  document.title = opts.title;
+  byId("title").textContent = opts.title;
+  byId("label").textContent = opts.label;
+  byId("inp").type = opts.password ? "password" : "text";
+  if (opts.keypad) showKeypad(opts.keypad);
+  else byId("inp").focus();
+});
+
+const submitPrompt = () => window.pinPrompt.answer(padDigits ?? byId("inp").value);
+const cancelPrompt = () => window.pinPrompt.answer(null);
+
+byId("ok").onclick = submitPrompt;
+byId("cancel").onclick = cancelPrompt;
+byId("inp").addEventListener("keydown", (e) => {
+  if (e.key === "Enter") submitPrompt();
+  if (e.key === "Escape") cancelPrompt();
+});
+
+// ----------------------------
+// Keypad
+// ----------------------------
+// Dots only: a fixed length shows empty slots to fill, otherwise one dot
+// per digit pressed.
+const showDots = () => {
+  const n = padDigits?.length ?? 0;
+  byId("dots").textContent = padLength
+    ? "●".repeat(n) + "○".repeat(Math.max(0, padLength - n))
+    : "●".repeat(n) || " ";
+};
+
+const pressKey = (key: string) => {
+  if (padDigits === null) return;
+  if (key === "clear") padDigits = "";
+  else if (key === "back") padDigits = padDigits.slice(0, -1);
+  else if (!padLength || padDigits.length < padLength) padDigits += key;
+  showDots();
+  if (padLength && padDigits.length === padLength) submitPrompt();
+};
+
+const padButton = (text: string, key: string, cls = "") => {
+  const b = document.createElement("button");
+  b.textContent = text;
+  b.className = "key " + cls;
+  b.onclick = () => pressKey(key);
+  return b;
+};
+
+const showKeypad = (pad: PinPadView) => {
+  padDigits = "";
+  padLength = pad.length;
+  document.body.classList.add("keypad");
+  if (pad.fullscreen) document.body.classList.add("fullscreen");
+  byId("inp").hidden = true;
+  byId("pad").hidden = false;
+  // Auto-submit makes OK redundant
+  byId("ok").hidden = pad.length > 0;
+
+  const keys = byId<HTMLDivElement>("keys");
+  pad.keys.slice(0, 9).forEach((k) => keys.appendChild(padButton(k, k)));
+  keys.appendChild(padButton("Clear", "clear", "fn"));
+  keys.appendChild(padButton(pad.keys[9], pad.keys[9]));
+  keys.appendChild(padButton("⌫", "back", "fn"));
+  showDots();
+
+  // A keyboard, where there is one, still works
+  document.addEventListener("keydown", (e) => {
+    if (/^[0-9]$/.test(e.key)) pressKey(e.key);
+    else if (e.key === "Backspace") pressKey("back");
+    else if (e.key === "Enter") submitPrompt();
+    else if (e.key === "Escape") cancelPrompt();
+  });
+};
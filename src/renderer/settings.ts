@@ -0,0 +1,487 @@
+// ----------------------------
+// Settings window
+// ----------------------------
+// Profiles are edited locally and saved together.
+let settings: SettingsView;
+let current = "";
+const currentProfile = () => settings.profiles.find((p) => p.id === current)!;
+
+// Hotkey boxes record a key press rather than take typing, so what's saved
+// is always in Electron's accelerator syntax.
+const KEY_CODES: Record<string, string> = {
+  Space: "Space", Enter: "Enter", Tab: "Tab", Insert: "Insert", Home: "Home", End: "End",
+  PageUp: "PageUp", PageDown: "PageDown", ArrowUp: "Up", ArrowDown: "Down", ArrowLeft: "Left", ArrowRight: "Right",
+  Minus: "-", Equal: "=", BracketLeft: "[", BracketRight: "]", Backslash: "\\", Semicolon: ";", Quote: "'",
+  Comma: ",", Period: ".", Slash: "/", Backquote: "`",
+  NumpadAdd: "numadd", NumpadSubtract: "numsub", NumpadMultiply: "nummult", NumpadDivide: "numdiv", NumpadDecimal: "numdec",
+};
+
+const acceleratorOf = (e: KeyboardEvent) => {
+  const code = e.code;
+  const key = /^Key[A-Z]$/.test(code) ? code.slice(3)
+    : /^Digit\d$/.test(code) ? code.slice(5)
+    : /^Numpad\d$/.test(code) ? "num" + code.slice(6)
+    : /^F\d{1,2}$/.test(code) ? code
+    : KEY_CODES[code];
+  if (!key) return "";
+  const mac = window.drawer.platform === "darwin";
+  const mods: string[] = [];
+  if (mac ? e.metaKey : e.ctrlKey) mods.push("CommandOrControl");
+  if (mac && e.ctrlKey) mods.push("Control");
+  if (!mac && e.metaKey) mods.push("Super");
+  if (e.altKey) mods.push("Alt");
+  if (e.shiftKey) mods.push("Shift");
+  return [...mods, key].join("+");
+};
+
+document.querySelectorAll<HTMLInputElement>("input.hotkey").forEach((input) => {
+  input.readOnly = true;
+  input.onkeydown = (e) => {
+    const bare = !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey;
+    if (e.key === "Tab" && bare) return;
+    e.preventDefault();
+    if ((e.key === "Backspace" || e.key === "Delete") && bare) input.value = "";
+    else if (e.key === "Escape") input.blur();
+    else input.value = acceleratorOf(e) || input.value;
+  };
+});
+
+const showHotkeyStatus = () => {
+  window.drawer.hotkeyStatus().then((list) => {
+    const mode = byId("hkmode").value;
+    const main = list.find((s) => s.id === "openDrawer");
+    byId("hotkeytip").textContent = main && main.state === "registered" ? main.display : "off";
+    const broken = list.filter((s) => s.problem);
+    byId("hkstatus").textContent = mode === "tray_only" ? "Hotkeys are off on this station."
+      : broken.length ? broken.map((s) => "⚠︎ " + s.label + " (" + s.display + ") " + s.problem + ".").join(" ")
+      : list.length ? "All hotkeys are working." : "No hotkeys set.";
+  });
+};
+
+const showTransport = () => {
+  const kind = byId<HTMLSelectElement>("transport").value;
+  document.querySelectorAll<HTMLElement>("[data-transport]").forEach((el) => {
+    el.hidden = el.dataset.transport !== kind;
+  });
+};
+byId("transport").onchange = showTransport;
+
+// Fields the managed settings file can pin, by config path.
+const MANAGED_FIELDS: Record<string, string[]> = {
+  profiles: [
+    "pname", "transport", "ip", "port", "device", "baud", "queue", "channel", "hotkey", "on", "off", "status", "level",
+    "padd", "premove", "scan", "scanports", "found",
+  ],
+  defaultProfileId: ["pdefault"],
+  openAlertSecs: ["openalert"],
+  kickRetries: ["retries"],
+  kickRetryDelayMs: ["retrydelay"],
+  "health.intervalSecs": ["healthsecs"],
+  "health.alerts": ["healthalerts"],
+  adminIdleMins: ["adminidle"],
+  "pinPad.mode": ["padmode"],
+  "pinPad.shuffle": ["padshuffle"],
+  "pinPad.length": ["padlength"],
+  "api.enabled": ["apienabled"],
+  "api.port": ["apiport"],
+  "shifts.enabled": ["shifts"],
+  "policy.requireReason": ["requirereason"],
+  "policy.maxOpensPerHour": ["maxopens"],
+  "policy.reasons": ["reasons"],
+  "policy.overrideReasons": ["overridereasons"],
+  "policy.hours.enabled": ["hoursenabled"],
+  "policy.hours.open": ["hoursopen"],
+  "policy.hours.close": ["hoursclose"],
+  "policy.hours.days": ["hoursdays"],
+  "receipts.slipOnOpen": ["sliponopen"],
+  "receipts.zReportOnClose": ["zprint"],
+  "receipts.columns": ["columns"],
+  "receipts.code": ["receiptcode"],
+  "receipts.header": ["receiptheader"],
+  "receipts.footer": ["receiptfooter"],
+  "receipts.cut": ["receiptcut"],
+  "emulator.enabled": ["emuenabled"],
+  "emulator.port": ["emuport"],
+  "hotkeys.mode": ["hkmode"],
+  "hotkeys.openDrawer": ["hkdrawer"],
+  "hotkeys.openSettings": ["hksettings"],
+};
+
+// Pinned fields are disabled and labelled; everything else is this station's own.
+const showManaged = (m: SettingsView["managed"]) => {
+  const note = byId("managednote");
+  note.hidden = !m;
+  if (!m) return;
+  note.textContent = "🔒 Fields marked Managed are set by " + m.file + " and can’t be changed here. Everything else is this station’s own setting.";
+  for (const [field, ids] of Object.entries(MANAGED_FIELDS)) {
+    if (!m.locked.some((l) => field === l || field.startsWith(l + "."))) continue;
+    for (const id of ids) {
+      const el = byId<HTMLElement>(id);
+      const controls = el.matches("input, select, textarea, button") ? [el] : Array.from(el.querySelectorAll("input"));
+      controls.forEach((c) => { (c as HTMLInputElement).disabled = true; });
+      el.title = "Set by " + m.file;
+      el.closest(".row")?.querySelector("label")?.classList.add("managed");
+    }
+  }
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const lines = (id: string) => byId<HTMLTextAreaElement>(id).value.split("\n").map((l) => l.trim()).filter(Boolean);
+
+const renderPolicy = (p: SettingsView["policy"]) => {
+  byId("requirereason").value = p.requireReason ? "on" : "off";
+  byId("maxopens").value = String(p.maxOpensPerHour);
+  byId<HTMLTextAreaElement>("reasons").value = p.reasons.join("\n");
+  byId<HTMLTextAreaElement>("overridereasons").value = p.overrideReasons.join("\n");
+  byId("hoursenabled").value = p.hours.enabled ? "on" : "off";
+  byId("hoursopen").value = p.hours.open;
+  byId("hoursclose").value = p.hours.close;
+  const box = byId<HTMLDivElement>("hoursdays");
+  box.innerHTML = "";
+  DAY_LABELS.forEach((label, day) => {
+    const l = document.createElement("label");
+    const cb = document.createElement("input");
+    cb.type = "checkbox";
+    cb.value = String(day);
+    cb.checked = p.hours.days.includes(day);
+    l.append(cb, label);
+    box.appendChild(l);
+  });
+};
+
+const renderReceipts = (r: SettingsView["receipts"]) => {
+  byId("sliponopen").value = r.slipOnOpen ? "on" : "off";
+  byId("zprint").value = r.zReportOnClose ? "on" : "off";
+  byId("columns").value = String(r.columns);
+  byId("receiptcode").value = r.code;
+  byId<HTMLTextAreaElement>("receiptheader").value = r.header;
+  byId<HTMLTextAreaElement>("receiptfooter").value = r.footer;
+  byId("receiptcut").value = r.cut ? "on" : "off";
+};
+
+const readReceipts = (): SettingsPayload["receipts"] => ({
+  slipOnOpen: byId("sliponopen").value === "on",
+  zReportOnClose: byId("zprint").value === "on",
+  columns: intValue("columns"),
+  code: byId("receiptcode").value as SettingsPayload["receipts"]["code"],
+  header: byId<HTMLTextAreaElement>("receiptheader").value,
+  footer: byId<HTMLTextAreaElement>("receiptfooter").value,
+  cut: byId("receiptcut").value === "on",
+});
+
+const readPolicy = (): SettingsPayload["policy"] => ({
+  requireReason: byId("requirereason").value === "on",
+  reasons: lines("reasons"),
+  overrideReasons: lines("overridereasons"),
+  maxOpensPerHour: intValue("maxopens") || 0,
+  hours: {
+    enabled: byId("hoursenabled").value === "on",
+    open: byId("hoursopen").value,
+    close: byId("hoursclose").value,
+    days: Array.from(document.querySelectorAll<HTMLInputElement>("#hoursdays input:checked")).map((cb) => Number(cb.value)),
+  },
+});
+
+const renderProfiles = () => {
+  const sel = byId<HTMLSelectElement>("profile");
+  sel.innerHTML = "";
+  for (const p of settings.profiles) {
+    const opt = document.createElement("option");
+    opt.value = p.id;
+    opt.textContent = p.name + (p.id === settings.defaultProfileId ? " (default)" : "");
+    sel.appendChild(opt);
+  }
+  sel.value = current;
+  const p = currentProfile();
+  byId("pname").value = p.name || "";
+  byId("transport").value = p.transport || "tcp";
+  byId("ip").value = p.printerIp || "";
+  byId("port").value = String(p.printerPort || 9100);
+  byId("device").value = p.devicePath || "";
+  byId("baud").value = p.baudRate ? String(p.baudRate) : "";
+  byId("queue").value = p.queueName || "";
+  byId("channel").value = String(p.drawerChannel || 0);
+  byId("hotkey").value = p.hotkey || "";
+  byId("on").value = String(p.pulseOn ?? 50);
+  byId("off").value = String(p.pulseOff ?? 200);
+  byId("status").value = p.statusQuery === false ? "off" : "on";
+  byId("level").value = p.openLevel || "high";
+  showTransport();
+};
+
+window.drawer.loadConfig().then((cfg) => {
+  settings = cfg;
+  current = cfg.defaultProfileId;
+  byId("openalert").value = String(cfg.openAlertSecs);
+  byId("retries").value = String(cfg.kickRetries);
+  byId("retrydelay").value = String(cfg.kickRetryDelayMs);
+  byId("healthsecs").value = String(cfg.health.intervalSecs);
+  byId("healthalerts").value = cfg.health.alerts ? "on" : "off";
+  byId("adminidle").value = String(cfg.adminIdleMins);
+  byId("padmode").value = cfg.pinPad.mode;
+  byId("padshuffle").value = cfg.pinPad.shuffle ? "on" : "off";
+  byId("padlength").value = String(cfg.pinPad.length);
+  byId("apienabled").value = cfg.api.enabled ? "on" : "off";
+  byId("apiport").value = String(cfg.api.port);
+  byId("shifts").value = cfg.shifts.enabled ? "on" : "off";
+  renderPolicy(cfg.policy);
+  renderReceipts(cfg.receipts);
+  byId("emuenabled").value = cfg.emulator.enabled ? "on" : "off";
+  byId("emuport").value = String(cfg.emulator.port);
+  byId("hkmode").value = cfg.hotkeys.mode;
+  byId("hkdrawer").value = cfg.hotkeys.openDrawer;
+  byId("hksettings").value = cfg.hotkeys.openSettings;
+  showHotkeyStatus();
+  showManaged(cfg.managed);
+  byId("apitokenstate").textContent = cfg.api.hasToken ? "Token set." : "No token yet.";
+  renderProfiles();
+});
+
+const readProfile = (): DrawerProfile => ({
+  ...currentProfile(),
+  name: byId("pname").value.trim(),
+  transport: byId("transport").value as DrawerProfile["transport"],
+  printerIp: byId("ip").value.trim(),
+  printerPort: intValue("port"),
+  devicePath: byId("device").value.trim(),
+  baudRate: intValue("baud") || undefined,
+  queueName: byId("queue").value.trim(),
+  drawerChannel: intValue("channel") === 1 ? 1 : 0,
+  hotkey: byId("hotkey").value.trim(),
+  pulseOn: intValue("on"),
+  pulseOff: intValue("off"),
+  statusQuery: byId("status").value === "on",
+  openLevel: byId("level").value === "low" ? "low" : "high",
+});
+const commitProfile = () => {
+  const p = readProfile();
+  settings.profiles = settings.profiles.map((x) => (x.id === p.id ? p : x));
+};
+
+byId("profile").onchange = (e) => {
+  commitProfile();
+  current = (e.target as HTMLSelectElement).value;
+  renderProfiles();
+};
+byId("padd").onclick = () => {
+  commitProfile();
+  const p: DrawerProfile = {
+    id: "p" + Date.now().toString(36),
+    name: "Drawer " + (settings.profiles.length + 1),
+    transport: "tcp", printerIp: "", printerPort: 9100, drawerChannel: 0, pulseOn: 50, pulseOff: 200,
+  };
+  settings.profiles.push(p);
+  current = p.id;
+  renderProfiles();
+};
+byId("pdefault").onclick = () => {
+  commitProfile();
+  settings.defaultProfileId = current;
+  renderProfiles();
+};
+byId("premove").onclick = () => {
+  if (settings.profiles.length < 2) { alert("At least one drawer is required."); return; }
+  if (!confirm('Remove "' + currentProfile().name + '"?')) return;
+  settings.profiles = settings.profiles.filter((p) => p.id !== current);
+  if (settings.defaultProfileId === current) settings.defaultProfileId = settings.profiles[0].id;
+  current = settings.defaultProfileId;
+  renderProfiles();
+};
+
+byId("save").onclick = () => {
+  commitProfile();
+  const payload: SettingsPayload = {
+    profiles: settings.profiles,
+    defaultProfileId: settings.defaultProfileId,
+    openAlertSecs: intValue("openalert") || 0,
+    kickRetries: intValue("retries") || 0,
+    kickRetryDelayMs: intValue("retrydelay") || 0,
+    api: {
+      enabled: byId("apienabled").value === "on",
+      port: intValue("apiport"),
+    },
+    shifts: { enabled: byId("shifts").value === "on" },
+    policy: readPolicy(),
+    receipts: readReceipts(),
+    emulator: {
+      enabled: byId("emuenabled").value === "on",
+      port: intValue("emuport"),
+    },
+    hotkeys: {
+      mode: byId("hkmode").value as SettingsPayload["hotkeys"]["mode"],
+      openDrawer: byId("hkdrawer").value,
+      openSettings: byId("hksettings").value,
+    },
+    health: {
+      intervalSecs: intValue("healthsecs") || 0,
+      alerts: byId("healthalerts").value === "on",
+    },
+    adminIdleMins: intValue("adminidle") || 0,
+    pinPad: {
+      mode: byId("padmode").value as SettingsPayload["pinPad"]["mode"],
+      shuffle: byId("padshuffle").value === "on",
+      length: intValue("padlength") || 0,
+    },
+  };
+  window.drawer.saveConfig(payload).then(
+    (res) => {
+      showHotkeyStatus();
+      if (res.ok) alert("Saved.");
+      else if (res.error) alert("Not saved: " + res.error);
+    },
+    (e) => alert("Not saved: " + errorText(e)),
+  );
+};
+
+// Network scan: results fill in IP and port when picked
+let scanning = false;
+window.drawer.onScanProgress((p) => {
+  byId("scanstate").textContent = "Scanning… " + p.done + " of " + p.total + " checked, " + p.found + " found.";
+});
+byId("scan").onclick = () => {
+  if (scanning) { window.drawer.cancelScan(); return; }
+  scanning = true;
+  const btn = byId<HTMLButtonElement>("scan");
+  const list = byId<HTMLSelectElement>("found");
+  btn.textContent = "Cancel Scan";
+  list.hidden = true;
+  window.drawer.scanPrinters({ extraPorts: byId("scanports").value === "all" }).then((res) => {
+    scanning = false;
+    btn.textContent = "Scan Network";
+    list.innerHTML = "";
+    for (const f of res.found) {
+      const opt = document.createElement("option");
+      opt.value = f.host + ":" + f.port;
+      opt.textContent = f.host + ":" + f.port + (f.name ? "  (" + f.name + ")" : "") + "  " + f.ms + " ms";
+      list.appendChild(opt);
+    }
+    list.hidden = !res.found.length;
+    byId("scanstate").textContent = res.error ? res.error
+      : (res.cancelled ? "Scan cancelled. " : "") +
+        (res.found.length ? "Pick a printer to use it." : "No printers found. Check the printer is on and on the same network.");
+  });
+};
+byId("found").onchange = (e) => {
+  const [ip, port] = (e.target as HTMLSelectElement).value.split(":");
+  byId("ip").value = ip;
+  byId("port").value = port;
+};
+
+byId("test").onclick = () => {
+  window.drawer.testOpen(readProfile()).then((res) => {
+    const tries = res.attempts > 1 ? " after " + res.attempts + " attempts" : "";
+    if (res.ok) alert((res.drawer === "open" ? "Drawer opened (confirmed by printer)" : "Drawer opened") + tries + " in " + res.elapsedMs + " ms.");
+    else alert("Failed to open drawer" + tries + ".\n\n" + res.message);
+  });
+};
+
+byId("emuuse").onclick = () => {
+  byId("transport").value = "tcp";
+  byId("ip").value = "127.0.0.1";
+  byId("port").value = byId("emuport").value;
+  showTransport();
+  if (byId("emuenabled").value !== "on") alert("Turn the emulator on and save for this to work.");
+};
+byId("emufault").onchange = () => {
+  window.drawer.setEmulatorFault(byId("emufault").value).then((res) => {
+    if (!res.ok) {
+      byId("emufault").value = "none";
+      if (res.error) alert(res.error);
+    }
+  });
+};
+
+byId("testslip").onclick = () => {
+  window.drawer.testSlip({ profile: readProfile(), receipts: readReceipts() }).then((res) => {
+    alert(res.ok ? "Test slip sent to the printer." : "Couldn’t print.\n\n" + res.message);
+  });
+};
+
+// ----------------------------
+// Users
+// ----------------------------
+const button = (label: string, cls: string, onclick: () => void) => {
+  const b = document.createElement("button");
+  b.className = "btn " + cls;
+  b.textContent = label;
+  b.onclick = onclick;
+  return b;
+};
+const report = (res: UserResult, done?: string) => {
+  if (res.ok) { if (done) alert(done); }
+  else if (res.error) alert(res.error);
+  renderUsers();
+};
+const renderUsers = () => window.drawer.listUsers().then((users) => {
+  const box = byId<HTMLDivElement>("users");
+  box.innerHTML = "";
+  for (const u of users) {
+    const row = document.createElement("div");
+    row.className = "user-row" + (u.disabled ? " off" : "");
+    const who = document.createElement("span");
+    who.textContent = u.name + (u.disabled ? " (disabled)" : "");
+    const role = document.createElement("span");
+    role.className = "role";
+    role.textContent = u.role;
+    who.appendChild(role);
+    const acts = document.createElement("span");
+    acts.appendChild(button("Reset PIN", "btn-secondary", () =>
+      window.drawer.setPin(u.id).then((res) => report(res, "PIN updated."))));
+    acts.appendChild(document.createTextNode(" "));
+    acts.appendChild(button(u.disabled ? "Enable" : "Disable", u.disabled ? "btn-secondary" : "btn-danger", () =>
+      window.drawer.setUserDisabled({ id: u.id, disabled: !u.disabled }).then((res) => report(res))));
+    row.appendChild(who);
+    row.appendChild(acts);
+    box.appendChild(row);
+  }
+});
+renderUsers();
+
+byId("adduser").onclick = () => {
+  const req = { name: byId("uname").value, role: byId("urole").value };
+  window.drawer.addUser(req).then((res) => {
+    if (res.ok) byId("uname").value = "";
+    report(res, "User added.");
+  });
+};
+byId("changeAdmin").onclick = () => {
+  window.drawer.changeAdminPin();
+};
+byId("apitoken").onclick = () => {
+  window.drawer.rotateApiToken().then((ok) => {
+    if (ok) byId("apitokenstate").textContent = "Token set.";
+  });
+};
+byId("audit").onclick = () => {
+  window.drawer.openAudit();
+};
+
+byId("xexport").onclick = () => {
+  window.drawer.exportConfig({ includeUsers: byId("xusers").value === "on" }).then(
+    (res) => { if (res.ok) alert("Settings exported."); else if (res.error) alert(res.error); },
+    (e) => alert("Not exported: " + errorText(e)),
+  );
+};
+byId("ximport").onclick = () => {
+  window.drawer.importConfig().then(
+    (res) => {
+      if (res.ok) { alert("Settings imported."); location.reload(); }
+      else if (res.error) alert("Not imported: " + res.error);
+    },
+    (e) => alert("Not imported: " + errorText(e)),
+  );
+};
+
+// Idle admin session: main has locked every Settings call until a PIN is
+// entered again. Edits on the page stay put underneath.
+keepSessionAlive(() => window.drawer.activity());
+window.drawer.onLocked((info) => {
+  byId("lockmsg").textContent = "Nobody used Settings for " + info.idleMins + " minutes. Enter an admin PIN to carry on.";
+  byId("lockscreen").hidden = false;
+});
+byId("unlock").onclick = () => {
+  window.drawer.unlockSettings().then((ok) => {
+    if (ok) byId("lockscreen").hidden = true;
+  });
+};
+byId("lockclose").onclick = () => window.close();
@@ -0,0 +1,79 @@
+// ----------------------------
+// Admin sessions
+// ----------------------------
+// Passing the admin PIN opens Settings for a session that lasts while it's
+// in use. Once it's been idle for idleMs it locks, and main refuses every
+// Settings call until an admin PIN is entered again. `now` is injectable
+// so tests don't have to wait.
+export type SessionUser = { id: string; name: string };
+
+export type AdminSessionOptions = {
+  idleMs: number;
+  onLock?(user: SessionUser): void;   // called once per lock, idle or not
+  now?(): number;
+};
+
+export interface AdminSession {
+  readonly user: SessionUser;         // whoever unlocked it last
+  live(): boolean;                    // unlocked and used within idleMs
+  touch(): void;                      // counts as use; does nothing once locked
+  lock(): void;
+  unlock(user: SessionUser): void;
+  setIdle(ms: number): void;
+  end(): void;                        // window closed; locks without onLock
+}
+
+export const ADMIN_IDLE_MIN_MINS = 1;
+export const ADMIN_IDLE_MAX_MINS = 120;
+export const ADMIN_IDLE_DEFAULT_MINS = 5;
+
+export function startAdminSession(first: SessionUser, opts: AdminSessionOptions): AdminSession {
+  const now = opts.now ?? Date.now;
+  let user = first;
+  let idleMs = opts.idleMs;
+  let lastUsed = now();
+  let locked = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  // One timer, pushed back to the new deadline when it fires early
+  function schedule() {
+    clearTimeout(timer);
+    if (locked) return;
+    timer = setTimeout(() => {
+      if (now() - lastUsed >= idleMs) session.lock();
+      else schedule();
+    }, Math.max(0, lastUsed + idleMs - now()));
+    timer.unref?.();
+  }
+
+  const session: AdminSession = {
+    get user() { return user; },
+    live: () => !locked && now() - lastUsed < idleMs,
+    touch() {
+      if (!session.live()) return;
+      lastUsed = now();
+    },
+    lock() {
+      if (locked) return;
+      locked = true;
+      clearTimeout(timer);
+      opts.onLock?.(user);
+    },
+    unlock(next) {
+      user = next;
+      locked = false;
+      lastUsed = now();
+      schedule();
+    },
+    setIdle(ms) {
+      idleMs = ms;
+      schedule();
+    },
+    end() {
+      locked = true;
+      clearTimeout(timer);
+    },
+  };
+  schedule();
+  return session;
+}
@@ -0,0 +1,273 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { writeFileAtomic } from "./files";
+
+// ----------------------------
+// Types
+// ----------------------------
+// A shift is one cashier's stint on one drawer: it opens with a counted
+// float, every drawer open during it is tagged with why, and it closes with
+// a denomination count compared against what should be there.
+//
+// Money is kept in integer cents throughout; only formatMoney/parseMoney
+// deal in decimals.
+export type OpenReason = "sale" | "change" | "payout" | "no_sale";
+
+export type ShiftOpen = {
+  ts: string;                  // ISO-8601
+  reason: OpenReason;
+  amount?: number;             // cents; cash in for a sale, cash out for a payout
+  user?: string;
+  source: string;              // hotkey | tray | api
+};
+
+export type DenominationCount = Record<string, number>;   // cents value → quantity
+
+export type Shift = {
+  id: string;
+  profileId: string;
+  drawer: string;              // drawer name when the shift opened
+  openedAt: string;
+  openedBy: string;
+  openedById: string;
+  float: number;               // cents counted in at the start
+  opens: ShiftOpen[];
+  closedAt?: string;
+  closedBy?: string;
+  forced?: boolean;            // closed by a manager rather than the cashier
+  count?: DenominationCount;
+  counted?: number;            // cents
+  expected?: number;           // cents
+};
+
+export type ShiftStore = { shifts: Shift[] };
+
+export class ShiftsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShiftsError";
+  }
+}
+
+export type ShiftTotals = {
+  float: number;
+  sales: number;
+  salesCount: number;
+  payouts: number;
+  payoutsCount: number;
+  changeCount: number;
+  noSaleCount: number;
+  expected: number;
+};
+
+export const OPEN_REASONS: { id: OpenReason; label: string; amount: "in" | "out" | null }[] = [
+  { id: "sale", label: "Sale", amount: "in" },
+  { id: "change", label: "Change", amount: null },
+  { id: "payout", label: "Payout", amount: "out" },
+  { id: "no_sale", label: "No Sale", amount: null },
+];
+
+// US notes and coins, largest first, in cents.
+export const DENOMINATIONS = [10000, 5000, 2000, 1000, 500, 200, 100, 50, 25, 10, 5, 1];
+
+export function isOpenReason(v: unknown): v is OpenReason {
+  return OPEN_REASONS.some((r) => r.id === v);
+}
+
+// ----------------------------
+// Money
+// ----------------------------
+// "12", "12.5", "$1,234.56" → cents. Null for anything else.
+export function parseMoney(text: string): number | null {
+  const t = text.trim().replace(/^\$/, "").replace(/,/g, "");
+  if (!/^\d+(\.\d{1,2})?$/.test(t)) return null;
+  const [whole, frac = ""] = t.split(".");
+  return Number(whole) * 100 + Number(frac.padEnd(2, "0"));
+}
+
+export function formatMoney(cents: number) {
+  const sign = cents < 0 ? "-" : "";
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+// "2026-10-18 19:05", local time. Fixed rather than locale-formatted so
+// reports read the same on every station and fit narrow receipts.
+export function formatTime(d: Date, withDate = true) {
+  const two = (n: number) => String(n).padStart(2, "0");
+  const time = `${two(d.getHours())}:${two(d.getMinutes())}`;
+  return withDate ? `${d.getFullYear()}-${two(d.getMonth() + 1)}-${two(d.getDate())} ${time}` : time;
+}
+
+// ----------------------------
+// Store
+// ----------------------------
+function parseShifts(file: string): ShiftStore {
+  let raw;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new ShiftsError(`${file} is damaged: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.shifts)) {
+    throw new ShiftsError(`${file} does not contain cash shifts.`);
+  }
+  return { shifts: raw.shifts };
+}
+
+function shiftsBackupPath(file: string) {
+  return file + ".bak";
+}
+
+// No file yet means no shifts. A file that can't be read throws ShiftsError
+// rather than starting again from none, which would drop open shifts and
+// what they took in.
+export function loadShifts(file: string): ShiftStore {
+  if (!fs.existsSync(file)) return { shifts: [] };
+  return parseShifts(file);
+}
+
+// Crash-safe; the file being replaced is kept as .bak.
+export function saveShifts(file: string, store: ShiftStore) {
+  writeFileAtomic(file, JSON.stringify(store, null, 2), shiftsBackupPath(file));
+}
+
+export function hasUsableShiftsBackup(file: string) {
+  try {
+    return fs.existsSync(shiftsBackupPath(file)) && !!parseShifts(shiftsBackupPath(file));
+  } catch {
+    return false;
+  }
+}
+
+// Same as restoreBackup for settings: the damaged file is moved aside first.
+export function restoreShiftsBackup(file: string, now = new Date()): ShiftStore {
+  const store = parseShifts(shiftsBackupPath(file));
+  if (fs.existsSync(file)) {
+    fs.renameSync(file, `${file}.damaged-${now.toISOString().replace(/[:.]/g, "-")}`);
+  }
+  saveShifts(file, store);
+  return store;
+}
+
+export function currentShift(store: ShiftStore, profileId: string): Shift | undefined {
+  return store.shifts.find((s) => s.profileId === profileId && !s.closedAt);
+}
+
+export function openShift(
+  store: ShiftStore,
+  profile: { id: string; name: string },
+  user: { id: string; name: string },
+  float: number,
+  now = new Date(),
+): Shift {
+  if (currentShift(store, profile.id)) throw new Error(`A shift is already open on ${profile.name}.`);
+  const shift: Shift = {
+    id: crypto.randomBytes(4).toString("hex"),
+    profileId: profile.id,
+    drawer: profile.name,
+    openedAt: now.toISOString(),
+    openedBy: user.name,
+    openedById: user.id,
+    float,
+    opens: [],
+  };
+  store.shifts.push(shift);
+  return shift;
+}
+
+export function recordOpen(shift: Shift, entry: Omit<ShiftOpen, "ts">, now = new Date()): ShiftOpen {
+  const open: ShiftOpen = { ts: now.toISOString(), ...entry };
+  shift.opens.push(open);
+  return open;
+}
+
+export function countTotal(count: DenominationCount) {
+  return Object.entries(count).reduce((sum, [value, qty]) => sum + Number(value) * qty, 0);
+}
+
+export function shiftTotals(shift: Shift): ShiftTotals {
+  const of = (r: OpenReason) => shift.opens.filter((o) => o.reason === r);
+  const sum = (list: ShiftOpen[]) => list.reduce((n, o) => n + (o.amount ?? 0), 0);
+  const sales = sum(of("sale"));
+  const payouts = sum(of("payout"));
+  return {
+    float: shift.float,
+    sales,
+    salesCount: of("sale").length,
+    payouts,
+    payoutsCount: of("payout").length,
+    changeCount: of("change").length,
+    noSaleCount: of("no_sale").length,
+    expected: shift.float + sales - payouts,
+  };
+}
+
+export function closeShift(
+  shift: Shift,
+  count: DenominationCount,
+  user: string,
+  forced: boolean,
+  now = new Date(),
+): Shift {
+  shift.closedAt = now.toISOString();
+  shift.closedBy = user;
+  shift.forced = forced || undefined;
+  shift.count = count;
+  shift.counted = countTotal(count);
+  shift.expected = shiftTotals(shift).expected;
+  return shift;
+}
+
+// ----------------------------
+// Z report
+// ----------------------------
+// Plain text, 40 columns by default: reads fine on screen, in a text file
+// or on an 80 mm receipt. Printed copies pass the paper's width.
+export function zReport(shift: Shift, W = 40): string {
+  const t = shiftTotals(shift);
+  const line = (left: string, right = "") => (right ? left + right.padStart(Math.max(1, W - left.length)) : left);
+  const rule = "-".repeat(W);
+  const when = (iso?: string) => (iso ? formatTime(new Date(iso)) : "—");
+  const counted = shift.counted ?? 0;
+  const diff = counted - t.expected;
+
+  const out = [
+    `Z REPORT — ${shift.drawer}`,
+    line("Shift", shift.id),
+    line("Opened", when(shift.openedAt)),
+    line("  by", shift.openedBy),
+    line("Closed", when(shift.closedAt)),
+    line("  by", (shift.closedBy ?? "—") + (shift.forced ? " (forced)" : "")),
+    rule,
+    line("Starting float", formatMoney(t.float)),
+    line(`Sales (${t.salesCount})`, formatMoney(t.sales)),
+    line(`Payouts (${t.payoutsCount})`, formatMoney(-t.payouts)),
+    line(`Change (${t.changeCount})`),
+    line(`No sale (${t.noSaleCount})`),
+    rule,
+    line("Expected in drawer", formatMoney(t.expected)),
+    line("Counted", formatMoney(counted)),
+    line(diff === 0 ? "Balanced" : diff > 0 ? "OVER" : "SHORT", formatMoney(diff)),
+    rule,
+    "Count",
+  ];
+  for (const d of DENOMINATIONS) {
+    const qty = shift.count?.[d] ?? 0;
+    if (qty) out.push(line(`  ${formatMoney(d)} x ${qty}`, formatMoney(d * qty)));
+  }
+  out.push(rule, "Drawer opens");
+  for (const o of shift.opens) {
+    const time = formatTime(new Date(o.ts), false);
+    const label = OPEN_REASONS.find((r) => r.id === o.reason)?.label ?? o.reason;
+    out.push(line(`  ${time} ${label}${o.user ? " " + o.user : ""}`, o.amount !== undefined ? formatMoney(o.amount) : ""));
+  }
+  if (!shift.opens.length) out.push("  (none)");
+  return out.join("\n") + "\n";
+}
+
+export function zReportFileName(shift: Shift) {
+  const day = (shift.closedAt ?? shift.openedAt).slice(0, 10);
+  const safe = shift.drawer.replace(/[^\w-]+/g, "_");
+  return `Z-${day}-${safe}-${shift.id}.txt`;
+}
@@ -0,0 +1,803 @@
+import * as path from "path";
+import { appendAudit, diffConfig, readAudit, readAuditSince } from "./audit";
+import type { AuditInput, AuditRecord } from "./audit";
+import { ConfigError, readConfigFile, redactConfig, writeConfigFile } from "./config";
+import type { Config, ConfigChanges } from "./config";
+import { ManagedPolicyError, applyManaged, managedPolicyPath, readManagedPolicy, withoutManaged } from "./managed";
+import type { ManagedPolicy } from "./managed";
+import { activeUsers, findUserByPin, hasRole, newUser } from "./users";
+import type { Role, User } from "./users";
+import { hashPin, needsRehash, verifyPin } from "./pins";
+import { formatWait, loadLockout, lockedFor, recordFailure, recordSuccess, saveLockout } from "./lockout";
+import type { LockoutState } from "./lockout";
+import { pickProfile, sanitizeProfileSet } from "./profiles";
+import type { DrawerProfile } from "./profiles";
+import { isConfigured, openLink } from "./transport";
+import type { LinkOpener } from "./transport";
+import { describeKickFailure, kickDetail, kickDrawer } from "./drawer";
+import type { KickErrorCategory, KickResult } from "./drawer";
+import { HOUR_MS, effectivePolicy, evaluatePolicy, opensInLastHour, reasonChoices } from "./policy";
+import type { PolicyDecision, PolicyRequest, PolicyRule } from "./policy";
+import {
+  OPEN_REASONS,
+  ShiftsError,
+  currentShift,
+  formatMoney,
+  isOpenReason,
+  loadShifts,
+  openShift,
+  parseMoney,
+  recordOpen,
+  saveShifts,
+} from "./shifts";
+import type { OpenReason, ShiftOpen, ShiftStore } from "./shifts";
+import { openSlip } from "./receipts";
+import { pinPadView, pinRuleProblem, pinRuleTightened } from "./pinpad";
+import type { PinPadSettings, PinPadView } from "./pinpad";
+import type { SettingsPayload } from "./payloads";
+import type { ApiOpenRequest } from "./api";
+
+// ----------------------------
+// Station flows
+// ----------------------------
+// What happens when someone opens the drawer, types a PIN or saves Settings,
+// without Electron. Everything the flows touch comes in through StationDeps:
+// the UI (PIN prompts, dialogs), storage, the clock and the printer
+// connection. main.ts passes in windows, dialogs and the user-data folder;
+// tests pass in scripted answers, a temp folder and fake printers.
+export type KickSource = "hotkey" | "tray" | "test" | "api" | "cli";
+
+export type KickContext = {
+  reason?: string;
+  cashierId?: string;
+  amount?: number;
+  rule?: PolicyRule;
+  approvedBy?: string;
+  slipRef?: string;   // reference printed on the open slip
+};
+
+export type PromptOptions = { title: string; label: string; password?: boolean; keypad?: PinPadView };
+
+export type ChoiceOptions = {
+  type?: "question" | "info" | "warning";
+  message: string;
+  detail?: string;
+  buttons: string[];
+  defaultId?: number;
+  cancelId: number;
+};
+
+export interface StationUi {
+  prompt(opts: PromptOptions): Promise<string | null>;   // null = cancelled
+  choose(opts: ChoiceOptions): Promise<number>;           // index of the button pressed
+  error(title: string, message: string): void;
+  info(message: string): void;
+  // A PIN turned away without an error box (wrong, or not allowed here).
+  // The tray's prompt just closes; the command line exits with it.
+  denied?(message: string): void;
+}
+
+// The user-data folder, behind an interface so tests can count writes or
+// fail them. fileStore below is the real one.
+export interface StationStore {
+  readConfig(): { config: Config; changes: ConfigChanges };   // throws ConfigError
+  writeConfig(cfg: Config): void;
+  readManagedPolicy(): ManagedPolicy | null;                  // throws ManagedPolicyError
+  appendAudit(input: AuditInput, now: Date): void;
+  readAudit(): AuditRecord[];
+  readAuditSince(since: Date): AuditRecord[];                 // newest records only, without reading the whole log
+  readLockout(): LockoutState;
+  writeLockout(state: LockoutState): void;
+  readShifts(): ShiftStore;                                   // throws ShiftsError
+  writeShifts(store: ShiftStore): void;
+}
+
+export type Clock = { now(): Date };
+
+export type KickEvent = { profile: DrawerProfile; source: KickSource; who?: string; ctx: KickContext; result: KickResult };
+
+// For the tray, the API's event stream and the health monitor.
+export type StationEvents = {
+  kicked?(e: KickEvent): void;
+  shiftsChanged?(): void;
+  auditFailed?(message: string): void;   // once, until a write works again
+};
+
+export type StationDeps = {
+  ui: StationUi;
+  store: StationStore;
+  clock?: Clock;
+  connect?: LinkOpener;
+  events?: StationEvents;
+  // Settings or cash shifts that can't be trusted. The app refuses to run
+  // (and never returns); without this the error is thrown to the caller.
+  onBrokenConfig?(e: ConfigError | ManagedPolicyError | ShiftsError): never;
+};
+
+export type UserResult = { ok: boolean; error?: string };
+
+export type SaveResult = UserResult & { saved?: Config };
+
+// `rule` asks for the PIN under a keypad rule that isn't in force yet.
+export type PinRequest = { title: string; label: string; rule?: PinPadSettings };
+
+export type ApiOpenResult = { ok: boolean; status: number; body: unknown };
+
+export interface Station {
+  loadConfig(): Config;           // with managed values applied
+  loadLocalConfig(): Config;      // this station's own file
+  saveConfig(cfg: Config): void;
+  managedPolicy(): ManagedPolicy | null;
+  lockedFields(): string[];
+  audit(input: AuditInput): void;
+  readShifts(): ShiftStore;
+  writeShifts(shifts: ShiftStore): void;   // throws if the file can't be written
+
+  identifyUser(cfg: Config, scope: "staff" | "admin", min: Role, prompt: PinRequest): Promise<User | null>;
+  verifyAdminOrSet(cfg: Config): Promise<User | null>;
+  verifyPinOrSet(cfg: Config): Promise<User | null>;
+  changeAdminPin(cfg: Config): Promise<boolean>;
+  addUser(cfg: Config, name: string, role: Role): Promise<UserResult>;
+  setPin(cfg: Config, id: string): Promise<UserResult>;
+  setUserDisabled(cfg: Config, id: string, disabled: boolean): Promise<UserResult>;
+
+  openDrawer(cfg: Config, source: KickSource, profileId?: string): Promise<KickResult | null>;
+  kickAndRecord(profile: DrawerProfile, source: KickSource, who?: string, ctx?: KickContext): Promise<KickResult>;
+  apiOpenDrawer(req: ApiOpenRequest): Promise<ApiOpenResult>;
+  openShift(profile: DrawerProfile, user: User): Promise<boolean>;
+
+  saveSettings(req: SettingsPayload, who?: string): Promise<SaveResult>;
+}
+
+export const KICK_TIMEOUT_MS = 3000;
+
+export const FAILURE_TITLES: Record<KickErrorCategory, string> = {
+  not_configured: "Not Configured",
+  dns: "Printer Not Found",
+  refused: "Printer Busy or Refused",
+  timeout: "Printer Not Responding",
+  unreachable: "Printer Unreachable",
+  device: "Printer Port Unavailable",
+  write: "Printer Error",
+  drawer_closed: "Drawer Didn't Open",
+};
+
+// The files in one folder: the app's user-data folder, the CLI's
+// --data-dir, or a temp folder in tests.
+export function fileStore(dir: string, managedFile = managedPolicyPath()): StationStore {
+  const file = (name: string) => path.join(dir, name);
+  return {
+    readConfig: () => readConfigFile(file("config.json")),
+    writeConfig: (cfg) => writeConfigFile(file("config.json"), cfg),
+    readManagedPolicy: () => readManagedPolicy(managedFile),
+    appendAudit: (input, now) => { appendAudit(file("audit.log"), input, now); },
+    readAudit: () => readAudit(file("audit.log")),
+    readAuditSince: (since) => readAuditSince(file("audit.log"), since),
+    readLockout: () => loadLockout(file("lockout.json")),
+    writeLockout: (state) => saveLockout(file("lockout.json"), state),
+    readShifts: () => loadShifts(file("shifts.json")),
+    writeShifts: (store) => saveShifts(file("shifts.json"), store),
+  };
+}
+
+export function createStation(deps: StationDeps): Station {
+  const { ui, store } = deps;
+  const clock = deps.clock ?? { now: () => new Date() };
+  const connect = deps.connect ?? openLink;
+  const events = deps.events ?? {};
+
+  // ----------------------------
+  // Config
+  // ----------------------------
+  // Fails closed: a settings file that exists but can't be trusted stops
+  // the app rather than falling back to defaults (which have no admin).
+  // What callers get is the station's settings with any managed values applied.
+  function refuse(e: unknown): never {
+    const broken = e instanceof ConfigError || e instanceof ManagedPolicyError || e instanceof ShiftsError;
+    if (broken && deps.onBrokenConfig) deps.onBrokenConfig(e);
+    throw e;
+  }
+
+  function loadLocalConfig(): Config {
+    try {
+      const { config, changes } = store.readConfig();
+      if (Object.keys(changes).length) {
+        audit({ type: "config_changed", source: "migration", detail: changes });
+      }
+      return config;
+    } catch (e) {
+      return refuse(e);
+    }
+  }
+
+  // Read on every load, so a policy IT pushes out applies without a restart.
+  function managedPolicy(): ManagedPolicy | null {
+    try {
+      return store.readManagedPolicy();
+    } catch (e) {
+      return refuse(e);
+    }
+  }
+
+  function loadConfig(): Config {
+    return applyManaged(loadLocalConfig(), managedPolicy());
+  }
+
+  // Same for shifts: a damaged file isn't taken as "no shifts open".
+  function readShifts(): ShiftStore {
+    try {
+      return store.readShifts();
+    } catch (e) {
+      return refuse(e);
+    }
+  }
+
+  // Managed fields are never written to config.json; they keep the station's own value.
+  function saveConfig(cfg: Config) {
+    store.writeConfig(withoutManaged(cfg, loadLocalConfig(), managedPolicy()));
+  }
+
+  // Never let a logging problem block the drawer; report it and carry on.
+  let auditBroken = false;
+  function audit(input: AuditInput) {
+    try {
+      store.appendAudit(input, clock.now());
+      auditBroken = false;
+    } catch (e) {
+      if (!auditBroken) events.auditFailed?.(e instanceof Error ? e.message : String(e));
+      auditBroken = true;
+    }
+  }
+
+  // Enough of the log for the opens-per-hour rule.
+  function recentAudit() {
+    return store.readAuditSince(new Date(clock.now().getTime() - HOUR_MS));
+  }
+
+  // ----------------------------
+  // Auth flows (Admin vs Staff)
+  // ----------------------------
+  // PINs double as the login, so a new PIN must not belong to anyone else.
+  async function promptNewPin(cfg: Config, who: string, exceptId?: string): Promise<string | null> {
+    const np = await ui.prompt({
+      title: "Set PIN",
+      label: `Enter new PIN for ${who}:`,
+      password: true,
+      keypad: pinPadView(cfg.pinPad),
+    });
+    if (!np) return null;
+    const problem = pinRuleProblem(np, cfg.pinPad);
+    if (problem) {
+      ui.error("PIN Not Allowed", problem);
+      return null;
+    }
+
+    const conf = await ui.prompt({
+      title: "Confirm PIN",
+      label: "Re-enter new PIN:",
+      password: true,
+      keypad: pinPadView(cfg.pinPad),
+    });
+    if (!conf || conf !== np) {
+      ui.error("Mismatch", "PINs didn’t match.");
+      return null;
+    }
+
+    if (findUserByPin(cfg.users.filter((u) => u.id !== exceptId), np, verifyPin)) {
+      ui.error("PIN In Use", "That PIN is already in use. Please choose a different one.");
+      return null;
+    }
+    return np;
+  }
+
+  async function createFirstAdmin(cfg: Config): Promise<User | null> {
+    const name = await ui.prompt({
+      title: "Create Admin",
+      label: "Your name (managers only):",
+    });
+    if (name === null) return null;
+
+    const display = name.trim() || "Admin";
+    const pin = await promptNewPin(cfg, display);
+    if (!pin) return null;
+
+    const user = newUser(display, "admin", hashPin(pin), clock.now());
+    cfg.users.push(user);
+    saveConfig(cfg);
+    audit({ type: "user_changed", user: user.name, detail: { action: "created", id: user.id, role: user.role } });
+    return user;
+  }
+
+  // Works out who typed the PIN; `min` is the least role let through.
+  async function identifyUser(
+    cfg: Config,
+    scope: "staff" | "admin",
+    min: Role,
+    { rule, ...prompt }: PinRequest,
+  ): Promise<User | null> {
+    const locks = store.readLockout();
+    const wait = lockedFor(locks, scope, clock.now().getTime());
+    if (wait > 0) {
+      audit({ type: "pin_rejected", scope, detail: { reason: "locked out" } });
+      ui.error("Locked", `Too many incorrect PINs. Try again in ${formatWait(wait)}.`);
+      return null;
+    }
+
+    const entered = await ui.prompt({ ...prompt, password: true, keypad: pinPadView(rule ?? cfg.pinPad) });
+    if (entered === null) return null;
+    // Not looked up, so it tells nobody anything about the PIN
+    const problem = rule && pinRuleProblem(entered, rule);
+    if (problem) {
+      ui.error(prompt.title, problem);
+      return null;
+    }
+
+    const user = findUserByPin(cfg.users, entered, verifyPin);
+
+    // Old unsalted SHA-256 (or weaker scrypt) hashes upgrade on a good entry
+    if (user && needsRehash(user.pinHash)) {
+      user.pinHash = hashPin(entered);
+      saveConfig(cfg);
+    }
+
+    // Someone's PIN without the role counts as a miss too; otherwise a
+    // cashier could clear the admin count with their own PIN between guesses.
+    if (!user || !hasRole(user, min)) {
+      const lockMs = recordFailure(locks, scope, clock.now().getTime());
+      store.writeLockout(locks);
+      audit(user
+        ? { type: "pin_rejected", scope, user: user.name, detail: { reason: "insufficient role", role: user.role } }
+        : { type: "pin_rejected", scope });
+      if (lockMs > 0) {
+        audit({ type: "lockout", scope, detail: { failures: locks[scope]?.failures, lockedMs: lockMs } });
+        ui.error("Locked", `Too many incorrect PINs. Try again in ${formatWait(lockMs)}.`);
+      } else {
+        ui.denied?.(user ? `${user.name} isn’t allowed to do that (needs ${min}).` : "Incorrect PIN.");
+      }
+      return null;
+    }
+
+    recordSuccess(locks, scope);
+    store.writeLockout(locks);
+    audit({ type: "pin_accepted", scope, user: user.name });
+    return user;
+  }
+
+  async function verifyAdminOrSet(cfg: Config): Promise<User | null> {
+    if (!activeUsers(cfg.users, "admin").length) return createFirstAdmin(cfg);
+    return identifyUser(cfg, "admin", "admin", {
+      title: "Admin PIN Required",
+      label: "Enter Admin PIN:",
+    });
+  }
+
+  async function changeAdminPin(cfg: Config): Promise<boolean> {
+    const admin = await verifyAdminOrSet(cfg);
+    if (!admin) return false;
+
+    const np = await promptNewPin(cfg, admin.name, admin.id);
+    if (!np) return false;
+
+    admin.pinHash = hashPin(np);
+    saveConfig(cfg);
+    audit({ type: "pin_set", scope: "admin", user: admin.name, detail: { action: "changed" } });
+    ui.info("Admin PIN updated.");
+    return true;
+  }
+
+  async function verifyPinOrSet(cfg: Config): Promise<User | null> {
+    if (!activeUsers(cfg.users).length) return createFirstAdmin(cfg);
+    return identifyUser(cfg, "staff", "staff", {
+      title: "PIN Required",
+      label: "Enter PIN to open the cash drawer:",
+    });
+  }
+
+  // ----------------------------
+  // User management (Settings → Users)
+  // ----------------------------
+  async function addUser(cfg: Config, name: string, role: Role): Promise<UserResult> {
+    if (!name.trim()) return { ok: false, error: "Enter a name for the new user." };
+    if (cfg.users.some((u) => u.name.toLowerCase() === name.trim().toLowerCase())) {
+      return { ok: false, error: `A user named "${name.trim()}" already exists.` };
+    }
+
+    const admin = await verifyAdminOrSet(cfg);
+    if (!admin) return { ok: false };
+
+    const pin = await promptNewPin(cfg, name.trim());
+    if (!pin) return { ok: false };
+
+    const user = newUser(name, role, hashPin(pin), clock.now());
+    cfg.users.push(user);
+    saveConfig(cfg);
+    audit({ type: "user_changed", user: admin.name, detail: { action: "added", id: user.id, name: user.name, role } });
+    return { ok: true };
+  }
+
+  async function setPin(cfg: Config, id: string): Promise<UserResult> {
+    const target = cfg.users.find((u) => u.id === id);
+    if (!target) return { ok: false, error: "User not found." };
+
+    // Admin only can change another user's PIN:
+    const admin = await verifyAdminOrSet(cfg);
+    if (!admin) return { ok: false };
+
+    const pin = await promptNewPin(cfg, target.name, target.id);
+    if (!pin) return { ok: false };
+
+    target.pinHash = hashPin(pin);
+    saveConfig(cfg);
+    audit({
+      type: "pin_set",
+      scope: target.role === "admin" ? "admin" : "staff",
+      user: admin.name,
+      detail: { action: "reset", id: target.id, name: target.name },
+    });
+    return { ok: true };
+  }
+
+  async function setUserDisabled(cfg: Config, id: string, disabled: boolean): Promise<UserResult> {
+    const target = cfg.users.find((u) => u.id === id);
+    if (!target) return { ok: false, error: "User not found." };
+    const lastAdmin = target.role === "admin" && activeUsers(cfg.users, "admin").length <= 1;
+    if (disabled && !target.disabled && lastAdmin) {
+      return { ok: false, error: "You can’t disable the last admin." };
+    }
+
+    const admin = await verifyAdminOrSet(cfg);
+    if (!admin) return { ok: false };
+
+    target.disabled = disabled;
+    saveConfig(cfg);
+    audit({
+      type: "user_changed",
+      user: admin.name,
+      detail: { action: disabled ? "disabled" : "enabled", id: target.id, name: target.name },
+    });
+    return { ok: true };
+  }
+
+  // ----------------------------
+  // Drawer flow
+  // ----------------------------
+  // Tray and hotkey opens. Null when nothing was sent to the printer
+  // (no PIN, no shift, refused by a rule); otherwise the kick, which the
+  // user has already been told about if it failed.
+  async function openDrawer(cfg: Config, source: KickSource, profileId?: string): Promise<KickResult | null> {
+    const profile = pickProfile(cfg, profileId);
+    if (!isConfigured(profile)) {
+      audit({ type: "drawer_kick", source, ok: false, detail: { drawer: profile.name, category: "not_configured" } });
+      ui.error(FAILURE_TITLES.not_configured, describeKickFailure(profile, { category: "not_configured" }));
+      return null;
+    }
+
+    const user = await verifyPinOrSet(cfg);
+    if (!user) return null;
+
+    // With shifts on, every open belongs to the drawer's shift
+    if (cfg.shifts.enabled && !currentShift(readShifts(), profile.id)) {
+      const choice = await ui.choose({
+        type: "question",
+        message: `No shift is open on ${profile.name}.`,
+        detail: "Count the starting float and open a shift before using the drawer.",
+        buttons: ["Cancel", "Open Shift…"],
+        defaultId: 1,
+        cancelId: 0,
+      });
+      if (choice !== 1 || !(await openShiftFlow(profile, user))) return null;
+    }
+
+    const cleared = await checkOpenRules(cfg, profile, source, user);
+    if (!cleared) return null;
+
+    const result = await kickAndRecord(profile, source, user.name, cleared.ctx);
+    if (!result.ok) {
+      const title = (result.category && FAILURE_TITLES[result.category]) || "Drawer Didn't Open";
+      ui.error(title, describeKickFailure(profile, result));
+    } else if (cleared.tag) {
+      recordShiftOpen(profile.id, { ...cleared.tag, user: user.name, source });
+    }
+    return result;
+  }
+
+  // Every kick, whatever triggered it, is audited and reported here.
+  async function kickAndRecord(profile: DrawerProfile, source: KickSource, who?: string, ctx: KickContext = {}) {
+    const cfg = loadConfig();
+    const now = clock.now();
+    if (source !== "test" && cfg.receipts.slipOnOpen) {
+      ctx = { ...ctx, slipRef: now.getTime().toString(36).toUpperCase() };
+    }
+    const slip = ctx.slipRef
+      ? openSlip(cfg.receipts, {
+          drawer: profile.name,
+          user: who ?? "unknown",
+          when: now,
+          reason: OPEN_REASONS.find((r) => r.id === ctx.reason)?.label ?? ctx.reason,
+          amount: ctx.amount,
+          approvedBy: ctx.approvedBy,
+          ref: ctx.slipRef,
+        })
+      : undefined;
+    const result = await kickDrawer(profile, {
+      timeoutMs: KICK_TIMEOUT_MS,
+      retries: cfg.kickRetries,
+      retryDelayMs: cfg.kickRetryDelayMs,
+      slip,
+      connect,
+    });
+    audit({ type: "drawer_kick", source, user: who, ok: result.ok, detail: { ...kickDetail(profile, result), ...ctx } });
+    events.kicked?.({ profile, source, who, ctx, result });
+    return result;
+  }
+
+  // ----------------------------
+  // Open rules
+  // ----------------------------
+  function auditRefusal(profile: DrawerProfile, source: KickSource, who: string, decision: PolicyDecision, reason?: string) {
+    audit({ type: "policy", source, user: who, ok: false, detail: { drawer: profile.name, rule: decision.rule, reason, message: decision.message } });
+  }
+
+  // Evaluates the rules, asking for a reason or a manager PIN whenever a rule
+  // wants one, until the open is allowed or refused. Null means refused (the
+  // user has been told why) or cancelled.
+  async function checkOpenRules(
+    cfg: Config,
+    profile: DrawerProfile,
+    source: KickSource,
+    user: User,
+  ): Promise<{ ctx: KickContext; tag?: { reason: OpenReason; amount?: number } } | null> {
+    const req: PolicyRequest = {
+      user,
+      reasons: reasonChoices(cfg),
+      opensLastHour: opensInLastHour(recentAudit(), user.name, clock.now()),
+      now: clock.now(),
+    };
+    let tag: { reason: OpenReason; amount?: number } | undefined;
+    for (;;) {
+      const decision = evaluatePolicy(effectivePolicy(cfg), req);
+      if (decision.outcome === "allow") {
+        return { ctx: { reason: tag?.reason ?? req.reason, amount: tag?.amount, rule: decision.rule, approvedBy: req.overrideBy }, tag };
+      }
+      if (decision.outcome === "deny") {
+        auditRefusal(profile, source, user.name, decision, req.reason);
+        ui.error("Drawer Not Opened", decision.message);
+        return null;
+      }
+
+      if (decision.outcome === "ask_reason") {
+        if (cfg.shifts.enabled) {
+          tag = (await askOpenReason(profile)) ?? undefined;
+          if (!tag) return null;
+          req.reason = OPEN_REASONS.find((r) => r.id === tag!.reason)!.label;
+        } else {
+          const picked = await askPolicyReason(profile, req.reasons);
+          if (!picked) return null;
+          req.reason = picked;
+        }
+        continue;
+      }
+
+      // ask_override: a manager's own PIN already counts
+      if (hasRole(user, "manager")) {
+        req.overrideBy = user.name;
+        continue;
+      }
+      const manager = await identifyUser(cfg, "admin", "manager", {
+        title: "Manager PIN Required",
+        label: `${decision.message} Enter a manager PIN:`,
+      });
+      if (!manager) {
+        auditRefusal(profile, source, user.name, decision, req.reason);
+        return null;
+      }
+      req.overrideBy = manager.name;
+    }
+  }
+
+  async function askPolicyReason(profile: DrawerProfile, reasons: string[]): Promise<string | null> {
+    const choice = await ui.choose({
+      type: "question",
+      message: `Why are you opening ${profile.name}?`,
+      buttons: [...reasons, "Cancel"],
+      cancelId: reasons.length,
+    });
+    return reasons[choice] ?? null;
+  }
+
+  // ----------------------------
+  // Cash shifts
+  // ----------------------------
+  async function askOpenReason(profile: DrawerProfile): Promise<{ reason: OpenReason; amount?: number } | null> {
+    const choice = await ui.choose({
+      type: "question",
+      message: `Why are you opening ${profile.name}?`,
+      buttons: [...OPEN_REASONS.map((r) => r.label), "Cancel"],
+      cancelId: OPEN_REASONS.length,
+    });
+    const picked = OPEN_REASONS[choice];
+    if (!picked) return null;
+    if (!picked.amount) return { reason: picked.id };
+
+    const input = await ui.prompt({
+      title: picked.label,
+      label: `${picked.amount === "in" ? "Cash taken" : "Cash paid out"} (leave blank to skip):`,
+    });
+    if (input === null) return null;
+    if (!input.trim()) return { reason: picked.id };
+    const amount = parseMoney(input);
+    if (amount === null) {
+      ui.error(picked.label, `"${input}" isn’t an amount. Enter it like 12 or 12.50.`);
+      return null;
+    }
+    return { reason: picked.id, amount };
+  }
+
+  // Re-reads the store so opens from the API and the hotkey don't overwrite
+  // each other while a prompt was up.
+  function recordShiftOpen(profileId: string, entry: Omit<ShiftOpen, "ts">) {
+    const shifts = readShifts();
+    const shift = currentShift(shifts, profileId);
+    if (!shift) return;
+    recordOpen(shift, entry, clock.now());
+    store.writeShifts(shifts);
+  }
+
+  async function openShiftFlow(profile: DrawerProfile, user: User): Promise<boolean> {
+    const input = await ui.prompt({
+      title: "Open Shift",
+      label: `Starting float counted into ${profile.name}:`,
+    });
+    if (input === null) return false;
+    const float = parseMoney(input);
+    if (float === null) {
+      ui.error("Open Shift", `"${input}" isn’t an amount. Enter it like 150 or 150.00.`);
+      return false;
+    }
+
+    const shifts = readShifts();
+    try {
+      const shift = openShift(shifts, profile, user, float, clock.now());
+      store.writeShifts(shifts);
+      audit({ type: "shift", user: user.name, detail: { action: "opened", drawer: profile.name, shift: shift.id, float: formatMoney(float) } });
+    } catch (e) {
+      ui.error("Open Shift", e instanceof Error ? e.message : String(e));
+      return false;
+    }
+    events.shiftsChanged?.();
+    return true;
+  }
+
+  // ----------------------------
+  // Local POS API
+  // ----------------------------
+  async function apiOpenDrawer(req: ApiOpenRequest): Promise<ApiOpenResult> {
+    const cfg = loadConfig();
+    const profile = req.profileId ? cfg.profiles.find((p) => p.id === req.profileId) : pickProfile(cfg);
+    if (!profile) {
+      return { ok: false, status: 404, body: { ok: false, error: `No drawer with id "${req.profileId}".` } };
+    }
+    const ctx: KickContext = { reason: req.reason, cashierId: req.cashierId };
+    const who = req.cashierId ? `api:${req.cashierId}` : "api";
+    if (!isConfigured(profile)) {
+      audit({ type: "drawer_kick", source: "api", user: who, ok: false, detail: { drawer: profile.name, category: "not_configured", ...ctx } });
+      return { ok: false, status: 409, body: { ok: false, category: "not_configured", error: `"${profile.name}" has no printer connection set up.` } };
+    }
+    if (cfg.shifts.enabled) {
+      if (!isOpenReason(req.reason)) {
+        return { ok: false, status: 400, body: { ok: false, error: `"reason" must be one of: ${OPEN_REASONS.map((r) => r.id).join(", ")}.` } };
+      }
+      if (req.amount !== undefined) {
+        const amount = parseMoney(req.amount);
+        if (amount === null) return { ok: false, status: 400, body: { ok: false, error: `"amount" must be a money amount like 12.50.` } };
+        ctx.amount = amount;
+      }
+      if (!currentShift(readShifts(), profile.id)) {
+        return { ok: false, status: 409, body: { ok: false, category: "no_shift", error: `No shift is open on "${profile.name}".` } };
+      }
+    }
+
+    // Nobody can type a manager PIN into the POS, so rules that would ask
+    // for one refuse instead.
+    const decision = evaluatePolicy(effectivePolicy(cfg), {
+      user: { name: who, role: "staff" },
+      reasons: reasonChoices(cfg),
+      reason: cfg.shifts.enabled ? OPEN_REASONS.find((r) => r.id === req.reason)?.label : req.reason,
+      opensLastHour: opensInLastHour(recentAudit(), who, clock.now()),
+      now: clock.now(),
+    });
+    if (decision.outcome !== "allow") {
+      auditRefusal(profile, "api", who, decision, req.reason);
+      const error = decision.outcome === "ask_override" ? `${decision.message} Open it from the tray instead.` : decision.message;
+      return { ok: false, status: decision.outcome === "ask_reason" ? 400 : 403, body: { ok: false, rule: decision.rule, error } };
+    }
+    ctx.rule = decision.rule;
+
+    const result = await kickAndRecord(profile, "api", who, ctx);
+    if (result.ok && cfg.shifts.enabled) {
+      recordShiftOpen(profile.id, { reason: req.reason as OpenReason, amount: ctx.amount, user: who, source: "api" });
+    }
+    return {
+      ok: result.ok,
+      status: result.ok ? 200 : 502,
+      body: {
+        ok: result.ok,
+        profileId: profile.id,
+        drawer: profile.name,
+        status: result.drawer,
+        category: result.category,
+        error: result.ok ? undefined : describeKickFailure(profile, result),
+        elapsedMs: result.elapsedMs,
+        attempts: result.attempts,
+      },
+    };
+  }
+
+  // ----------------------------
+  // Settings
+  // ----------------------------
+  // What Settings → Save does once the payload has been checked.
+  async function saveSettings(req: SettingsPayload, who?: string): Promise<SaveResult> {
+    const drawers = sanitizeProfileSet(req);
+    if (!drawers) return { ok: false, error: "Check the drawer settings." };
+    const before = loadConfig();
+    // A keypad no admin PIN fits would shut everyone out of Settings, so an
+    // admin shows theirs still works on it before it's saved.
+    if (pinRuleTightened(before.pinPad, req.pinPad)) {
+      const admin = await identifyUser(before, "admin", "admin", {
+        title: "Check the New PIN Pad",
+        label: "Enter an admin PIN on the new keypad:",
+        rule: req.pinPad,
+      });
+      if (!admin) return { ok: false, error: "The PIN pad change needs an admin PIN that works on it." };
+    }
+    const merged: Config = {
+      ...before,
+      ...drawers,
+      openAlertSecs: req.openAlertSecs,
+      kickRetries: req.kickRetries,
+      kickRetryDelayMs: req.kickRetryDelayMs,
+      api: { ...req.api, tokenHash: before.api.tokenHash },
+      shifts: req.shifts,
+      policy: req.policy,
+      receipts: req.receipts,
+      emulator: req.emulator,
+      hotkeys: req.hotkeys,
+      health: req.health,
+      adminIdleMins: req.adminIdleMins,
+      pinPad: req.pinPad,
+      // Accounts only change through the user-management flows
+      users: before.users,
+    };
+    saveConfig(merged);
+    const saved = loadConfig();
+    const changes = diffConfig(redactConfig(before), redactConfig(saved));
+    if (Object.keys(changes).length) {
+      audit({ type: "config_changed", source: "settings", user: who, detail: changes });
+    }
+    return { ok: true, saved };
+  }
+
+  return {
+    loadConfig,
+    loadLocalConfig,
+    saveConfig,
+    managedPolicy,
+    lockedFields: () => managedPolicy()?.locked ?? [],
+    audit,
+    readShifts,
+    writeShifts: (shifts) => store.writeShifts(shifts),
+    identifyUser,
+    verifyAdminOrSet,
+    verifyPinOrSet,
+    changeAdminPin,
+    addUser,
+    setPin,
+    setUserDisabled,
+    openDrawer,
+    kickAndRecord,
+    apiOpenDrawer,
+    openShift: openShiftFlow,
+    saveSettings,
+  };
+}
@@ -0,0 +1,160 @@
+import * as crypto from "crypto";
+import { ConfigError, migrateConfig, validateConfig } from "./config";
+import type { Config } from "./config";
+import type { User } from "./users";
+
+// ----------------------------
+// Settings export / import
+// ----------------------------
+// A station's settings as one file, for setting up the next station the
+// same way. Everything is signed with a key derived from a passphrase the
+// admin picks, so an edited file or a wrong passphrase is refused on import.
+//
+// The API token hash never leaves the station: each POS has its own token.
+// User accounts (PIN hashes) only travel if asked for, encrypted with a
+// second key from the same passphrase.
+export const BUNDLE_FORMAT = "drawer-opener-settings";
+export const MIN_PASSPHRASE = 8;
+
+type Kdf = { salt: string; N: number; r: number; p: number };
+
+export type BundleSettings = Omit<Config, "users" | "api"> & { api: { enabled: boolean; port: number } };
+
+export type ConfigBundle = {
+  format: typeof BUNDLE_FORMAT;
+  exportedAt: string;
+  station: string;                                     // computer it was exported from
+  kdf: Kdf;
+  settings: BundleSettings;
+  users?: { iv: string; tag: string; data: string };   // AES-256-GCM of User[]
+  signature: string;                                   // HMAC-SHA256 of everything above
+};
+
+export type ImportedSettings = {
+  exportedAt: string;
+  station: string;
+  settings: Omit<Config, "users">;   // migrated to this version's schema; no token hash
+  users?: User[];
+};
+
+// The file can't be used; the message is for the admin.
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const N = 1 << 15;
+const R = 8;
+const P = 1;
+const MAX_MEM = 128 * 1024 * 1024;
+
+// The cost settings come from the file, and are used before its signature
+// can be checked. Beyond these an import would only hang or run out of
+// memory, so the file counts as damaged.
+function usableKdf(kdf: any): kdf is Kdf {
+  return !!kdf && typeof kdf.salt === "string" && /^([0-9a-f]{2}){16,64}$/.test(kdf.salt)
+    && [kdf.N, kdf.r, kdf.p].every(Number.isInteger)
+    && kdf.N >= 2 && kdf.N <= 1 << 20 && (kdf.N & (kdf.N - 1)) === 0
+    && kdf.r >= 1 && kdf.r <= 16 && kdf.p >= 1 && kdf.p <= 4
+    && kdf.N * kdf.r <= 1 << 19;   // 128·N·r bytes of memory: 64 MB at most
+}
+
+// 64 bytes: the first half signs, the second half encrypts.
+function deriveKeys(passphrase: string, kdf: Kdf) {
+  let key: Buffer;
+  try {
+    key = crypto.scryptSync(passphrase, Buffer.from(kdf.salt, "hex"), 64, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: MAX_MEM });
+  } catch (e) {
+    throw new BundleError(`The key for the settings file couldn’t be made: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return { sign: key.subarray(0, 32), encrypt: key.subarray(32) };
+}
+
+// Keys sorted at every level, so the signature doesn't depend on how the
+// file was pretty-printed or in which order a JSON parser kept the keys.
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v as Record<string, unknown>).filter(([, x]) => x !== undefined);
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, x]) => `${JSON.stringify(k)}:${canonical(x)}`).join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+function sign(key: Buffer, bundle: Omit<ConfigBundle, "signature">) {
+  return crypto.createHmac("sha256", key).update(canonical(bundle)).digest("hex");
+}
+
+export function exportBundle(
+  cfg: Config,
+  passphrase: string,
+  opts: { includeUsers: boolean; station: string; now?: Date },
+): ConfigBundle {
+  if (passphrase.length < MIN_PASSPHRASE) throw new BundleError(`The passphrase needs at least ${MIN_PASSPHRASE} characters.`);
+  const kdf: Kdf = { salt: crypto.randomBytes(16).toString("hex"), N, r: R, p: P };
+  const keys = deriveKeys(passphrase, kdf);
+  const { users, api, ...rest } = cfg;
+
+  const body: Omit<ConfigBundle, "signature"> = {
+    format: BUNDLE_FORMAT,
+    exportedAt: (opts.now ?? new Date()).toISOString(),
+    station: opts.station,
+    kdf,
+    settings: { ...rest, api: { enabled: api.enabled, port: api.port } },
+  };
+  if (opts.includeUsers) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", keys.encrypt, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(users), "utf8"), cipher.final()]);
+    body.users = { iv: iv.toString("hex"), tag: cipher.getAuthTag().toString("hex"), data: data.toString("base64") };
+  }
+  return { ...body, signature: sign(keys.sign, body) };
+}
+
+// Checks the signature before looking at anything else, then brings the
+// settings up to this version's schema the same way config.json would be.
+export function importBundle(text: string, passphrase: string): ImportedSettings {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError("This isn’t a Drawer Opener settings file.");
+  }
+  if (!raw || raw.format !== BUNDLE_FORMAT) throw new BundleError("This isn’t a Drawer Opener settings file.");
+  if (!usableKdf(raw.kdf)) throw new BundleError("The settings file is damaged.");
+
+  const keys = deriveKeys(passphrase, raw.kdf);
+  const { signature, ...body } = raw;
+  const expected = Buffer.from(sign(keys.sign, body), "hex");
+  const actual = Buffer.from(typeof signature === "string" ? signature : "", "hex");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new BundleError("Wrong passphrase, or the file was changed after it was exported.");
+  }
+
+  let users: User[] | undefined;
+  if (body.users) {
+    try {
+      const decipher = crypto.createDecipheriv("aes-256-gcm", keys.encrypt, Buffer.from(body.users.iv, "hex"));
+      decipher.setAuthTag(Buffer.from(body.users.tag, "hex"));
+      const plain = Buffer.concat([decipher.update(Buffer.from(body.users.data, "base64")), decipher.final()]);
+      users = JSON.parse(plain.toString("utf8"));
+    } catch {
+      throw new BundleError("The user accounts in the settings file can’t be read.");
+    }
+  }
+
+  const settings = { ...body.settings, users: users ?? [] };
+  try {
+    migrateConfig(settings);
+  } catch (e) {
+    throw new BundleError(e instanceof ConfigError ? e.message : String(e));
+  }
+  const problems = validateConfig(settings);
+  if (problems.length) throw new BundleError(`The settings in the file aren’t valid:\n\n${problems.map((p) => "• " + p).join("\n")}`);
+
+  const { users: _users, ...imported } = settings as Config;
+  return { exportedAt: String(body.exportedAt), station: String(body.station ?? ""), settings: imported, users };
+}
@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { execFile, spawn } from "child_process";
+import type { DrawerProfile } from "./profiles";
+
+// ----------------------------
+// Printer transports
+// ----------------------------
+// How bytes reach the printer. The drawer kick (and anything else we send)
+// only sees a PrinterLink, so each kind just has to open, write and close.
+// Links that can hear the printer answer (tcp, device) also implement read.
+//
+//   tcp     raw socket to printerIp:printerPort (JetDirect, usually 9100)
+//   device  character device: /dev/ttyUSB0, /dev/usb/lp0, \\.\COM3 ...
+//           Any writable path works, so a pty or a temp file stands in for
+//           real hardware when testing on Linux.
+//   queue   an OS print queue, job submitted raw (lp on macOS/Linux, a
+//           shared printer written as \\localhost\<share> on Windows)
+export type TransportKind = "tcp" | "device" | "queue";
+
+export interface PrinterLink {
+  write(data: Buffer): Promise<void>;
+  // Next chunk the printer sends, or null if nothing arrives in time
+  read?(timeoutMs: number): Promise<Buffer | null>;
+  close(): Promise<void>;
+}
+
+// Whatever opens links: openLink below in the app, a fake in tests.
+export type LinkOpener = (p: DrawerProfile, timeoutMs: number) => Promise<PrinterLink>;
+
+export function isTransport(v: unknown): v is TransportKind {
+  return v === "tcp" || v === "device" || v === "queue";
+}
+
+// Queue names end up in a UNC path on Windows and an lp argument elsewhere,
+// so only plain printer/share names are accepted.
+export function isQueueName(v: unknown): v is string {
+  return typeof v === "string" && /^[\w .-]{1,128}$/.test(v);
+}
+
+export function transportOf(p: DrawerProfile): TransportKind {
+  return p.transport ?? "tcp";
+}
+
+export function isConfigured(p: DrawerProfile) {
+  switch (transportOf(p)) {
+    case "device": return !!p.devicePath;
+    case "queue": return !!p.queueName;
+    default: return !!p.printerIp;
+  }
+}
+
+// Human readable target for dialogs and the audit log.
+export function describeTarget(p: DrawerProfile) {
+  switch (transportOf(p)) {
+    case "device": return p.devicePath + (p.baudRate ? ` @ ${p.baudRate}` : "");
+    case "queue": return `queue ${p.queueName}`;
+    default: return `${p.printerIp}:${p.printerPort}`;
+  }
+}
+
+function withTimeout<T>(work: Promise<T>, ms: number, what: string, onTimeout?: () => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.();
+      reject(timeoutError(`${what} timed out after ${ms}ms`));
+    }, ms);
+    work.then(
+      (v) => { clearTimeout(timer); resolve(v); },
+      (e) => { clearTimeout(timer); reject(e); },
+    );
+  });
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Timeouts we raise ourselves carry the same code as the OS's, so callers
+// can classify every failure by `code` alone.
+function timeoutError(message: string) {
+  return Object.assign(new Error(message), { code: "ETIMEDOUT" });
+}
+
+function run(cmd: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(cmd, args, (err, _stdout, stderr) => {
+      if (err) reject(new Error(stderr?.toString().trim() || err.message));
+      else resolve();
+    });
+  });
+}
+
+// ----------------------------
+// TCP
+// ----------------------------
+function openTcp(host: string, port: number, timeoutMs: number): Promise<PrinterLink> {
+  return new Promise((resolve, reject) => {
+    const socket = new net.Socket();
+    socket.setTimeout(timeoutMs);
+    socket.once("error", reject);
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(timeoutError(`Connection to ${host}:${port} timed out`));
+    });
+    socket.connect(port, host, () => {
+      socket.removeListener("error", reject);
+      socket.on("error", () => { /* surfaced through write/close */ });
+      // Replies are queued until a read takes them, so one that arrives
+      // between reads isn't lost and the socket never needs pausing.
+      const inbox: Buffer[] = [];
+      let waiting: ((d: Buffer | null) => void) | null = null;
+      socket.on("data", (d: Buffer) => {
+        if (waiting) waiting(d);
+        else inbox.push(d);
+      });
+      resolve({
+        write: (data) => new Promise((res, rej) => {
+          socket.write(data, (err?: Error | null) => (err ? rej(err) : res()));
+        }),
+        read: (ms) => new Promise((res) => {
+          const queued = inbox.shift();
+          if (queued) return res(queued);
+          const done = (d: Buffer | null) => {
+            clearTimeout(timer);
+            waiting = null;
+            res(d);
+          };
+          const timer = setTimeout(() => done(null), ms);
+          waiting = done;
+        }),
+        close: () => new Promise((res) => {
+          socket.end(() => res());
+          socket.once("error", () => res());
+        }),
+      });
+    });
+  });
+}
+
+// ----------------------------
+// Serial / USB character device
+// ----------------------------
+// Serial lines need their speed set first; stty/mode do that without a
+// native serial module. USB printer class devices (lp0) ignore it.
+async function configureSerial(devicePath: string, baud: number) {
+  if (process.platform === "win32") {
+    const port = path.basename(devicePath);   // \\.\COM3 → COM3
+    await run("mode", [port, `BAUD=${baud}`, "PARITY=n", "DATA=8", "STOP=1"]);
+  } else {
+    const flag = process.platform === "darwin" ? "-f" : "-F";
+    await run("stty", [flag, devicePath, String(baud), "raw", "-echo"]);
+  }
+}
+
+// Non-blocking on POSIX so a silent printer can't park a read (or a full
+// tty buffer a write) on a libuv thread forever; we poll instead.
+async function openDevice(devicePath: string, baud: number | undefined, timeoutMs: number): Promise<PrinterLink> {
+  if (baud) await configureSerial(devicePath, baud);
+  const posix = process.platform !== "win32";
+  const flags = posix ? fs.constants.O_RDWR | fs.constants.O_NONBLOCK : "r+";
+  const fh = await withTimeout(fs.promises.open(devicePath, flags), timeoutMs, `Opening ${devicePath}`);
+
+  const busy = (e: unknown) => {
+    const code = (e as NodeJS.ErrnoException | null)?.code;
+    return code === "EAGAIN" || code === "EWOULDBLOCK";
+  };
+  return {
+    write: async (data) => {
+      const deadline = Date.now() + timeoutMs;
+      let off = 0;
+      while (off < data.length) {
+        try {
+          off += (await fh.write(data, off)).bytesWritten;
+        } catch (e) {
+          if (!busy(e)) throw e;
+          if (Date.now() > deadline) throw timeoutError(`Writing to ${devicePath} timed out after ${timeoutMs}ms`);
+          await sleep(20);
+        }
+      }
+    },
+    read: async (ms) => {
+      if (!posix) return null;
+      const deadline = Date.now() + ms;
+      const buf = Buffer.alloc(64);
+      while (Date.now() < deadline) {
+        try {
+          const { bytesRead } = await fh.read(buf, 0, buf.length, null);
+          if (bytesRead) return buf.subarray(0, bytesRead);
+          return null;   // EOF: a plain file standing in for the device
+        } catch (e) {
+          if (!busy(e)) return null;
+          await sleep(25);
+        }
+      }
+      return null;
+    },
+    close: () => fh.close().catch(() => {}),
+  };
+}
+
+// ----------------------------
+// OS print queue (raw)
+// ----------------------------
+function submitRawJob(queue: string, data: Buffer, timeoutMs: number): Promise<void> {
+  if (!isQueueName(queue)) return Promise.reject(new Error(`"${queue}" is not a printer queue name.`));
+  if (process.platform === "win32") {
+    // Windows has no raw `lp`; bytes written to a shared printer's UNC path
+    // are passed through untouched. The queue must be shared (name = share name).
+    const job = fs.promises.writeFile(`\\\\localhost\\${queue}`, data);
+    return withTimeout(job, timeoutMs, `Printing to ${queue}`);
+  }
+
+  return withTimeout(new Promise<void>((resolve, reject) => {
+    const lp = spawn("lp", ["-d", queue, "-o", "raw"]);
+    let stderr = "";
+    lp.stderr.on("data", (d) => { stderr += d; });
+    lp.on("error", reject);
+    lp.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(stderr.trim() || `lp exited with code ${code}`));
+    });
+    lp.stdin.end(data);
+  }), timeoutMs, `Printing to ${queue}`);
+}
+
+function openQueue(queue: string, timeoutMs: number): PrinterLink {
+  // Every write is its own job; there is nothing to hold open.
+  return {
+    write: (data) => submitRawJob(queue, data, timeoutMs),
+    close: async () => {},
+  };
+}
+
+// ----------------------------
+// Public API
+// ----------------------------
+export async function openLink(p: DrawerProfile, timeoutMs = 3000): Promise<PrinterLink> {
+  switch (transportOf(p)) {
+    case "device": return openDevice(p.devicePath ?? "", p.baudRate, timeoutMs);
+    case "queue": return openQueue(p.queueName ?? "", timeoutMs);
+    default: return openTcp(p.printerIp, p.printerPort, timeoutMs);
+  }
+}
+
+// Open, send, close. Throws on any failure.
+export async function sendBytes(p: DrawerProfile, data: Buffer, timeoutMs = 3000) {
+  const link = await openLink(p, timeoutMs);
+  try {
+    await link.write(data);
+  } finally {
+    await link.close();
+  }
+}
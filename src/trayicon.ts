@@ -0,0 +1,49 @@
+// ----------------------------
+// Tray status
+// ----------------------------
+// The macOS menu bar shows the tray title, so state goes there as text.
+// Windows and Linux trays show only the icon, so state is a coloured dot
+// painted into its corner. The dot is drawn on the raw BGRA bitmap
+// (nativeImage.toBitmap / createFromBitmap), so no image library is needed.
+export type TrayLook =
+  | "plain"         // printer checks off
+  | "ok"            // every printer answering, no drawer open
+  | "unreachable"   // at least one printer not answering
+  | "open";         // at least one drawer open
+
+export const TRAY_TITLES: Record<TrayLook, string> = {
+  plain: "💵",
+  ok: "💵",
+  unreachable: "💵 ⚠︎",
+  open: "💵 OPEN",
+};
+
+const BADGE_COLORS: Record<TrayLook, [number, number, number] | null> = {
+  plain: null,
+  ok: [46, 160, 67],
+  unreachable: [215, 58, 73],
+  open: [227, 160, 8],
+};
+
+// Returns a copy with the dot in the bottom-right corner. Pixels are
+// premultiplied, so an opaque colour over them blends the same way in
+// every channel; the edge gets one pixel of anti-aliasing.
+export function badgeBitmap(bitmap: Buffer, width: number, height: number, look: TrayLook): Buffer {
+  const out = Buffer.from(bitmap);
+  const rgb = BADGE_COLORS[look];
+  if (!rgb) return out;
+  const r = Math.max(2, Math.min(width, height) / 4);
+  const [cx, cy] = [width - r, height - r];
+  for (let y = Math.floor(height - 2 * r); y < height; y++) {
+    for (let x = Math.floor(width - 2 * r); x < width; x++) {
+      const a = Math.min(1, Math.max(0, r - Math.hypot(x + 0.5 - cx, y + 0.5 - cy) + 0.5));
+      if (!a) continue;
+      const i = (y * width + x) * 4;
+      out[i] = Math.round(rgb[2] * a + out[i] * (1 - a));
+      out[i + 1] = Math.round(rgb[1] * a + out[i + 1] * (1 - a));
+      out[i + 2] = Math.round(rgb[0] * a + out[i + 2] * (1 - a));
+      out[i + 3] = Math.round(255 * a + out[i + 3] * (1 - a));
+    }
+  }
+  return out;
+}
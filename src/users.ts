@@ -0,0 +1,86 @@
+import * as crypto from "crypto";
+
+// ----------------------------
+// Types
+// ----------------------------
+export type Role = "staff" | "manager" | "admin";
+
+export type User = {
+  id: string;
+  name: string;
+  role: Role;
+  pinHash: string;
+  disabled?: boolean;
+  createdAt: string;       // ISO-8601
+};
+
+// What the Settings window gets to see: never the hash.
+export type UserSummary = Pick<User, "id" | "name" | "role" | "disabled">;
+
+const ROLE_RANK: Record<Role, number> = { staff: 0, manager: 1, admin: 2 };
+
+export function isRole(v: unknown): v is Role {
+  return v === "staff" || v === "manager" || v === "admin";
+}
+
+export function hasRole(user: Pick<User, "role">, min: Role) {
+  return ROLE_RANK[user.role] >= ROLE_RANK[min];
+}
+
+export function activeUsers(users: User[], min: Role = "staff") {
+  return users.filter((u) => !u.disabled && hasRole(u, min));
+}
+
+export function summarize(users: User[]): UserSummary[] {
+  return users.map(({ id, name, role, disabled }) => ({ id, name, role, disabled: !!disabled }));
+}
+
+export function newUser(name: string, role: Role, pinHash: string, now = new Date()): User {
+  return {
+    id: crypto.randomBytes(6).toString("hex"),
+    name: name.trim(),
+    role,
+    pinHash,
+    createdAt: now.toISOString(),
+  };
+}
+
+// PINs identify the user, so two enabled accounts may never share one.
+// `matches` compares a plain PIN to a stored hash.
+export function findUserByPin(
+  users: User[],
+  pin: string,
+  matches: (pin: string, hash: string) => boolean,
+): User | undefined {
+  return users.find((u) => !u.disabled && matches(pin, u.pinHash));
+}
+
+// ----------------------------
+// Migration from the shared-PIN config
+// ----------------------------
+// Older configs carried one `adminHash` and one `pinHash`. Each becomes an
+// account so the existing PINs keep working on the first start after upgrade.
+export function migrateLegacyPins(raw: { pinHash?: unknown; adminHash?: unknown }, now = new Date()): User[] {
+  const users: User[] = [];
+  if (typeof raw.adminHash === "string" && raw.adminHash) {
+    users.push(newUser("Admin", "admin", raw.adminHash, now));
+  }
+  if (typeof raw.pinHash === "string" && raw.pinHash && raw.pinHash !== raw.adminHash) {
+    users.push(newUser("Staff", "staff", raw.pinHash, now));
+  }
+  return users;
+}
+
+export function sanitizeUsers(list: unknown): User[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((u) => u && typeof u.id === "string" && typeof u.pinHash === "string" && isRole(u.role))
+    .map((u) => ({
+      id: u.id,
+      name: String(u.name ?? "").trim() || "Unnamed",
+      role: u.role,
+      pinHash: u.pinHash,
+      disabled: !!u.disabled,
+      createdAt: typeof u.createdAt === "string" ? u.createdAt : new Date(0).toISOString(),
+    }));
+}
@@ -0,0 +1,104 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as net from "net";
+import { hashApiToken, newApiToken, startApiServer } from "../src/api";
+import type { ApiOpenRequest, ApiServer } from "../src/api";
+
+// ----------------------------
+// POS API on 127.0.0.1
+// ----------------------------
+// A real server on a free port per test, with handlers that just record.
+let server: ApiServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+async function setup() {
+  const token = newApiToken();
+  const opens: ApiOpenRequest[] = [];
+  server = await startApiServer({
+    port: 0,
+    tokenHash: hashApiToken(token),
+    handlers: {
+      openDrawer: async (req) => { opens.push(req); return { ok: true, status: 200, body: { ok: true } }; },
+      status: () => ({ drawers: [] }),
+    },
+  });
+  const call = (pathname: string, init: RequestInit = {}) => fetch(`http://127.0.0.1:${server!.port}${pathname}`, init);
+  return { token, opens, call, port: server.port };
+}
+
+// Opens /events and resolves with the socket once the upgrade is answered.
+function connectEvents(port: number, query: string): Promise<{ socket: net.Socket; head: string }> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, "127.0.0.1", () => {
+      socket.write(
+        `GET /events${query} HTTP/1.1\r\nHost: 127.0.0.1\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n` +
+        `Sec-WebSocket-Key: ${crypto.randomBytes(16).toString("base64")}\r\nSec-WebSocket-Version: 13\r\n\r\n`,
+      );
+    });
+    socket.once("data", (d) => resolve({ socket, head: d.toString("latin1") }));
+    socket.once("error", reject);
+  });
+}
+
+test("requests without the right token are turned away", async () => {
+  const { token, call, opens } = await setup();
+  assert.equal((await call("/health")).status, 401);
+  assert.equal((await call("/health", { headers: { Authorization: "Bearer nope" } })).status, 401);
+  assert.equal((await call("/drawer/open", { method: "POST", headers: { Authorization: `Bearer ${token.slice(1)}` } })).status, 401);
+  assert.equal(opens.length, 0);
+
+  assert.equal((await call("/health", { headers: { Authorization: `Bearer ${token}` } })).status, 200);
+  // ?token= is for the event stream only
+  assert.equal((await call(`/status?token=${token}`)).status, 401);
+});
+
+test("an open passes on only the fields it knows, trimmed to size", async () => {
+  const { token, call, opens } = await setup();
+  const res = await call("/drawer/open", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ profileId: "front", reason: "x".repeat(300), extra: true }),
+  });
+  assert.equal(res.status, 200);
+  assert.deepEqual(opens, [{ profileId: "front", reason: "x".repeat(200), cashierId: undefined, amount: undefined }]);
+});
+
+test("an open whose body isn't a JSON object is refused", async () => {
+  const { token, call, opens } = await setup();
+  for (const body of ["[1]", "42", "null", "\"front\""]) {
+    const res = await call("/drawer/open", { method: "POST", headers: { Authorization: `Bearer ${token}` }, body });
+    assert.equal(res.status, 400, body);
+    assert.deepEqual(await res.json(), { ok: false, error: "Body must be a JSON object." });
+  }
+  assert.equal(opens.length, 0);
+});
+
+test("the event stream needs the token too", async () => {
+  const { token, port } = await setup();
+  const denied = await connectEvents(port, "?token=nope");
+  assert.match(denied.head, /^HTTP\/1.1 401/);
+  denied.socket.destroy();
+
+  const { socket, head } = await connectEvents(port, `?token=${token}`);
+  assert.match(head, /^HTTP\/1.1 101/);
+  socket.destroy();
+});
+
+test("an oversized frame from a client closes the stream with 1009", { timeout: 5000 }, async () => {
+  const { token, port } = await setup();
+  const { socket } = await connectEvents(port, `?token=${token}`);
+  const closed = new Promise<Buffer>((resolve) => socket.once("data", resolve));
+  const header = Buffer.alloc(14);
+  header[0] = 0x81; header[1] = 0x80 | 127; header.writeBigUInt64BE(BigInt(1 << 30), 2);
+  socket.write(header);
+
+  const frame = await closed;
+  assert.equal(frame[0], 0x88);
+  assert.equal(frame.readUInt16BE(2), 1009);
+  await new Promise((resolve) => socket.once("close", resolve));
+});
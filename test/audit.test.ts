@@ -0,0 +1,118 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { appendAudit, auditToCsv, readAudit, readAuditSince, verifyAudit } from "../src/audit";
+import type { AuditRecord } from "../src/audit";
+
+// ----------------------------
+// Audit log hash chain
+// ----------------------------
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+function logWith(count: number) {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-"));
+  const file = path.join(dir, "audit.log");
+  for (let i = 0; i < count; i++) appendAudit(file, { type: "drawer_kick", source: "tray", user: "Ana", ok: true });
+  return file;
+}
+
+function rewrite(file: string, edit: (records: AuditRecord[]) => void) {
+  const records = readAudit(file);
+  edit(records);
+  fs.writeFileSync(file, records.map((r) => JSON.stringify(r) + "\n").join(""));
+}
+
+// What a key-less edit would do: fix up every hash with plain SHA-256.
+function rechain(records: AuditRecord[]) {
+  let prevHash = "0".repeat(64);
+  for (const r of records) {
+    r.prevHash = prevHash;
+    const body = JSON.stringify({
+      seq: r.seq, ts: r.ts, type: r.type, source: r.source, user: r.user, scope: r.scope,
+      ok: r.ok, detail: r.detail, prevHash: r.prevHash,
+    });
+    r.hash = crypto.createHash("sha256").update(body).digest("hex");
+    prevHash = r.hash;
+  }
+  return records;
+}
+
+test("an untouched log verifies", () => {
+  const file = logWith(3);
+  assert.deepEqual(verifyAudit(file), { ok: true, count: 3 });
+  assert.deepEqual(readAudit(file).map((r) => r.seq), [1, 2, 3]);
+});
+
+test("an edited record is caught", () => {
+  const file = logWith(3);
+  rewrite(file, (rs) => { rs[1].user = "Ben"; });
+  assert.equal(verifyAudit(file).problem, "Record 2 has been modified.");
+});
+
+test("an edit with the hashes recomputed is still caught without the key", () => {
+  const file = logWith(3);
+  rewrite(file, (rs) => {
+    rs[1].user = "Ben";
+    rechain(rs);
+  });
+  fs.writeFileSync(file + ".head", JSON.stringify({ seq: 3, hash: readAudit(file)[2].hash }));
+  assert.equal(verifyAudit(file).ok, false);
+});
+
+test("a removed last record or a deleted log is caught", () => {
+  const file = logWith(3);
+  rewrite(file, (rs) => { rs.pop(); });
+  assert.match(verifyAudit(file).problem ?? "", /truncated/);
+
+  fs.rmSync(file);
+  assert.deepEqual(verifyAudit(file), { ok: false, count: 0, problem: "The log is missing or empty, but records were written." });
+  fs.rmSync(file + ".head");
+  assert.equal(verifyAudit(file).ok, false);
+});
+
+test("a log from before the key keeps verifying as it grows", () => {
+  const file = logWith(0);
+  const legacy = rechain([1, 2].map((seq) => ({ seq, ts: new Date().toISOString(), type: "pin_accepted", prevHash: "", hash: "" } as AuditRecord)));
+  fs.writeFileSync(file, legacy.map((r) => JSON.stringify(r) + "\n").join(""));
+  fs.writeFileSync(file + ".head", JSON.stringify({ seq: 2, hash: legacy[1].hash }));
+  assert.deepEqual(verifyAudit(file), { ok: true, count: 2 });
+
+  appendAudit(file, { type: "drawer_kick", source: "tray", ok: true });
+  assert.deepEqual(verifyAudit(file), { ok: true, count: 3 });
+  assert.equal(JSON.parse(fs.readFileSync(file + ".key", "utf8")).from, 3);
+});
+
+test("appending and recent records read from the end, across long lines", () => {
+  const file = logWith(0);
+  const start = new Date(2026, 2, 2, 9, 0);
+  for (let i = 0; i < 6; i++) {
+    const at = new Date(start.getTime() + i * 20 * 60 * 1000);
+    appendAudit(file, { type: "config_changed", user: "Ana", detail: { note: "é".repeat(7000 * i) } }, at);
+  }
+  assert.deepEqual(verifyAudit(file), { ok: true, count: 6 });
+
+  const recent = readAuditSince(file, new Date(2026, 2, 2, 10, 0));
+  assert.deepEqual(recent.map((r) => r.seq), [4, 5, 6]);
+  assert.equal((recent[2].detail?.note as string).length, 35000);
+  assert.deepEqual(readAuditSince(path.join(dir!, "none.log"), start), []);
+});
+
+test("CSV export defuses formulas and quotes line breaks", () => {
+  const rec = (user: string) => ({ seq: 1, ts: "2026-03-02T10:00:00.000Z", type: "pin_accepted", user, prevHash: "", hash: "h" } as AuditRecord);
+  // seq,ts,type,source,user,scope,ok,detail,hash: the user cell, as written
+  const cell = (user: string) => auditToCsv([rec(user)]).slice(0, -",,,,h\n".length).split("pin_accepted,,")[1];
+  assert.equal(cell("=HYPERLINK(\"x\")"), `"'=HYPERLINK(""x"")"`);
+  assert.equal(cell("+1"), "'+1");
+  assert.equal(cell("-1"), "'-1");
+  assert.equal(cell("@SUM(A1)"), "'@SUM(A1)");
+  assert.equal(cell("Ana\rBen"), `"Ana\rBen"`);
+  assert.equal(cell("Ana"), "Ana");
+});
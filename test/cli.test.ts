@@ -0,0 +1,96 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import { isCliCommand, runCli } from "../src/cli";
+import { defaultConfig, readConfigFile, writeConfigFile } from "../src/config";
+import { readAudit } from "../src/audit";
+import { newProfile } from "../src/profiles";
+import { newUser } from "../src/users";
+import type { Role } from "../src/users";
+import { hashPin, verifyPin } from "../src/pins";
+
+// ----------------------------
+// Command line, end to end
+// ----------------------------
+// Each test gets a temp data folder with a set-up station; stdin is the
+// lines given, as if piped in. No managed policy applies.
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+function setup(users: { name: string; role: Role; pin: string }[]) {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+  process.env.DRAWER_OPENER_MANAGED = path.join(dir, "managed.json");
+  const cfg = defaultConfig();
+  cfg.profiles = [newProfile("Front", { printerIp: "10.0.0.5" })];
+  cfg.defaultProfileId = cfg.profiles[0].id;
+  for (const u of users) cfg.users.push(newUser(u.name, u.role, hashPin(u.pin)));
+  writeConfigFile(path.join(dir, "config.json"), cfg);
+  const data = dir;
+  const run = (argv: string[], lines: string[] = []) =>
+    runCli(argv, { dataDir: data, stdin: Readable.from(lines.map((l) => l + "\n")) });
+  const config = () => readConfigFile(path.join(data, "config.json")).config;
+  return { run, config, dir: data };
+}
+
+const ANA = { name: "Ana", role: "admin" as Role, pin: "4321" };
+const BEN = { name: "Ben", role: "staff" as Role, pin: "1111" };
+
+test("set-pin resets a PIN with the admin PIN and the new one twice", async () => {
+  const { run, config, dir } = setup([ANA, BEN]);
+  const r = await run(["set-pin", "ben"], ["4321", "2468", "2468"]);
+  assert.equal(r.code, 0, r.text);
+  const ben = config().users.find((u) => u.name === "Ben")!;
+  assert.ok(verifyPin("2468", ben.pinHash));
+
+  const reset = readAudit(path.join(dir, "audit.log")).find((a) => a.type === "pin_set");
+  assert.equal(reset?.user, "Ana");
+  assert.equal(reset?.source, "cli");
+  assert.deepEqual(reset?.detail, { action: "reset", id: ben.id, name: "Ben" });
+});
+
+test("set-pin refuses a staff PIN and mismatched new PINs", async () => {
+  const { run, config } = setup([ANA, BEN]);
+  const before = config().users.find((u) => u.name === "Ben")!.pinHash;
+
+  const staff = await run(["set-pin", "Ben"], ["1111", "2468", "2468"]);
+  assert.equal(staff.code, 3);
+  const mismatch = await run(["set-pin", "Ben"], ["4321", "2468", "2469"]);
+  assert.equal(mismatch.code, 2);
+  assert.equal(config().users.find((u) => u.name === "Ben")!.pinHash, before);
+});
+
+test("audit export writes the log as CSV after an admin PIN", async () => {
+  const { run, dir } = setup([ANA, BEN]);
+  const out = path.join(dir, "export.csv");
+  const r = await run(["audit", "export", "--out", out, "--json"], ["4321"]);
+  assert.equal(r.code, 0, r.text);
+  assert.equal(r.json, true);
+
+  const lines = fs.readFileSync(out, "utf8").trimEnd().split("\n");
+  assert.equal(lines[0], "seq,ts,type,source,user,scope,ok,detail,hash");
+  assert.equal(lines.length - 1, r.data.count);
+  assert.match(lines[lines.length - 1], /,pin_accepted,cli,Ana,admin,/);
+});
+
+test("audit export needs the admin PIN on stdin", async () => {
+  const { run, dir } = setup([ANA, BEN]);
+  const out = path.join(dir, "export.csv");
+  assert.equal((await run(["audit", "export", "--out", out])).code, 2);
+  assert.equal((await run(["audit", "export", "--out", out], ["1111"])).code, 3);
+  assert.equal(fs.existsSync(out), false);
+});
+
+test("only command names start the command line instead of the tray", () => {
+  assert.equal(isCliCommand("open"), true);
+  assert.equal(isCliCommand("set-pin"), true);
+  assert.equal(isCliCommand(undefined), false);
+  assert.equal(isCliCommand("--squirrel-firstrun"), false);
+  assert.equal(isCliCommand("."), false);
+});
@@ -0,0 +1,184 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CONFIG_VERSION, ConfigError, backupPath, defaultConfig, migrateConfig, readConfigFile, validateConfig } from "../src/config";
+import { hashPin, verifyPin } from "../src/pins";
+
+// ----------------------------
+// Config files and migrations
+// ----------------------------
+// Real files in a temp dir; the version 1 shape is what stations wrote
+// before accounts and drawer profiles existed.
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+function configFile(contents?: string) {
+  dir ??= fs.mkdtempSync(path.join(os.tmpdir(), "drawer-config-"));
+  const file = path.join(dir, "config.json");
+  if (contents !== undefined) fs.writeFileSync(file, contents);
+  return file;
+}
+
+const legacy = () => ({
+  pinHash: hashPin("1111"),
+  adminHash: hashPin("9999"),
+  printerIp: "192.168.1.50",
+  printerPort: 9100,
+  drawerChannel: 1,
+  pulseOn: 25,
+  pulseOff: 250,
+  openAlertSecs: 30,
+});
+
+// What a file at `version` held: defaults minus whatever later steps added.
+const ADDED_AT: Record<number, string> = {
+  3: "shifts", 4: "policy", 5: "receipts", 6: "emulator", 7: "hotkeys", 8: "health", 9: "adminIdleMins", 10: "pinPad",
+};
+
+function writtenAt(version: number) {
+  const raw: Record<string, unknown> = { ...defaultConfig(), version };
+  for (const [to, key] of Object.entries(ADDED_AT)) if (Number(to) > version) delete raw[key];
+  return raw;
+}
+
+test("a version 1 file becomes accounts and a Default drawer, and is written back once", () => {
+  const text = JSON.stringify(legacy());
+  const file = configFile(text);
+
+  const { config, changes } = readConfigFile(file);
+  assert.equal(config.version, CONFIG_VERSION);
+  assert.deepEqual(changes.version, { from: 1, to: CONFIG_VERSION });
+  assert.deepEqual(config.users.map((u) => [u.name, u.role]), [["Admin", "admin"], ["Staff", "staff"]]);
+  assert.ok(verifyPin("9999", config.users[0].pinHash));
+  assert.equal(config.profiles.length, 1);
+  assert.equal(config.profiles[0].name, "Default");
+  assert.equal(config.defaultProfileId, config.profiles[0].id);
+  assert.deepEqual(validateConfig(config), []);
+
+  // The old file is kept as .bak; the new one reads back without changes
+  assert.equal(fs.readFileSync(backupPath(file), "utf8"), text);
+  assert.deepEqual(JSON.parse(fs.readFileSync(file, "utf8")), JSON.parse(JSON.stringify(config)));
+  assert.deepEqual(readConfigFile(file).changes, {});
+});
+
+test("every older schema gets exactly the settings added since", () => {
+  for (let version = 2; version < CONFIG_VERSION; version++) {
+    const raw: any = writtenAt(version);
+    const changes = migrateConfig(raw);
+    assert.deepEqual(changes, { version: { from: version, to: CONFIG_VERSION } }, `from ${version}`);
+    assert.deepEqual(validateConfig(raw), [], `from ${version}`);
+    assert.deepEqual(Object.keys(raw).sort(), Object.keys(defaultConfig()).sort(), `from ${version}`);
+  }
+});
+
+test("printer checks start on for new stations but stay off for upgraded ones", () => {
+  assert.ok(defaultConfig().health.intervalSecs > 0);
+  const raw: any = writtenAt(7);
+  migrateConfig(raw);
+  assert.equal(raw.health.intervalSecs, 0);
+});
+
+test("settings already there are kept when later steps run", () => {
+  const raw: any = writtenAt(3);
+  raw.shifts = { enabled: true };
+  raw.openAlertSecs = 15;
+  migrateConfig(raw);
+  assert.deepEqual(raw.shifts, { enabled: true });
+  assert.equal(raw.openAlertSecs, 15);
+});
+
+test("a file from a newer version is refused and left as it was", () => {
+  const text = JSON.stringify({ ...defaultConfig(), version: CONFIG_VERSION + 1 });
+  const file = configFile(text);
+  assert.throws(() => readConfigFile(file), (e) => e instanceof ConfigError && /newer version/.test(e.message));
+  assert.equal(fs.readFileSync(file, "utf8"), text);
+  assert.equal(fs.existsSync(backupPath(file)), false);
+});
+
+test("a damaged or invalid file is refused and left as it was", () => {
+  for (const text of ["{\"version\": 3,", "[]", JSON.stringify({ ...defaultConfig(), openAlertSecs: -1 }), JSON.stringify({ version: "x" })]) {
+    const file = configFile(text);
+    assert.throws(() => readConfigFile(file), ConfigError, text);
+    assert.equal(fs.readFileSync(file, "utf8"), text);
+    assert.equal(fs.existsSync(backupPath(file)), false);
+  }
+});
+
+test("no file is a first run: defaults, no admin, nothing written", () => {
+  const file = configFile();
+  const { config, changes } = readConfigFile(file);
+  assert.deepEqual(changes, {});
+  assert.deepEqual(config.users, []);
+  assert.equal(config.version, CONFIG_VERSION);
+  assert.equal(fs.existsSync(file), false);
+});
+
+test("shared PINs become one account each and the old hashes are dropped", () => {
+  const raw: any = legacy();
+  const changes = migrateConfig(raw);
+  assert.deepEqual(changes.users, { from: "shared PINs", to: ["Admin (admin)", "Staff (staff)"] });
+  assert.ok(verifyPin("1111", raw.users[1].pinHash));
+  assert.equal("pinHash" in raw, false);
+  assert.equal("adminHash" in raw, false);
+});
+
+test("one PIN shared by staff and admin becomes a single admin account", () => {
+  const admin = hashPin("9999");
+  const raw: any = { ...legacy(), pinHash: admin, adminHash: admin };
+  migrateConfig(raw);
+  assert.deepEqual(raw.users.map((u: any) => [u.name, u.role]), [["Admin", "admin"]]);
+});
+
+test("an accounts list already in the file is cleaned, not replaced", () => {
+  const raw: any = {
+    ...legacy(),
+    users: [
+      { id: "u1", name: "  Ana ", role: "manager", pinHash: hashPin("4321") },
+      { id: "u2", name: "No PIN", role: "staff" },
+      { id: "u3", name: "Odd", role: "owner", pinHash: hashPin("1234") },
+    ],
+  };
+  const changes = migrateConfig(raw);
+  assert.equal(changes.users, undefined);
+  assert.deepEqual(raw.users.map((u: any) => [u.id, u.name, u.role, u.disabled]), [["u1", "Ana", "manager", false]]);
+  assert.deepEqual(validateConfig(raw), []);
+});
+
+test("the single printer becomes the Default drawer with its settings", () => {
+  const raw: any = legacy();
+  const changes = migrateConfig(raw);
+  assert.deepEqual(changes.profiles, { from: "single printer", to: ["Default"] });
+  const [drawer] = raw.profiles;
+  assert.deepEqual(
+    [drawer.printerIp, drawer.printerPort, drawer.drawerChannel, drawer.pulseOn, drawer.pulseOff],
+    ["192.168.1.50", 9100, 1, 25, 250],
+  );
+  assert.equal(raw.defaultProfileId, drawer.id);
+  for (const k of ["printerIp", "printerPort", "drawerChannel", "pulseOn", "pulseOff"]) assert.equal(k in raw, false, k);
+});
+
+test("pulse widths and ports out of range are clamped rather than refused", () => {
+  const raw: any = { ...legacy(), printerPort: 70000, pulseOn: 999, pulseOff: -5 };
+  migrateConfig(raw);
+  assert.deepEqual([raw.profiles[0].printerPort, raw.profiles[0].pulseOn, raw.profiles[0].pulseOff], [65535, 255, 0]);
+  assert.deepEqual(validateConfig(raw), []);
+});
+
+test("a file without a printer gets an empty Default drawer, and profiles already there are kept", () => {
+  const bare: any = { adminHash: hashPin("9999") };
+  const changes = migrateConfig(bare);
+  assert.equal(changes.profiles, undefined);
+  assert.deepEqual(bare.profiles.map((p: any) => [p.name, p.printerIp]), [["Default", ""]]);
+
+  const front = { ...defaultConfig().profiles[0], id: "front", name: "Front", printerIp: "10.0.0.9" };
+  const listed: any = { ...legacy(), profiles: [front], defaultProfileId: "front" };
+  assert.equal(migrateConfig(listed).profiles, undefined);
+  assert.deepEqual(listed.profiles.map((p: any) => [p.id, p.printerIp]), [["front", "10.0.0.9"]]);
+  assert.equal(listed.defaultProfileId, "front");
+});
@@ -0,0 +1,70 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as net from "net";
+import { scanHosts } from "../src/discovery";
+
+// ----------------------------
+// Printer discovery
+// ----------------------------
+// Listeners on 127.0.0.1 stand in for printers; a port that was listened on
+// and closed again stands in for a host with nothing there.
+const servers: net.Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise((res) => s.close(res))));
+});
+
+async function listen(): Promise<number> {
+  const server = net.createServer((socket) => socket.destroy());
+  await new Promise<void>((res) => server.listen(0, "127.0.0.1", res));
+  servers.push(server);
+  return (server.address() as net.AddressInfo).port;
+}
+
+async function closedPort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((res) => server.listen(0, "127.0.0.1", res));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((res) => server.close(res));
+  return port;
+}
+
+test("listening ports are found and closed ones skipped, sorted by port", async () => {
+  const [a, b, shut] = [await listen(), await listen(), await closedPort()];
+  const progress: number[] = [];
+  const found = await scanHosts(["127.0.0.1"], {
+    ports: [Math.max(a, b), shut, Math.min(a, b)],
+    timeoutMs: 1000,
+    onProgress: (done, total) => progress.push(done / total),
+  });
+
+  assert.deepEqual(found.map((f) => [f.host, f.port]), [["127.0.0.1", Math.min(a, b)], ["127.0.0.1", Math.max(a, b)]]);
+  assert.ok(found.every((f) => f.ms >= 0));
+  assert.deepEqual(progress, [1 / 3, 2 / 3, 1]);
+});
+
+test("a scan aborted part way stops probing and returns what it found", async () => {
+  const port = await listen();
+  const controller = new AbortController();
+  let probed = 0;
+  const started = Date.now();
+  const found = await scanHosts(Array(50).fill("127.0.0.1"), {
+    ports: [port],
+    concurrency: 1,
+    signal: controller.signal,
+    onFound: () => controller.abort(),
+    onProgress: () => { probed++; },
+  });
+
+  assert.equal(found.length, 1);
+  assert.equal(probed, 1);
+  assert.ok(Date.now() - started < 2000);
+});
+
+test("an already aborted scan probes nothing", async () => {
+  const port = await listen();
+  let probed = 0;
+  const found = await scanHosts(["127.0.0.1"], { ports: [port], signal: AbortSignal.abort(), onProgress: () => { probed++; } });
+  assert.deepEqual(found, []);
+  assert.equal(probed, 0);
+});
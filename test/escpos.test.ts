@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { EscPos, toPrinterText } from "../src/escpos";
+import { kickBytes } from "../src/drawer";
+import { newProfile } from "../src/profiles";
+import { assertGolden } from "./golden";
+
+test("every command, in one document", () => {
+  const doc = new EscPos()
+    .align("center").bold().size(2).line("Title").size(1).bold(false)
+    .align("left").line("left").align("right").line("right")
+    .columns("Total", "12.50", 32)
+    .rule(32)
+    .feed(2)
+    .barcode("ABC-123")
+    .qr("https://example.com/r/1")
+    .cut(true)
+    .kick(1, 25, 250)
+    .build();
+  assertGolden("escpos-commands", doc);
+});
+
+test("documents start with ESC @", () => {
+  assert.deepEqual([...new EscPos().build()], [0x1b, 0x40]);
+});
+
+test("kick matches the drawer's own kick bytes", () => {
+  const p = { ...newProfile("Front"), drawerChannel: 1 as const, pulseOn: 60, pulseOff: 120 };
+  const doc = new EscPos().kick(p.drawerChannel, p.pulseOn, p.pulseOff).build();
+  assert.deepEqual(doc.subarray(2), kickBytes(p));
+});
+
+test("text is folded to ASCII and control bytes are dropped", () => {
+  assert.equal(toPrinterText("NO SALE — Jo’s “till” …").toString("ascii"), "NO SALE - Jo's \"till\" ...");
+  assert.equal(toPrinterText("Café\x1b@\x07").toString("ascii"), "Caf?@");
+});
+
+test("barcode and QR lengths are checked", () => {
+  assert.throws(() => new EscPos().barcode(""));
+  assert.throws(() => new EscPos().barcode("x".repeat(254)));
+  assert.throws(() => new EscPos().qr(""));
+});
+
+test("QR store length is little-endian past 255 bytes", () => {
+  const doc = new EscPos().qr("x".repeat(300)).build();
+  const at = doc.indexOf(Buffer.from([0x31, 0x50, 0x30]));
+  assert.deepEqual([...doc.subarray(at - 2, at)], [(303) & 0xff, 303 >> 8]);
+});
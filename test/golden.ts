@@ -0,0 +1,39 @@
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+
+// ----------------------------
+// Golden files
+// ----------------------------
+// Byte streams are compared against test/golden/<name>.bin. After an
+// intended change to the output, regenerate with
+//
+//   UPDATE_GOLDEN=1 npm test
+//
+// and review the new files like any other diff. Mismatches are shown as hex
+// dumps, 16 bytes a line, so the assertion diff points at the bytes that moved.
+const DIR = path.join(__dirname, "golden");
+
+function hexDump(buf: Buffer): string {
+  const rows: string[] = [];
+  for (let i = 0; i < buf.length; i += 16) {
+    const chunk = buf.subarray(i, i + 16);
+    const hex = Array.from(chunk, (b) => b.toString(16).padStart(2, "0")).join(" ");
+    const ascii = Array.from(chunk, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+    rows.push(`${i.toString(16).padStart(6, "0")}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return rows.join("\n");
+}
+
+export function assertGolden(name: string, actual: Buffer) {
+  const file = path.join(DIR, `${name}.bin`);
+  if (process.env.UPDATE_GOLDEN) {
+    fs.mkdirSync(DIR, { recursive: true });
+    fs.writeFileSync(file, actual);
+    return;
+  }
+  if (!fs.existsSync(file)) {
+    assert.fail(`No golden file ${path.relative(process.cwd(), file)}; run with UPDATE_GOLDEN=1 to create it.`);
+  }
+  assert.equal(hexDump(actual), hexDump(fs.readFileSync(file)), `${name} differs from its golden file`);
+}
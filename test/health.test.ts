@@ -0,0 +1,88 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import { HEALTH_FAILURES, startHealthMonitor } from "../src/health";
+import type { HealthMonitor } from "../src/health";
+import type { DrawerState, ProbeResult } from "../src/drawer";
+import { newProfile } from "../src/profiles";
+
+// ----------------------------
+// Printer health
+// ----------------------------
+// A scripted probe and a clock the test moves. The interval is long enough
+// never to fire, so rounds only run when the test calls check().
+const FRONT = newProfile("Front", { printerIp: "10.0.0.9" });
+let monitor: HealthMonitor | undefined;
+
+afterEach(() => {
+  monitor?.stop();
+  monitor = undefined;
+});
+
+const answers = (drawer: DrawerState = "closed"): ProbeResult => ({ ok: true, drawer, elapsedMs: 5 });
+const silent: ProbeResult = { ok: false, drawer: "unknown", category: "timeout", error: "No answer", elapsedMs: 3000 };
+
+async function setup(first: ProbeResult) {
+  let t = 1_000;
+  let next = first;
+  const changes: string[] = [];
+  const drawers: DrawerState[] = [];
+  monitor = startHealthMonitor({
+    intervalMs: 3_600_000,
+    profiles: () => [FRONT],
+    probe: async () => next,
+    onChange: (_p, h, previous) => changes.push(`${previous}→${h.printer}`),
+    onDrawer: (_p, state) => drawers.push(state),
+    now: () => t,
+  });
+  await monitor.check();   // the round started on creation
+  const round = async (r: ProbeResult) => {
+    t += 60_000;
+    next = r;
+    await monitor!.check();
+  };
+  return { monitor, changes, drawers, round };
+}
+
+test("a printer that stops answering is unreachable only after repeated misses, then recovers", async () => {
+  const { monitor, changes, round } = await setup(answers());
+  assert.equal(monitor.get(FRONT.id).printer, "reachable");
+
+  await round(silent);
+  assert.equal(monitor.get(FRONT.id).printer, "reachable");
+  assert.equal(monitor.get(FRONT.id).failures, 1);
+
+  for (let i = 1; i < HEALTH_FAILURES; i++) await round(silent);
+  const down = monitor.get(FRONT.id);
+  assert.equal(down.printer, "unreachable");
+  assert.equal(down.category, "timeout");
+  assert.equal(down.since, 1_000 + HEALTH_FAILURES * 60_000);
+
+  await round(answers());
+  const back = 1_000 + (HEALTH_FAILURES + 1) * 60_000;
+  assert.deepEqual(monitor.get(FRONT.id), { printer: "reachable", since: back, checkedAt: back, category: undefined, error: undefined, failures: 0 });
+  assert.deepEqual(changes, ["unknown→reachable", "reachable→unreachable", "unreachable→reachable"]);
+});
+
+test("a failed kick marks the printer unreachable at once and a good one brings it back", async () => {
+  const { monitor, changes } = await setup(answers());
+  monitor.report(FRONT, false, { category: "refused", error: "ECONNREFUSED" });
+  assert.equal(monitor.get(FRONT.id).printer, "unreachable");
+  monitor.report(FRONT, true);
+  assert.equal(monitor.get(FRONT.id).printer, "reachable");
+  assert.deepEqual(changes, ["unknown→reachable", "reachable→unreachable", "unreachable→reachable"]);
+});
+
+test("a drawer seen open by a check is passed on, and a silent printer says nothing about it", async () => {
+  const { drawers, round } = await setup(answers());
+  await round(answers("open"));
+  await round(silent);
+  await round(answers("unknown"));
+  assert.deepEqual(drawers, ["closed", "open"]);
+});
+
+test("nothing is reported after the monitor is stopped", async () => {
+  const { monitor, changes, round } = await setup(answers());
+  monitor.stop();
+  for (let i = 0; i < HEALTH_FAILURES; i++) await round(silent);
+  assert.deepEqual(changes, ["unknown→reachable"]);
+});
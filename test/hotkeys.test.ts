@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { acceleratorProblem, describeAccelerator, isAccelerator, normalizeAccelerator, resolveHotkeys } from "../src/hotkeys";
+import type { HotkeyBinding } from "../src/hotkeys";
+import { PayloadError, parseHotkeys } from "../src/payloads";
+
+// ----------------------------
+// Hotkeys
+// ----------------------------
+const binding = (id: string, accelerator: string): HotkeyBinding => ({ id, label: id, accelerator });
+
+test("combinations are read in Electron's syntax, whatever the case and spacing", () => {
+  for (const acc of ["CommandOrControl+Shift+O", "ctrl + alt + 5", "CmdOrCtrl+Plus", "Alt+F4", "Shift+num7", "Super+Esc", "F13"]) {
+    assert.equal(acceleratorProblem(acc), null, acc);
+  }
+});
+
+test("combinations that can't be pressed or parsed are refused", () => {
+  for (const acc of ["", "Ctrl+", "Ctrl++", "Ctrl+Ctrl+O", "Hyper+O", "Ctrl+Shift", "Ctrl+F25", "Ctrl+Banana"]) {
+    assert.match(acceleratorProblem(acc) ?? "", /isn’t a key combination/, JSON.stringify(acc));
+  }
+});
+
+test("a key on its own is refused, except the F13–F24 keys nothing types", () => {
+  for (const acc of ["O", "Enter", "F1", "F12", "Space"]) {
+    assert.match(acceleratorProblem(acc) ?? "", /needs Ctrl, Alt, Shift or ⌘/, acc);
+  }
+  assert.equal(isAccelerator("F24"), true);
+});
+
+test("spellings of the same keys normalize alike, per platform", () => {
+  assert.equal(normalizeAccelerator("ctrl+shift+o", "win32"), "Control+Shift+O");
+  assert.equal(normalizeAccelerator("Shift+CommandOrControl+O", "win32"), "Control+Shift+O");
+  assert.equal(normalizeAccelerator("Shift+CommandOrControl+O", "darwin"), "Shift+Command+O");
+  assert.equal(normalizeAccelerator("CmdOrCtrl+Control+O", "linux"), "Control+O");
+  assert.equal(normalizeAccelerator("Option+Esc", "linux"), "Alt+Escape");
+  assert.equal(normalizeAccelerator("Ctrl+", "linux"), null);
+});
+
+test("combinations are shown the way each platform writes them", () => {
+  assert.equal(describeAccelerator("CommandOrControl+Shift+O", "darwin"), "⇧⌘O");
+  assert.equal(describeAccelerator("CommandOrControl+Shift+O", "win32"), "Ctrl+Shift+O");
+  assert.equal(describeAccelerator("Super+D", "linux"), "Win+D");
+});
+
+test("the same keys on two drawers register once; the second is a duplicate", () => {
+  const registered: string[] = [];
+  const statuses = resolveHotkeys(
+    [binding("openDrawer", "CommandOrControl+Shift+O"), binding("profile:front", "Ctrl+Alt+1"), binding("profile:back", "alt+control+1")],
+    "both",
+    "win32",
+    (b) => { registered.push(b.id); return true; },
+  );
+  assert.deepEqual(statuses.map((s) => s.state), ["registered", "registered", "duplicate"]);
+  assert.equal(statuses[2].problem, "is also set for another Drawer Opener hotkey");
+  assert.equal(statuses[2].display, "Ctrl+Alt+1");
+  assert.deepEqual(registered, ["openDrawer", "profile:front"]);
+});
+
+test("what the OS refuses is taken, what it can't parse is invalid, and tray-only registers nothing", () => {
+  const bindings = [binding("a", "Ctrl+Shift+O"), binding("b", "Ctrl+Shift+P"), binding("c", "Q")];
+  const states = resolveHotkeys(bindings, "both", "linux", (b) => {
+    if (b.id === "b") throw new Error("Accelerator not supported");
+    return false;
+  }).map((s) => s.state);
+  assert.deepEqual(states, ["taken", "invalid", "invalid"]);
+
+  let asked = 0;
+  const off = resolveHotkeys(bindings, "tray_only", "linux", () => { asked++; return true; });
+  assert.deepEqual(off.map((s) => [s.state, s.problem]), [["off", undefined], ["off", undefined], ["off", undefined]]);
+  assert.equal(asked, 0);
+});
+
+test("Settings can't save a hotkey that would be refused", () => {
+  assert.throws(() => parseHotkeys({ mode: "both", openDrawer: "O", openSettings: "" }), PayloadError);
+  assert.throws(() => parseHotkeys({ mode: "everywhere", openDrawer: "", openSettings: "" }), /Hotkey mode/);
+  assert.deepEqual(parseHotkeys({ mode: "hotkey_only", openDrawer: " Ctrl+Shift+O ", openSettings: "" }), {
+    mode: "hotkey_only",
+    openDrawer: "Ctrl+Shift+O",
+    openSettings: "",
+  });
+});
@@ -0,0 +1,221 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { startEmulator } from "../src/emulator";
+import type { Emulator, EmulatorOptions } from "../src/emulator";
+import { describeKickFailure, kickBytes, kickDrawer, printDocument, queryDrawer } from "../src/drawer";
+import { newProfile } from "../src/profiles";
+import type { DrawerProfile } from "../src/profiles";
+import { EscPos } from "../src/escpos";
+import { openLink } from "../src/transport";
+import type { LinkOpener } from "../src/transport";
+
+// ----------------------------
+// Kick path against the emulator
+// ----------------------------
+// Real sockets on 127.0.0.1, one emulator per test. Short pulses keep the
+// post-kick status wait (pulse + 300 ms) quick.
+let emu: Emulator | undefined;
+let dir: string | undefined;
+
+afterEach(async () => {
+  await emu?.close();
+  emu = undefined;
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+async function setup(opts: EmulatorOptions = {}, profile: Partial<DrawerProfile> = {}) {
+  emu = await startEmulator(opts);
+  const p = newProfile("Emulated", { printerIp: "127.0.0.1", printerPort: emu.port, pulseOn: 10, pulseOff: 10, ...profile });
+  return { emu, p };
+}
+
+test("kick opens the drawer and the status read confirms it", async () => {
+  const { emu, p } = await setup({}, { drawerChannel: 1 });
+  const r = await kickDrawer(p);
+  assert.equal(r.ok, true);
+  assert.equal(r.drawer, "open");
+  assert.equal(r.attempts, 1);
+  assert.equal(emu.drawer, "open");
+  assert.deepEqual(emu.events.find((e) => e.type === "kick"), { type: "kick", pin: 1, onMs: 20, offMs: 20, opened: true });
+});
+
+test("status query follows the drawer", async () => {
+  const { emu, p } = await setup();
+  assert.equal(await queryDrawer(p), "closed");
+  await kickDrawer(p);
+  assert.equal(await queryDrawer(p), "open");
+  emu.closeDrawer();
+  assert.equal(await queryDrawer(p), "closed");
+});
+
+test("drawer auto-closes after the configured time", async () => {
+  const { emu, p } = await setup({ autoCloseMs: 100 });
+  await kickDrawer(p, { timeoutMs: 1000 });
+  await new Promise((r) => setTimeout(r, 150));
+  assert.equal(emu.drawer, "closed");
+});
+
+test("sensor wired low is read through openLevel", async () => {
+  const { p } = await setup({ openLevel: "low" }, { openLevel: "low" });
+  const r = await kickDrawer(p);
+  assert.equal(r.drawer, "open");
+});
+
+test("statusQuery off trusts the write", async () => {
+  const { emu, p } = await setup({}, { statusQuery: false });
+  const r = await kickDrawer(p);
+  assert.deepEqual([r.ok, r.drawer], [true, "unknown"]);
+  assert.equal(emu.events.some((e) => e.type === "status"), false);
+});
+
+test("stuck drawer is reported as drawer_closed", async () => {
+  const { p } = await setup({ faults: { drawerStuck: true } });
+  const r = await kickDrawer(p, { retries: 2 });
+  assert.equal(r.ok, false);
+  assert.equal(r.category, "drawer_closed");
+  assert.equal(r.attempts, 1, "drawer_closed is not retried");
+});
+
+test("refused connections are retried, then reported", async () => {
+  const { emu, p } = await setup({ faults: { refuse: true } });
+  const r = await kickDrawer(p, { retries: 2, retryDelayMs: 20 });
+  assert.equal(r.ok, false);
+  assert.equal(r.category, "refused");
+  assert.equal(r.attempts, 3);
+  assert.equal(emu.drawer, "closed");
+});
+
+test("a printer that comes back is caught by a retry", async () => {
+  const { emu, p } = await setup({ faults: { refuse: true } });
+  setTimeout(() => { emu.setFaults({}); }, 50);
+  const r = await kickDrawer(p, { retries: 2, retryDelayMs: 200 });
+  assert.equal(r.ok, true);
+  assert.equal(r.attempts, 2);
+  assert.equal(emu.drawer, "open");
+});
+
+test("a kick that fails once connected isn't sent again", async () => {
+  let connects = 0;
+  const writes: Buffer[] = [];
+  const connect: LinkOpener = async () => {
+    connects++;
+    return {
+      write: async (data) => {
+        writes.push(data);
+        throw Object.assign(new Error("write ETIMEDOUT"), { code: "ETIMEDOUT" });
+      },
+      close: async () => {},
+    };
+  };
+  const r = await kickDrawer(newProfile("Flaky", { printerIp: "10.0.0.5" }), { retries: 2, retryDelayMs: 10, connect });
+  assert.deepEqual([r.ok, r.category, r.attempts], [false, "timeout", 1]);
+  assert.equal(connects, 1);
+  assert.equal(writes.length, 1);
+});
+
+test("slow status replies fall back to unknown", async () => {
+  const { emu, p } = await setup({ faults: { slowMs: 1200 } });
+  const r = await kickDrawer(p);
+  assert.deepEqual([r.ok, r.drawer], [true, "unknown"]);
+  await new Promise((res) => setTimeout(res, 1300));
+  assert.equal(emu.drawer, "open", "the kick still lands, just late");
+});
+
+test("connection dropped after the kick still counts as sent", async () => {
+  const { emu, p } = await setup({ faults: { drop: "kick" } });
+  const r = await kickDrawer(p);
+  assert.deepEqual([r.ok, r.drawer], [true, "unknown"]);
+  assert.equal(emu.drawer, "open");
+});
+
+test("slip prints after the kick on the same connection", async () => {
+  const { emu, p } = await setup();
+  const slip = new EscPos().line("NO SALE - Jamie").cut().build();
+  const r = await kickDrawer(p, { slip });
+  assert.equal(r.slip, "printed");
+  await new Promise((res) => setTimeout(res, 50));
+  assert.deepEqual(emu.printed(), ["NO SALE - Jamie"]);
+  assert.equal(emu.events.filter((e) => e.type === "connect").length, 1);
+  assert.ok(emu.events.findIndex((e) => e.type === "kick") < emu.events.findIndex((e) => e.type === "line"));
+});
+
+test("paper out loses the slip but not the kick", async () => {
+  const { emu, p } = await setup({ faults: { paperOut: true } });
+  const r = await kickDrawer(p, { slip: new EscPos().line("lost").cut().build() });
+  assert.equal(r.ok, true);
+  await new Promise((res) => setTimeout(res, 50));
+  assert.equal(emu.drawer, "open");
+  assert.deepEqual(emu.printed(), []);
+  assert.equal(emu.events.find((e) => e.type === "status" && e.query === 1)?.type, "status");
+});
+
+test("one connection answers every status read, including late replies", async () => {
+  const { p } = await setup();
+  const link = await openLink(p, 1000);
+  const query = Buffer.from([0x10, 0x04, 0x01]);
+  try {
+    await link.write(query);
+    assert.equal((await link.read!(500))?.length, 1);
+    await link.write(query);
+    await new Promise((res) => setTimeout(res, 100));   // reply arrives before the read
+    assert.equal((await link.read!(500))?.length, 1);
+    await link.write(query);
+    assert.equal((await link.read!(500))?.length, 1);
+  } finally {
+    await link.close();
+  }
+});
+
+test("a device path gets the kick bytes, then the status query", async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "drawer-kick-"));
+  const devicePath = path.join(dir, "lp0");
+  fs.writeFileSync(devicePath, "");
+  const p = newProfile("USB", { transport: "device", devicePath, drawerChannel: 1, pulseOn: 10, pulseOff: 10 });
+
+  const r = await kickDrawer(p);
+  assert.equal(r.ok, true);
+  assert.equal(r.drawer, "unknown");   // a plain file never answers
+  assert.deepEqual(kickBytes(p), Buffer.from([0x1b, 0x70, 1, 10, 10]));
+  assert.deepEqual(fs.readFileSync(devicePath), Buffer.concat([kickBytes(p), Buffer.from([0x10, 0x04, 0x01])]));
+});
+
+test("a device path that can't be opened is reported, not retried", async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "drawer-kick-"));
+  const p = newProfile("USB", { transport: "device", devicePath: path.join(dir, "missing", "lp0") });
+
+  const r = await kickDrawer(p, { retries: 2, retryDelayMs: 10 });
+  assert.equal(r.ok, false);
+  assert.equal(r.category, "device");
+  assert.equal(r.attempts, 1);
+  assert.match(describeKickFailure(p, r), /Couldn't use .*lp0/);
+});
+
+test("a queue name that isn't a plain printer name is never handed to the OS", async () => {
+  const p = newProfile("Queued", { transport: "queue", queueName: "Receipt & del C:\\x" });
+  const r = await kickDrawer(p);
+  assert.equal(r.ok, false);
+  assert.match(r.error ?? "", /not a printer queue name/);
+});
+
+test("documents are parsed into lines, codes and cuts", async () => {
+  const { emu, p } = await setup();
+  const doc = new EscPos().align("center").bold().line("Title").bold(false).barcode("REF1").qr("Z-1").cut(true).build();
+  const r = await printDocument(p, doc);
+  assert.equal(r.ok, true);
+  await new Promise((res) => setTimeout(res, 50));
+  assert.deepEqual(
+    emu.events.filter((e) => e.type !== "connect"),
+    [
+      { type: "line", text: "Title" },
+      { type: "barcode", data: "REF1" },
+      { type: "line", text: "" },
+      { type: "qr", data: "Z-1" },
+      { type: "line", text: "" },
+      { type: "cut", partial: true },
+    ],
+  );
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { LOCKOUT_POLICY, formatWait, lockedFor, recordFailure, recordSuccess } from "../src/lockout";
+import type { LockoutState } from "../src/lockout";
+
+// ----------------------------
+// Failed-PIN lockout
+// ----------------------------
+const NOW = Date.UTC(2026, 2, 2, 10, 0);
+
+function missTimes(state: LockoutState, n: number, scope: "staff" | "admin" = "admin") {
+  const delays = [];
+  for (let i = 0; i < n; i++) delays.push(recordFailure(state, scope, NOW));
+  return delays;
+}
+
+test("the fifth miss in a row locks the prompt, and each one after doubles the wait", () => {
+  const state: LockoutState = {};
+  assert.deepEqual(missTimes(state, 7), [0, 0, 0, 0, 30_000, 60_000, 120_000]);
+  assert.equal(lockedFor(state, "admin", NOW), 120_000);
+  assert.equal(lockedFor(state, "admin", NOW + 120_000), 0);
+});
+
+test("the wait stops growing at an hour", () => {
+  const state: LockoutState = {};
+  const delays = missTimes(state, 20);
+  assert.equal(delays[delays.length - 1], LOCKOUT_POLICY.maxDelayMs);
+  assert.ok(delays.every((d) => d <= 60 * 60_000));
+});
+
+test("staff and admin prompts count separately, and a pass clears only its own", () => {
+  const state: LockoutState = {};
+  missTimes(state, 5, "admin");
+  missTimes(state, 2, "staff");
+  assert.equal(lockedFor(state, "staff", NOW), 0);
+  assert.ok(lockedFor(state, "admin", NOW) > 0);
+
+  recordSuccess(state, "staff");
+  assert.equal(state.staff, undefined);
+  assert.equal(state.admin?.failures, 5);
+});
+
+test("waits read in whole seconds, then minutes", () => {
+  assert.equal(formatWait(1), "1 second");
+  assert.equal(formatWait(30_000), "30 seconds");
+  assert.equal(formatWait(61_000), "2 minutes");
+  assert.equal(formatWait(60 * 60_000), "60 minutes");
+});
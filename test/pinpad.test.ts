@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { defaultPinPad, isPinLength, pinPadView, pinRuleProblem, pinRuleTightened } from "../src/pinpad";
+import type { PinPadSettings } from "../src/pinpad";
+
+// ----------------------------
+// On-screen PIN pad
+// ----------------------------
+const pad = (s: Partial<PinPadSettings>): PinPadSettings => ({ ...defaultPinPad(), ...s });
+
+test("no keypad is shown with the pad off", () => {
+  assert.equal(pinPadView(pad({})), undefined);
+});
+
+test("keys keep phone order unless shuffled", () => {
+  const view = pinPadView(pad({ mode: "fullscreen", length: 4 }));
+  assert.deepEqual(view, { keys: ["1", "2", "3", "4", "5", "6", "7", "8", "9", "0"], length: 4, fullscreen: true });
+});
+
+test("shuffled keys are a new order of the same ten digits", () => {
+  // Always swapping with the first slot rotates the row by one
+  const view = pinPadView(pad({ mode: "window", shuffle: true }), () => 0);
+  assert.deepEqual(view?.keys, ["2", "3", "4", "5", "6", "7", "8", "9", "0", "1"]);
+
+  const random = pinPadView(pad({ mode: "window", shuffle: true }))!;
+  assert.deepEqual([...random.keys].sort(), ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+});
+
+test("with the pad on, PINs are digits only and of the auto-submit length", () => {
+  assert.equal(pinRuleProblem("ab12", pad({})), null);
+  assert.match(pinRuleProblem("ab12", pad({ mode: "window" })) ?? "", /only be digits/);
+  assert.equal(pinRuleProblem("123456", pad({ mode: "window" })), null);
+  assert.match(pinRuleProblem("123456", pad({ mode: "window", length: 4 })) ?? "", /exactly 4 digits/);
+  assert.equal(pinRuleProblem("1234", pad({ mode: "window", length: 4 })), null);
+});
+
+test("only a rule existing PINs might break counts as tighter", () => {
+  const off = pad({});
+  const on = pad({ mode: "window" });
+  const four = pad({ mode: "window", length: 4 });
+  assert.equal(pinRuleTightened(off, on), true);
+  assert.equal(pinRuleTightened(on, four), true);
+  assert.equal(pinRuleTightened(four, pad({ mode: "window", length: 6 })), true);
+  assert.equal(pinRuleTightened(four, pad({ mode: "fullscreen", length: 4, shuffle: true })), false);
+  assert.equal(pinRuleTightened(four, on), false);
+  assert.equal(pinRuleTightened(four, off), false);
+});
+
+test("auto-submit lengths are 4 to 8, or 0 for OK", () => {
+  assert.deepEqual([0, 3, 4, 8, 9, 4.5].map(isPinLength), [true, false, true, true, false, false]);
+});
@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { HOUR_MS, defaultPolicy, evaluatePolicy, opensInLastHour, withinHours } from "../src/policy";
+import type { OpenPolicy, PolicyRequest } from "../src/policy";
+import type { AuditRecord } from "../src/audit";
+
+// ----------------------------
+// Open rules
+// ----------------------------
+// 2026-10-18 is a Sunday. Dates are local, as business hours are.
+const sun = (h: number, m = 0) => new Date(2026, 9, 18, h, m);
+const mon = (h: number, m = 0) => new Date(2026, 9, 19, h, m);
+
+const STAFF = { name: "Ana", role: "staff" as const };
+const MANAGER = { name: "Chris", role: "manager" as const };
+
+function policy(over: Partial<OpenPolicy> = {}, hours: Partial<OpenPolicy["hours"]> = {}): OpenPolicy {
+  const p = defaultPolicy();
+  return { ...p, ...over, hours: { ...p.hours, ...hours } };
+}
+
+const ask = (p: OpenPolicy, req: Partial<PolicyRequest> = {}) =>
+  evaluatePolicy(p, { user: STAFF, reasons: p.reasons, opensLastHour: 0, now: sun(12), ...req });
+
+test("the hourly cap lets the last allowed open through and stops the next", () => {
+  const capped = policy({ maxOpensPerHour: 3 });
+  assert.equal(ask(capped, { opensLastHour: 2 }).outcome, "allow");
+  const over = ask(capped, { opensLastHour: 3 });
+  assert.deepEqual([over.outcome, over.rule], ["deny", "hourly_cap"]);
+  assert.match(over.message, /Ana has opened the drawer 3 times in the last hour \(limit 3\)/);
+  assert.equal(ask(capped, { user: MANAGER, opensLastHour: 30 }).outcome, "allow");
+  assert.equal(ask(policy(), { opensLastHour: 1000 }).outcome, "allow");
+});
+
+test("opens an hour old or more, failed ones and Test Open don't count toward the cap", () => {
+  const now = sun(12);
+  const rec = (ago: number, more: Partial<AuditRecord> = {}) =>
+    ({ type: "drawer_kick", ok: true, user: "Ana", source: "tray", ts: new Date(now.getTime() - ago).toISOString(), ...more }) as AuditRecord;
+  const records = [
+    rec(HOUR_MS + 1),
+    rec(HOUR_MS),
+    rec(60_000),
+    rec(60_000, { ok: false }),
+    rec(60_000, { source: "test" }),
+    rec(60_000, { user: "Ben" }),
+    rec(60_000, { type: "pin_accepted" }),
+  ];
+  assert.equal(opensInLastHour(records, "Ana", now), 2);
+});
+
+test("a daytime window opens on the minute and closes on the minute", () => {
+  const hours = policy({}, { enabled: true, open: "09:00", close: "17:30", days: [0] }).hours;
+  assert.deepEqual([sun(8, 59), sun(9, 0), sun(17, 29), sun(17, 30)].map((d) => withinHours(hours, d)), [false, true, true, false]);
+  assert.equal(withinHours(hours, mon(12)), false);
+});
+
+test("an overnight window belongs to the day it starts", () => {
+  // Sunday 18:00 until Monday 02:00 only
+  const hours = policy({}, { enabled: true, open: "18:00", close: "02:00", days: [0] }).hours;
+  assert.deepEqual(
+    [sun(17, 59), sun(18, 0), sun(23, 59), mon(0, 0), mon(1, 59), mon(2, 0), mon(18, 0)].map((d) => withinHours(hours, d)),
+    [false, true, true, true, true, false, false],
+  );
+  // Saturday's night runs into Sunday morning
+  assert.equal(withinHours({ ...hours, days: [6] }, sun(1)), true);
+  assert.equal(withinHours({ ...hours, days: [6] }, sun(18)), false);
+});
+
+test("outside business hours staff are stopped and managers are not", () => {
+  const p = policy({}, { enabled: true, open: "09:00", close: "17:00", days: [1, 2, 3, 4, 5] });
+  const denied = ask(p, { now: sun(12) });
+  assert.deepEqual([denied.outcome, denied.rule], ["deny", "business_hours"]);
+  assert.match(denied.message, /09:00–17:00, Mon, Tue, Wed, Thu, Fri/);
+  assert.equal(ask(p, { now: sun(12), user: MANAGER }).outcome, "allow");
+  assert.equal(ask(p, { now: mon(12) }).outcome, "allow");
+});
+
+test("a no-sale open waits for a manager PIN, then goes ahead in their name", () => {
+  const p = policy({ requireReason: true, overrideReasons: ["No Sale"] });
+  assert.equal(ask(p).outcome, "ask_reason");
+
+  const waiting = ask(p, { reason: "no sale" });
+  assert.deepEqual([waiting.outcome, waiting.rule], ["ask_override", "manager_override"]);
+
+  const approved = ask(p, { reason: "no sale", overrideBy: "Chris" });
+  assert.deepEqual([approved.outcome, approved.rule], ["allow", "manager_override"]);
+  assert.match(approved.message, /approved by Chris/);
+
+  // A manager opening for No Sale is asked too: the rule is about the reason
+  assert.equal(ask(p, { user: MANAGER, reason: "No Sale" }).outcome, "ask_override");
+  assert.equal(ask(p, { reason: "Sale" }).rule, "allowed");
+});
+
+test("a reason the picker doesn't offer is refused", () => {
+  const r = ask(policy({ requireReason: true }), { reason: "Birthday" });
+  assert.deepEqual([r.outcome, r.rule], ["deny", "reason_required"]);
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import { defaultReceipts, openSlip, zReportSlip } from "../src/receipts";
+import type { ReceiptTemplate } from "../src/receipts";
+import type { Shift } from "../src/shifts";
+import { assertGolden } from "./golden";
+
+// Slips print local times; pin the zone so the golden files hold anywhere.
+process.env.TZ = "UTC";
+
+const styled: ReceiptTemplate = {
+  ...defaultReceipts(),
+  slipOnOpen: true,
+  header: "Bond Sports Arena\n123 Main St",
+  footer: "Keep this slip with the drawer",
+  columns: 32,
+  code: "qr",
+};
+
+test("plain no-sale slip", () => {
+  const slip = openSlip(defaultReceipts(), {
+    drawer: "Front Desk",
+    user: "Jamie",
+    when: new Date("2026-03-14T09:26:00Z"),
+    ref: "LXK2J9",
+  });
+  assertGolden("slip-no-sale", slip);
+});
+
+test("payout slip with header, footer, approval and QR", () => {
+  const slip = openSlip(styled, {
+    drawer: "Bar",
+    user: "Sam",
+    when: new Date("2026-03-14T21:05:00Z"),
+    reason: "Payout",
+    amount: 2500,
+    approvedBy: "Morgan",
+    ref: "LXK3A0",
+  });
+  assertGolden("slip-payout-qr", slip);
+});
+
+test("slip with a barcode and no cut", () => {
+  const slip = openSlip({ ...defaultReceipts(), code: "barcode", cut: false, columns: 48 }, {
+    drawer: "Front Desk",
+    user: "Jamie",
+    when: new Date("2026-03-14T09:26:00Z"),
+    reason: "No Sale",
+    ref: "LXK2J9",
+  });
+  assertGolden("slip-barcode", slip);
+});
+
+test("Z report", () => {
+  const shift: Shift = {
+    id: "a1b2c3d4",
+    profileId: "p1",
+    drawer: "Front Desk",
+    openedAt: "2026-03-14T08:00:00Z",
+    openedBy: "Jamie",
+    openedById: "u1",
+    float: 15000,
+    opens: [
+      { ts: "2026-03-14T09:10:00Z", reason: "sale", amount: 1250, user: "Jamie", source: "hotkey" },
+      { ts: "2026-03-14T10:45:00Z", reason: "payout", amount: 500, user: "Jamie", source: "tray" },
+      { ts: "2026-03-14T11:30:00Z", reason: "no_sale", user: "Jamie", source: "api" },
+    ],
+    closedAt: "2026-03-14T16:00:00Z",
+    closedBy: "Morgan",
+    forced: true,
+    count: { "10000": 1, "2000": 2, "500": 2, "25": 2 },
+    counted: 15050,
+    expected: 15750,
+  };
+  assertGolden("z-report", zReportSlip(styled, shift));
+});
@@ -0,0 +1,70 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { startAdminSession } from "../src/session";
+import type { SessionUser } from "../src/session";
+
+// ----------------------------
+// Admin sessions
+// ----------------------------
+// The clock is a number the test moves; the idle timer itself is only
+// waited on in the last test.
+const ANA = { id: "a1", name: "Ana" };
+const CHRIS = { id: "c1", name: "Chris" };
+
+function setup(idleMs = 60_000) {
+  let t = 1_000_000;
+  const locks: SessionUser[] = [];
+  const session = startAdminSession(ANA, { idleMs, now: () => t, onLock: (u) => locks.push(u) });
+  return { session, locks, advance: (ms: number) => { t += ms; } };
+}
+
+test("a session stays live while it's used and goes stale once idle", () => {
+  const { session, advance } = setup();
+  advance(50_000);
+  session.touch();
+  advance(50_000);
+  assert.equal(session.live(), true);
+  advance(10_000);
+  assert.equal(session.live(), false);
+
+  // Use after going stale doesn't bring it back
+  session.touch();
+  assert.equal(session.live(), false);
+  session.end();
+});
+
+test("locking tells main once; unlocking takes whoever entered the PIN", () => {
+  const { session, locks } = setup();
+  session.lock();
+  session.lock();
+  assert.equal(session.live(), false);
+  assert.deepEqual(locks, [ANA]);
+
+  session.unlock(CHRIS);
+  assert.equal(session.live(), true);
+  assert.equal(session.user.name, "Chris");
+  session.end();
+});
+
+test("closing the window locks without a lock notice", () => {
+  const { session, locks } = setup();
+  session.end();
+  assert.equal(session.live(), false);
+  assert.deepEqual(locks, []);
+});
+
+test("a shorter idle time applies to the session already open", () => {
+  const { session, advance } = setup();
+  advance(2_000);
+  session.setIdle(1_000);
+  assert.equal(session.live(), false);
+  session.end();
+});
+
+test("the idle timer locks the session by itself", async () => {
+  const locks: SessionUser[] = [];
+  const session = startAdminSession(ANA, { idleMs: 30, onLock: (u) => locks.push(u) });
+  await new Promise((res) => setTimeout(res, 100));
+  assert.equal(session.live(), false);
+  assert.deepEqual(locks, [ANA]);
+});
@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { closeShift, countTotal, formatMoney, openShift, parseMoney, recordOpen, shiftTotals, zReport, zReportFileName } from "../src/shifts";
+import type { ShiftStore } from "../src/shifts";
+
+// ----------------------------
+// Cash shifts
+// ----------------------------
+// Times are local so the report reads the same in any time zone.
+const at = (h: number, m: number) => new Date(2026, 9, 18, h, m);
+const DRAWER = { id: "front", name: "Front Till" };
+const ANA = { id: "a1", name: "Ana" };
+
+// Float 150.00, two sales, a payout, change and a no-sale.
+function busyShift(store: ShiftStore = { shifts: [] }) {
+  const shift = openShift(store, DRAWER, ANA, 15000, at(9, 0));
+  shift.id = "s1";
+  recordOpen(shift, { reason: "sale", amount: 1250, user: "Ana", source: "hotkey" }, at(9, 15));
+  recordOpen(shift, { reason: "change", user: "Ana", source: "tray" }, at(10, 2));
+  recordOpen(shift, { reason: "sale", amount: 899, user: "Ana", source: "api" }, at(11, 30));
+  recordOpen(shift, { reason: "payout", amount: 2000, user: "Ben", source: "tray" }, at(12, 45));
+  recordOpen(shift, { reason: "no_sale", user: "Ana", source: "hotkey" }, at(13, 5));
+  return shift;
+}
+
+test("expected cash is the float plus sales less payouts", () => {
+  assert.deepEqual(shiftTotals(busyShift()), {
+    float: 15000,
+    sales: 2149,
+    salesCount: 2,
+    payouts: 2000,
+    payoutsCount: 1,
+    changeCount: 1,
+    noSaleCount: 1,
+    expected: 15149,
+  });
+});
+
+test("closing compares the count with what should be there", () => {
+  const balanced = closeShift(busyShift(), { 10000: 1, 2000: 2, 500: 1, 100: 6, 25: 1, 10: 2, 1: 4 }, "Ana", false, at(17, 0));
+  assert.equal(balanced.counted, 15149);
+  assert.equal(balanced.expected, 15149);
+  assert.equal(balanced.forced, undefined);
+
+  const short = closeShift(busyShift(), { 10000: 1, 2000: 2 }, "Chris", true, at(17, 0));
+  assert.equal(short.counted! - short.expected!, -1149);
+  assert.equal(short.forced, true);
+  assert.equal(countTotal({}), 0);
+});
+
+test("only one shift at a time per drawer", () => {
+  const store: ShiftStore = { shifts: [] };
+  busyShift(store);
+  assert.throws(() => openShift(store, DRAWER, ANA, 0), /already open on Front Till/);
+  assert.ok(openShift(store, { id: "back", name: "Back" }, ANA, 0));
+});
+
+test("the Z report lists totals, the count and every open", () => {
+  const shift = closeShift(busyShift(), { 10000: 1, 2000: 2, 500: 1, 100: 5 }, "Chris", true, at(17, 0));
+  assert.equal(zReport(shift), [
+    "Z REPORT — Front Till",
+    "Shift                                 s1",
+    "Opened                  2026-10-18 09:00",
+    "  by                                 Ana",
+    "Closed                  2026-10-18 17:00",
+    "  by                      Chris (forced)",
+    "----------------------------------------",
+    "Starting float                    150.00",
+    "Sales (2)                          21.49",
+    "Payouts (1)                       -20.00",
+    "Change (1)",
+    "No sale (1)",
+    "----------------------------------------",
+    "Expected in drawer                151.49",
+    "Counted                           150.00",
+    "SHORT                              -1.49",
+    "----------------------------------------",
+    "Count",
+    "  100.00 x 1                      100.00",
+    "  20.00 x 2                        40.00",
+    "  5.00 x 1                          5.00",
+    "  1.00 x 5                          5.00",
+    "----------------------------------------",
+    "Drawer opens",
+    "  09:15 Sale Ana                   12.50",
+    "  10:02 Change Ana",
+    "  11:30 Sale Ana                    8.99",
+    "  12:45 Payout Ben                 20.00",
+    "  13:05 No Sale Ana",
+    "",
+  ].join("\n"));
+  assert.equal(zReportFileName(shift), "Z-" + shift.closedAt!.slice(0, 10) + "-Front_Till-s1.txt");
+});
+
+test("an over count reads OVER and a quiet shift says so", () => {
+  const store: ShiftStore = { shifts: [] };
+  const shift = closeShift(openShift(store, DRAWER, ANA, 5000, at(9, 0)), { 5000: 1, 1: 3 }, "Ana", false, at(10, 0));
+  const report = zReport(shift, 32);
+  assert.match(report, /^OVER {24}0\.03$/m);
+  assert.match(report, /Drawer opens\n {2}\(none\)\n$/);
+});
+
+test("amounts are typed like money and kept in cents", () => {
+  assert.deepEqual(["12", "12.5", "$1,234.56", " 0.07 "].map(parseMoney), [1200, 1250, 123456, 7]);
+  assert.deepEqual(["", "1.234", "-5", "abc", "1e3"].map(parseMoney), [null, null, null, null, null]);
+  assert.deepEqual([0, 7, -1149, 123456].map(formatMoney), ["0.00", "0.07", "-11.49", "1234.56"]);
+});
@@ -0,0 +1,366 @@
+import { test, afterEach } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createStation, fileStore } from "../src/station";
+import type { ChoiceOptions, KickEvent, PromptOptions, StationUi } from "../src/station";
+import { ConfigError, defaultConfig } from "../src/config";
+import type { Config } from "../src/config";
+import { newProfile } from "../src/profiles";
+import { newUser } from "../src/users";
+import type { Role } from "../src/users";
+import { hashPin } from "../src/pins";
+import { ShiftsError, hasUsableShiftsBackup, restoreShiftsBackup } from "../src/shifts";
+import type { LinkOpener } from "../src/transport";
+import type { SettingsPayload } from "../src/payloads";
+
+// ----------------------------
+// Station flows, without Electron
+// ----------------------------
+// Each test gets a temp user-data folder, a UI that answers from a script,
+// a clock that only moves when told and, where a printer is involved, a
+// fake connection.
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+// Prompts take answers in order; running out counts as Cancel.
+function scriptedUi(answers: (string | null)[] = [], choices: number[] = []) {
+  const seen = { prompts: [] as PromptOptions[], choices: [] as ChoiceOptions[], errors: [] as { title: string; message: string }[], infos: [] as string[] };
+  const ui: StationUi = {
+    async prompt(opts) {
+      seen.prompts.push(opts);
+      return answers.length ? answers.shift()! : null;
+    },
+    async choose(opts) {
+      seen.choices.push(opts);
+      return choices.length ? choices.shift()! : opts.cancelId;
+    },
+    error: (title, message) => { seen.errors.push({ title, message }); },
+    info: (message) => { seen.infos.push(message); },
+  };
+  return { ui, seen };
+}
+
+// Monday 2 March 2026, 10:00 local time
+function fixedClock(at = new Date(2026, 2, 2, 10, 0)) {
+  let now = at.getTime();
+  return { now: () => new Date(now), advance: (ms: number) => { now += ms; } };
+}
+
+type Setup = {
+  answers?: (string | null)[];
+  choices?: number[];
+  users?: { name: string; role: Role; pin: string }[];
+  config?(cfg: Config): void;
+  connect?: LinkOpener;
+  managed?: unknown;
+};
+
+function setup(opts: Setup = {}) {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "station-"));
+  const managedFile = path.join(dir, "managed.json");
+  if (opts.managed) fs.writeFileSync(managedFile, JSON.stringify(opts.managed));
+  const store = fileStore(dir, managedFile);
+
+  if (opts.users || opts.config) {
+    const cfg = defaultConfig();
+    cfg.profiles = [newProfile("Front", { printerIp: "10.0.0.5" })];
+    cfg.defaultProfileId = cfg.profiles[0].id;
+    cfg.kickRetryDelayMs = 0;
+    for (const u of opts.users ?? []) cfg.users.push(newUser(u.name, u.role, hashPin(u.pin)));
+    opts.config?.(cfg);
+    store.writeConfig(cfg);
+  }
+
+  const { ui, seen } = scriptedUi(opts.answers, opts.choices);
+  const clock = fixedClock();
+  const kicks: KickEvent[] = [];
+  const station = createStation({ ui, store, clock, connect: opts.connect, events: { kicked: (e) => kicks.push(e) } });
+  return { station, store, seen, clock, kicks, dir };
+}
+
+// A printer that takes whatever it's sent and never answers back.
+function fakePrinter() {
+  const written: Buffer[] = [];
+  const connect: LinkOpener = async () => ({
+    write: async (data) => { written.push(data); },
+    close: async () => {},
+  });
+  return { connect, written };
+}
+
+const timingOut: LinkOpener = async () => {
+  throw Object.assign(new Error("connect ETIMEDOUT 10.0.0.5:9100"), { code: "ETIMEDOUT" });
+};
+
+const ANA = { name: "Ana", role: "admin" as Role, pin: "4321" };
+const BEN = { name: "Ben", role: "staff" as Role, pin: "1111" };
+
+test("first run creates the admin and the PIN works straight away", async () => {
+  const { station, store, seen } = setup({ answers: ["  Ana ", "4321", "4321", "4321"] });
+  const created = await station.verifyPinOrSet(station.loadConfig());
+  assert.equal(created?.name, "Ana");
+  assert.equal(created?.role, "admin");
+  assert.deepEqual(seen.prompts.map((p) => p.title), ["Create Admin", "Set PIN", "Confirm PIN"]);
+
+  const saved = store.readConfig().config;
+  assert.equal(saved.users.length, 1);
+  assert.notEqual(saved.users[0].pinHash, "4321");
+  assert.ok(store.readAudit().some((r) => r.type === "user_changed" && r.detail?.action === "created"));
+
+  const again = await station.verifyPinOrSet(station.loadConfig());
+  assert.equal(again?.id, created?.id);
+  assert.equal(seen.prompts.at(-1)?.title, "PIN Required");
+});
+
+test("first run stops when the PINs don't match", async () => {
+  const { station, store, seen } = setup({ answers: ["Ana", "4321", "1234"] });
+  assert.equal(await station.verifyAdminOrSet(station.loadConfig()), null);
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Mismatch"]);
+  assert.equal(store.readConfig().config.users.length, 0);
+});
+
+test("wrong PINs lock the station until the wait is over", async () => {
+  const { station, store, seen, clock } = setup({ users: [ANA], answers: ["0000", "0001", "0002", "0003", "0004", "4321"] });
+  for (let i = 0; i < 5; i++) {
+    assert.equal(await station.verifyPinOrSet(station.loadConfig()), null);
+  }
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Locked"]);
+  assert.equal(store.readAudit().filter((r) => r.type === "pin_rejected").length, 5);
+  assert.ok(store.readAudit().some((r) => r.type === "lockout"));
+
+  // Still locked: refused without asking
+  assert.equal(await station.verifyPinOrSet(station.loadConfig()), null);
+  assert.equal(seen.prompts.length, 5);
+
+  clock.advance(30_000);
+  const user = await station.verifyPinOrSet(station.loadConfig());
+  assert.equal(user?.name, "Ana");
+  assert.deepEqual(store.readLockout(), {});
+});
+
+test("a staff PIN between admin guesses doesn't reset the admin lockout", async () => {
+  const { station, store, seen } = setup({ users: [ANA, BEN], answers: ["0000", "0001", "1111", "0002", "1111", "4321"] });
+  for (let i = 0; i < 5; i++) {
+    assert.equal(await station.verifyAdminOrSet(station.loadConfig()), null);
+  }
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Locked"]);
+  assert.equal(store.readLockout().admin?.failures, 5);
+
+  // Locked even for the right PIN, and the staff prompt is unaffected
+  assert.equal(await station.verifyAdminOrSet(station.loadConfig()), null);
+  assert.equal(seen.prompts.length, 5);
+  assert.equal(store.readLockout().staff, undefined);
+});
+
+test("a staff PIN doesn't pass where an admin is needed", async () => {
+  const { station, store } = setup({ users: [ANA, BEN], answers: ["1111"] });
+  assert.equal(await station.verifyAdminOrSet(station.loadConfig()), null);
+  assert.equal(store.readAudit().at(-1)?.detail?.reason, "insufficient role");
+});
+
+test("opening the drawer kicks the printer and audits who did it", async () => {
+  const printer = fakePrinter();
+  const { station, store, seen, kicks } = setup({ users: [ANA, BEN], answers: ["1111"], connect: printer.connect });
+  const result = await station.openDrawer(station.loadConfig(), "tray");
+  assert.equal(result?.ok, true);
+  assert.equal(printer.written.length, 1);
+  assert.equal(printer.written[0][0], 0x1b);   // ESC p
+  assert.equal(printer.written[0][1], 0x70);
+  assert.deepEqual(seen.errors, []);
+  assert.equal(kicks.length, 1);
+
+  const kick = store.readAudit().find((r) => r.type === "drawer_kick");
+  assert.equal(kick?.ok, true);
+  assert.equal(kick?.user, "Ben");
+  assert.equal(kick?.source, "tray");
+});
+
+test("a printer that times out is retried, then reported", async () => {
+  let tries = 0;
+  const connect: LinkOpener = (p, ms) => { tries++; return timingOut(p, ms); };
+  const { station, store, seen, kicks } = setup({ users: [ANA, BEN], answers: ["1111"], connect });
+  const result = await station.openDrawer(station.loadConfig(), "hotkey");
+  assert.equal(result?.ok, false);
+  assert.equal(result?.category, "timeout");
+  assert.equal(result?.attempts, 3);
+  assert.equal(tries, 3);
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Printer Not Responding"]);
+  assert.equal(kicks[0].result.category, "timeout");
+
+  const kick = store.readAudit().find((r) => r.type === "drawer_kick");
+  assert.equal(kick?.ok, false);
+  assert.equal(kick?.detail?.category, "timeout");
+});
+
+test("a drawer with no printer set up isn't kicked or asked for a PIN", async () => {
+  const printer = fakePrinter();
+  const { station, seen } = setup({ users: [ANA], config: (cfg) => { cfg.profiles[0].printerIp = ""; }, connect: printer.connect });
+  assert.equal(await station.openDrawer(station.loadConfig(), "tray"), null);
+  assert.equal(seen.prompts.length, 0);
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Not Configured"]);
+  assert.equal(printer.written.length, 0);
+});
+
+test("business hours follow the station clock", async () => {
+  const printer = fakePrinter();
+  const { station, store, seen, clock } = setup({
+    users: [ANA, BEN],
+    answers: ["1111", "1111"],
+    config: (cfg) => { cfg.policy.hours = { enabled: true, open: "08:00", close: "22:00", days: [1, 2, 3, 4, 5] }; },
+    connect: printer.connect,
+  });
+  clock.advance(13 * 60 * 60_000);   // 23:00
+  assert.equal(await station.openDrawer(station.loadConfig(), "tray"), null);
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Drawer Not Opened"]);
+  assert.equal(printer.written.length, 0);
+  assert.equal(store.readAudit().find((r) => r.type === "policy")?.detail?.rule, "business_hours");
+
+  clock.advance(10 * 60 * 60_000);   // Tuesday 09:00
+  assert.equal((await station.openDrawer(station.loadConfig(), "tray"))?.ok, true);
+  assert.equal(printer.written.length, 1);
+});
+
+test("the API can't get past a rule that wants a manager", async () => {
+  const printer = fakePrinter();
+  const { station, store } = setup({
+    users: [ANA],
+    config: (cfg) => { cfg.policy.maxOpensPerHour = 1; },
+    connect: printer.connect,
+  });
+  assert.equal((await station.apiOpenDrawer({ cashierId: "7" })).status, 200);
+  const second = await station.apiOpenDrawer({ cashierId: "7" });
+  assert.equal(second.status, 403);
+  assert.equal(printer.written.length, 1);
+  assert.equal(store.readAudit().at(-1)?.detail?.rule, "hourly_cap");
+});
+
+test("saving Settings keeps accounts, the API token and managed values", async () => {
+  const { station, store } = setup({
+    users: [ANA],
+    config: (cfg) => { cfg.api.tokenHash = "a".repeat(64); },
+    managed: { kickRetries: 4 },
+  });
+  const before = station.loadConfig();
+  assert.equal(before.kickRetries, 4);
+  assert.deepEqual(station.lockedFields(), ["kickRetries"]);
+
+  const req: SettingsPayload = {
+    profiles: before.profiles,
+    defaultProfileId: before.defaultProfileId,
+    openAlertSecs: 120,
+    kickRetries: 5,
+    kickRetryDelayMs: before.kickRetryDelayMs,
+    api: { enabled: true, port: before.api.port },
+    shifts: before.shifts,
+    policy: before.policy,
+    receipts: before.receipts,
+    emulator: before.emulator,
+    hotkeys: before.hotkeys,
+    health: before.health,
+    adminIdleMins: before.adminIdleMins,
+    pinPad: before.pinPad,
+  };
+  const { saved } = await station.saveSettings(req, "Ana");
+  assert.equal(saved?.openAlertSecs, 120);
+  assert.equal(saved?.kickRetries, 4);
+
+  const local = store.readConfig().config;
+  assert.equal(local.openAlertSecs, 120);
+  assert.equal(local.kickRetries, 2);
+  assert.equal(local.api.tokenHash, "a".repeat(64));
+  assert.deepEqual(local.users, before.users);
+
+  const change = store.readAudit().find((r) => r.type === "config_changed" && r.source === "settings");
+  assert.equal(change?.user, "Ana");
+  assert.ok(change?.detail?.openAlertSecs);
+  assert.equal(change?.detail?.kickRetries, undefined);
+});
+
+test("saving Settings refuses a drawer list it can't use", async () => {
+  const { station, store } = setup({ users: [ANA] });
+  const before = station.loadConfig();
+  const req = { ...before, profiles: [] } as unknown as SettingsPayload;
+  assert.deepEqual(await station.saveSettings(req), { ok: false, error: "Check the drawer settings." });
+  assert.deepEqual(store.readConfig().config, before);
+});
+
+test("a PIN pad no admin PIN fits isn't saved", async () => {
+  const { station, store, seen } = setup({ users: [ANA], answers: ["4321"] });
+  const before = station.loadConfig();
+  const req = { ...before, pinPad: { mode: "window", length: 6, shuffle: false } } as unknown as SettingsPayload;
+  const res = await station.saveSettings(req, "Ana");
+  assert.equal(res.ok, false);
+  assert.equal(seen.prompts[0].keypad?.length, 6);
+  assert.deepEqual(seen.errors.map((e) => e.title), ["Check the New PIN Pad"]);
+  assert.deepEqual(store.readConfig().config.pinPad, before.pinPad);
+});
+
+test("a PIN pad an admin PIN fits is saved after they enter it", async () => {
+  const { station, store, seen } = setup({ users: [ANA], answers: ["4321"] });
+  const before = station.loadConfig();
+  const req = { ...before, pinPad: { mode: "window", length: 4, shuffle: false } } as unknown as SettingsPayload;
+  assert.equal((await station.saveSettings(req, "Ana")).ok, true);
+  assert.equal(seen.prompts.length, 1);
+  assert.equal(store.readConfig().config.pinPad.length, 4);
+
+  // Loosening the rule again needs no check
+  const off = { ...req, pinPad: { mode: "off", length: 0, shuffle: false } } as SettingsPayload;
+  assert.equal((await station.saveSettings(off)).ok, true);
+  assert.equal(seen.prompts.length, 1);
+});
+
+test("an audit log that can't be written is reported once and doesn't stop anything", async () => {
+  const { store } = setup({ users: [BEN] });
+  const failures: string[] = [];
+  let broken = true;
+  const station = createStation({
+    ui: scriptedUi(["1111", "1111", "1111", "1111"]).ui,
+    store: {
+      ...store,
+      appendAudit: (input, now) => {
+        if (broken) throw new Error("EROFS: read-only file system");
+        store.appendAudit(input, now);
+      },
+    },
+    clock: fixedClock(),
+    events: { auditFailed: (m) => failures.push(m) },
+  });
+  const cfg = station.loadConfig();
+  const pin = () => station.identifyUser(cfg, "staff", "staff", { title: "PIN Required", label: "PIN:" });
+
+  assert.equal((await pin())?.name, "Ben");
+  assert.equal((await pin())?.name, "Ben");
+  assert.deepEqual(failures, ["EROFS: read-only file system"]);
+  broken = false;
+  await pin();
+  broken = true;
+  await pin();
+  assert.equal(failures.length, 2);
+});
+
+test("damaged settings are refused rather than replaced with defaults", () => {
+  const { station, dir } = setup();
+  fs.writeFileSync(path.join(dir, "config.json"), "{ not json");
+  assert.throws(() => station.loadConfig(), ConfigError);
+});
+
+test("damaged cash shifts are refused rather than read as none open", async () => {
+  const { station, store, dir, kicks } = setup({ users: [BEN], answers: ["1111"], config: (cfg) => { cfg.shifts.enabled = true; } });
+  const file = path.join(dir, "shifts.json");
+  store.writeShifts({ shifts: [] });
+  store.writeShifts({ shifts: [] });
+  fs.writeFileSync(file, "{ not json");
+
+  await assert.rejects(station.openDrawer(station.loadConfig(), "tray"), ShiftsError);
+  assert.equal(kicks.length, 0);
+  assert.equal(hasUsableShiftsBackup(file), true);
+  assert.deepEqual(restoreShiftsBackup(file), { shifts: [] });
+  assert.deepEqual(station.readShifts(), { shifts: [] });
+  assert.equal(fs.readdirSync(dir).filter((f) => f.startsWith("shifts.json.damaged-")).length, 1);
+});
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { defaultConfig } from "../src/config";
+import { newUser } from "../src/users";
+import { hashPin } from "../src/pins";
+import { BundleError, exportBundle, importBundle } from "../src/transfer";
+
+// ----------------------------
+// Signed settings files
+// ----------------------------
+const PASS = "correct horse";
+
+function station() {
+  const cfg = defaultConfig();
+  cfg.openAlertSecs = 90;
+  cfg.api.tokenHash = "a".repeat(64);
+  cfg.users.push(newUser("Ana", "admin", hashPin("4321")));
+  return cfg;
+}
+
+const exported = (includeUsers = false) => exportBundle(station(), PASS, { includeUsers, station: "till-1" });
+
+test("settings come back as exported, without the API token", () => {
+  const r = importBundle(JSON.stringify(exported()), PASS);
+  assert.equal(r.station, "till-1");
+  assert.equal(r.settings.openAlertSecs, 90);
+  assert.equal(r.settings.api.tokenHash, undefined);
+  assert.equal(r.users, undefined);
+});
+
+test("accounts only travel when asked for, and only encrypted", () => {
+  const bundle = exported(true);
+  assert.doesNotMatch(JSON.stringify(bundle), /Ana/);
+  assert.deepEqual(importBundle(JSON.stringify(bundle), PASS).users?.map((u) => u.name), ["Ana"]);
+});
+
+test("a wrong passphrase or an edited file is refused", () => {
+  const text = JSON.stringify(exported());
+  assert.throws(() => importBundle(text, "wrong horse"), /Wrong passphrase/);
+
+  const edited = JSON.parse(text);
+  edited.settings.openAlertSecs = 5;
+  assert.throws(() => importBundle(JSON.stringify(edited), PASS), /Wrong passphrase/);
+  assert.throws(() => importBundle("{", PASS), BundleError);
+});
+
+test("key settings that would hang or exhaust the import are refused up front", () => {
+  const good = exported();
+  for (const kdf of [{ r: 1 << 20 }, { p: 1 << 20 }, { N: 1 << 24 }, { N: 3000 }, { N: 1 << 20, r: 8 }, { salt: "zz" }]) {
+    const bundle = { ...good, kdf: { ...good.kdf, ...kdf } };
+    const started = Date.now();
+    assert.throws(() => importBundle(JSON.stringify(bundle), PASS), (e) => e instanceof BundleError && /damaged/.test(e.message));
+    assert.ok(Date.now() - started < 1000, JSON.stringify(kdf));
+  }
+});